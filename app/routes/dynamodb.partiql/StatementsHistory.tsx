@@ -0,0 +1,80 @@
+import { FunctionComponent } from 'react';
+import { useTranslation } from 'react-i18next';
+import {
+  IconButton,
+  List,
+  ListItem,
+  ListItemButton,
+  ListItemText,
+  ListSubheader,
+  Typography,
+  styled,
+} from '@mui/material';
+import { Delete as DeleteIcon } from '@mui/icons-material';
+
+export interface StatementsHistoryProps {
+  statements: string[];
+  onSelect: (statement: string) => void;
+  onClear: () => void;
+}
+
+const NoWrapListItemText = styled(ListItemText)({
+  '& > span': {
+    whiteSpace: 'nowrap',
+    overflow: 'hidden',
+    textOverflow: 'ellipsis',
+    fontFamily: "'Amazon Ember Mono', monospace",
+  },
+});
+
+const StatementsHistory: FunctionComponent<StatementsHistoryProps> = ({
+  statements,
+  onSelect,
+  onClear,
+}) => {
+  const { t } = useTranslation();
+
+  return (
+    <List
+      dense
+      disablePadding
+      sx={{ height: '100%', overflowY: 'auto' }}
+      subheader={
+        <ListSubheader
+          disableGutters
+          sx={{
+            display: 'flex',
+            justifyContent: 'space-between',
+            alignItems: 'center',
+          }}
+        >
+          {t('history')}
+          <IconButton
+            edge="end"
+            size="small"
+            aria-label={t('clearHistory')}
+            disabled={statements.length < 1}
+            onClick={onClear}
+          >
+            <DeleteIcon fontSize="small" />
+          </IconButton>
+        </ListSubheader>
+      }
+    >
+      {statements.length < 1 && (
+        <Typography variant="body2" color="text.secondary">
+          {t('noStatementsExecuted')}
+        </Typography>
+      )}
+      {statements.map(statement => (
+        <ListItem key={statement} disablePadding>
+          <ListItemButton title={statement} onClick={() => onSelect(statement)}>
+            <NoWrapListItemText>{statement}</NoWrapListItemText>
+          </ListItemButton>
+        </ListItem>
+      ))}
+    </List>
+  );
+};
+
+export default StatementsHistory;
@@ -0,0 +1,77 @@
+import {
+  BatchExecuteStatementCommand,
+  ExecuteStatementCommand,
+} from '@aws-sdk/client-dynamodb';
+import { ActionFunctionArgs, json } from '@remix-run/node';
+import { getAwsClient } from '~/src/aws/server';
+import {
+  SerializedItem,
+  serializeItem,
+  splitStatements,
+} from '~/src/aws/dynamodb';
+import { useServerTranslation } from '~/i18next.server';
+
+export type ExecuteStatementsResult = {
+  items: SerializedItem[];
+  nextToken?: string;
+  // Only available when multiple statements are executed in batch
+  batchResults?: {
+    statement: string;
+    tableName?: string;
+    error?: string;
+  }[];
+};
+
+// BatchExecuteStatement accepts at most 25 statements per request
+const maxBatchSize = 25;
+
+export const executeStatementsAction = async ({
+  request,
+}: ActionFunctionArgs) => {
+  const { searchParams } = new URL(request.url);
+  const formData = await request.formData();
+  const dynamoDbClient = getAwsClient('dynamodb', searchParams.get('endpoint'));
+  const { t } = await useServerTranslation(request);
+  const statements = splitStatements(
+    formData.get('statement')?.toString() ?? '',
+  );
+
+  if (statements.length > maxBatchSize) {
+    return json(
+      { error: t('tooManyStatements', { max: maxBatchSize }) },
+      { status: 400 },
+    );
+  }
+
+  try {
+    if (statements.length === 1) {
+      const { Items, NextToken } = await dynamoDbClient.send(
+        new ExecuteStatementCommand({
+          Statement: statements[0],
+          NextToken: formData.get('nextToken')?.toString() || undefined,
+          Limit: Number(formData.get('limit')?.toString() || 50),
+        }),
+      );
+      return json<ExecuteStatementsResult>({
+        items: Items?.map(serializeItem) ?? [],
+        nextToken: NextToken,
+      });
+    }
+
+    const { Responses } = await dynamoDbClient.send(
+      new BatchExecuteStatementCommand({
+        Statements: statements.map(Statement => ({ Statement })),
+      }),
+    );
+    return json<ExecuteStatementsResult>({
+      items: Responses?.map(({ Item }) => serializeItem(Item ?? {})) ?? [],
+      batchResults: statements.map((statement, index) => ({
+        statement,
+        tableName: Responses?.[index]?.TableName,
+        error: Responses?.[index]?.Error?.Message,
+      })),
+    });
+  } catch (error) {
+    return json({ error: (error as Error).message }, { status: 400 });
+  }
+};
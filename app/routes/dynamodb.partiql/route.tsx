@@ -0,0 +1,290 @@
+import { FunctionComponent, useMemo, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { ActionFunctionArgs, json } from '@remix-run/node';
+import { useFetcher, useLoaderData, useSearchParams } from '@remix-run/react';
+import {
+  Alert,
+  Box,
+  Button,
+  FormControl,
+  InputLabel,
+  MenuItem,
+  Select,
+  Stack,
+  TextField,
+  Typography,
+} from '@mui/material';
+import {
+  PlayArrow as PlayArrowIcon,
+  NavigateBefore as NavigateBeforeIcon,
+  NavigateNext as NavigateNextIcon,
+} from '@mui/icons-material';
+import DataGrid, { GridColDef } from '~/src/components/DataGrid';
+import CurrentPath from '~/src/components/CurrentPath';
+import EndpointSelect from '~/src/components/EndpointSelect';
+import TableOverlay from '~/src/components/TableOverlay';
+import useLocalStorageState from '~/src/hooks/useLocalStorageState';
+import { getAwsClientsGroup } from '~/src/aws/server';
+import { SerializedItem, formatAttributeValue } from '~/src/aws/dynamodb';
+import { computeTitle, ignoreSearchChanges } from '~/src/utils';
+import StatementsHistory from './StatementsHistory';
+import { executeStatementsAction } from './actions';
+import type { LoaderFunctionArgs, MetaFunction } from '@remix-run/node';
+import { useServerTranslation } from '~/i18next.server';
+
+const maxHistoryLength = 50;
+
+export const loader = async ({ request }: LoaderFunctionArgs) => {
+  const { t } = await useServerTranslation(request);
+  return json({
+    meta: { titleParts: [t('partiql')] },
+    endpoints: Array.from(getAwsClientsGroup('dynamodb').keys()),
+  });
+};
+
+export const shouldRevalidate = ignoreSearchChanges;
+
+export const meta: MetaFunction<typeof loader> = ({ data }) => [
+  computeTitle('DynamoDB', ...(data?.meta.titleParts || [])),
+];
+
+export const action = (args: ActionFunctionArgs) =>
+  executeStatementsAction(args);
+
+interface ResultRow {
+  id: number;
+  item: SerializedItem;
+  statement?: string;
+  error?: string;
+}
+
+const PartiqlConsole: FunctionComponent = () => {
+  const { t } = useTranslation();
+  const { endpoints } = useLoaderData<typeof loader>();
+  // The statements are submitted to the current url,
+  // so they are executed on the endpoint in the search params
+  const [searchParams, setSearchParams] = useSearchParams();
+  const fetcher = useFetcher<typeof action>();
+  const [statement, setStatement] = useState('');
+  const [limit, setLimit] = useState('50');
+  const [executedStatement, setExecutedStatement] = useState('');
+  // The tokens used to reach the current page, so that we can go back
+  // to the previous page by simply removing the last one
+  const [pageTokens, setPageTokens] = useState<string[]>([]);
+  const [history, setHistory] = useLocalStorageState<string[]>(
+    'localui:dynamodb:partiql-history',
+    [],
+  );
+  const error =
+    fetcher.data && 'error' in fetcher.data ? fetcher.data.error : undefined;
+  const result =
+    fetcher.data && !('error' in fetcher.data) ? fetcher.data : undefined;
+  const rows = useMemo<ResultRow[]>(
+    () =>
+      result?.items.map((item, index) => ({
+        id: index,
+        item: item as SerializedItem,
+        statement: result.batchResults?.[index]?.statement,
+        error: result.batchResults?.[index]?.error,
+      })) ?? [],
+    [result],
+  );
+  const attributeNames = useMemo(
+    () => Array.from(new Set(rows.flatMap(row => Object.keys(row.item)))),
+    [rows],
+  );
+
+  const submitStatement = (statementToSubmit: string, nextToken?: string) =>
+    fetcher.submit(
+      {
+        statement: statementToSubmit,
+        limit,
+        ...(nextToken && { nextToken }),
+      },
+      { method: 'POST' },
+    );
+
+  const run = () => {
+    const trimmedStatement = statement.trim();
+    if (!trimmedStatement) {
+      return;
+    }
+    setExecutedStatement(trimmedStatement);
+    setPageTokens([]);
+    setHistory(previousHistory =>
+      [
+        trimmedStatement,
+        ...previousHistory.filter(entry => entry !== trimmedStatement),
+      ].slice(0, maxHistoryLength),
+    );
+    submitStatement(trimmedStatement);
+  };
+
+  const goToPreviousPage = () => {
+    const previousTokens = pageTokens.slice(0, -1);
+    setPageTokens(previousTokens);
+    submitStatement(
+      executedStatement,
+      previousTokens[previousTokens.length - 1],
+    );
+  };
+
+  const goToNextPage = () => {
+    if (!result?.nextToken) {
+      return;
+    }
+    setPageTokens(previousTokens => [...previousTokens, result.nextToken!]);
+    submitStatement(executedStatement, result.nextToken);
+  };
+
+  return (
+    <>
+      {/* t('partiql') */}
+      <CurrentPath items={['dynamodb', 'partiql']} />
+      <Stack p={2} gap={2}>
+        <Stack
+          direction="row"
+          justifyContent="space-between"
+          alignItems="center"
+        >
+          <Typography variant="h5" component="h2">
+            {t('partiql')}
+          </Typography>
+          <Stack direction="row" gap={1}>
+            <Button
+              onClick={goToPreviousPage}
+              disabled={pageTokens.length < 1 || fetcher.state !== 'idle'}
+              aria-label={t('previousPage')}
+            >
+              <NavigateBeforeIcon />
+            </Button>
+            <Button
+              onClick={goToNextPage}
+              disabled={!result?.nextToken || fetcher.state !== 'idle'}
+              aria-label={t('nextPage')}
+            >
+              <NavigateNextIcon />
+            </Button>
+          </Stack>
+        </Stack>
+        <Stack direction="row" gap={2} height={200}>
+          <Stack flex="1 1 auto" gap={1}>
+            <TextField
+              fullWidth
+              multiline
+              rows={5}
+              label={t('statements')}
+              placeholder={`SELECT * FROM "my-table" WHERE "id" = 'my-id'`}
+              helperText={t('statementsHint')}
+              value={statement}
+              onChange={event => setStatement(event.target.value)}
+              onKeyDown={event => {
+                if (event.key === 'Enter' && (event.ctrlKey || event.metaKey)) {
+                  event.preventDefault();
+                  run();
+                }
+              }}
+              inputProps={{
+                spellCheck: false,
+                style: { fontFamily: "'Amazon Ember Mono', monospace" },
+              }}
+            />
+            <Stack direction="row" gap={1} alignItems="center">
+              <Button
+                variant="contained"
+                color="secondary"
+                startIcon={<PlayArrowIcon />}
+                onClick={run}
+                disabled={!statement.trim() || fetcher.state !== 'idle'}
+              >
+                {t('run')}
+              </Button>
+              <FormControl sx={{ width: 100 }}>
+                <InputLabel id="partiql-limit-label">
+                  {t('pageSize')}
+                </InputLabel>
+                <Select
+                  labelId="partiql-limit-label"
+                  size="small"
+                  label={t('pageSize')}
+                  value={limit}
+                  onChange={event => setLimit(event.target.value)}
+                >
+                  <MenuItem value="25">25</MenuItem>
+                  <MenuItem value="50">50</MenuItem>
+                  <MenuItem value="100">100</MenuItem>
+                </Select>
+              </FormControl>
+              {endpoints.length > 1 && (
+                <EndpointSelect
+                  sx={{ width: 250 }}
+                  endpoints={endpoints}
+                  value={searchParams.get('endpoint') ?? endpoints[0]}
+                  onChange={endpoint =>
+                    setSearchParams(
+                      previousParams => {
+                        previousParams.set('endpoint', endpoint);
+                        return previousParams;
+                      },
+                      { replace: true },
+                    )
+                  }
+                />
+              )}
+            </Stack>
+          </Stack>
+          <Box width={320} flex="0 0 auto">
+            <StatementsHistory
+              statements={history}
+              onSelect={setStatement}
+              onClear={() => setHistory([])}
+            />
+          </Box>
+        </Stack>
+        {error && <Alert severity="error">{error}</Alert>}
+      </Stack>
+      <Box height="calc(100vh - 420px)">
+        <DataGrid
+          rows={rows}
+          columns={[
+            ...(result?.batchResults
+              ? [
+                  {
+                    field: 'statement',
+                    headerName: t('statement'),
+                    minWidth: 250,
+                    flex: 1,
+                  } as GridColDef<ResultRow>,
+                  {
+                    field: 'error',
+                    headerName: t('error'),
+                    minWidth: 200,
+                    flex: 1,
+                  } as GridColDef<ResultRow>,
+                ]
+              : []),
+            ...attributeNames.map<GridColDef<ResultRow>>(attributeName => ({
+              field: `item.${attributeName}`,
+              headerName: attributeName,
+              valueGetter: (_, row) =>
+                formatAttributeValue(row.item[attributeName]),
+              minWidth: 150,
+              flex: 1,
+            })),
+          ]}
+          loading={fetcher.state !== 'idle'}
+          disableRowSelectionOnClick
+          hideFooter
+          slots={{ noRowsOverlay: TableOverlay }}
+          slotProps={{
+            noRowsOverlay: {
+              children: result ? t('noItemsReturned') : t('runStatementHint'),
+            },
+          }}
+        />
+      </Box>
+    </>
+  );
+};
+
+export default PartiqlConsole;
@@ -0,0 +1,84 @@
+import {
+  AttributeValue,
+  CreateTableCommand,
+  DescribeTableCommand,
+  ScanCommand,
+} from '@aws-sdk/client-dynamodb';
+import { ActionFunctionArgs, json } from '@remix-run/node';
+import { getAwsClient, getAwsClientsGroup } from '~/src/aws/server';
+import {
+  BatchWriteResult,
+  batchWriteItems,
+  waitForActiveTable,
+} from '~/src/aws/dynamodb.server';
+import { buildCreateTableInput } from '~/src/aws/dynamodb';
+import { useServerTranslation } from '~/i18next.server';
+
+export type CopyTableResult = {
+  tableName: string;
+  endpoint: string;
+  // Only available when the items are copied as well
+  items?: BatchWriteResult;
+};
+
+export async function action({ request, params }: ActionFunctionArgs) {
+  const { searchParams } = new URL(request.url);
+  const formData = await request.formData();
+  const { t } = await useServerTranslation(request);
+  const sourceClient = getAwsClient('dynamodb', searchParams.get('endpoint'));
+  const targetEndpoint = formData.get('targetEndpoint')?.toString() ?? '';
+  const targetClient = getAwsClientsGroup('dynamodb').get(targetEndpoint);
+  const tableName =
+    formData.get('tableName')?.toString().trim() || params.name!;
+
+  if (!targetClient) {
+    return json({ error: t('unknownEndpoint') }, { status: 400 });
+  }
+
+  try {
+    const { Table } = await sourceClient.send(
+      new DescribeTableCommand({ TableName: params.name }),
+    );
+    await targetClient.send(
+      new CreateTableCommand(buildCreateTableInput(Table!, tableName)),
+    );
+    if (!formData.has('copyItems')) {
+      return json<CopyTableResult>({ tableName, endpoint: targetEndpoint });
+    }
+
+    // Items can only be written once the new table is active
+    if (!(await waitForActiveTable(targetClient, tableName, 120))) {
+      return json(
+        { error: t('tableStillUpdating', { tableName }) },
+        { status: 400 },
+      );
+    }
+    const items: BatchWriteResult = { written: 0, failed: 0, errors: [] };
+    let exclusiveStartKey: Record<string, AttributeValue> | undefined;
+    do {
+      const { Items, LastEvaluatedKey } = await sourceClient.send(
+        new ScanCommand({
+          TableName: params.name,
+          ExclusiveStartKey: exclusiveStartKey,
+        }),
+      );
+      const result = await batchWriteItems(
+        targetClient,
+        tableName,
+        Items ?? [],
+      );
+      items.written += result.written;
+      items.failed += result.failed;
+      items.errors.push(...result.errors);
+      exclusiveStartKey = LastEvaluatedKey;
+    } while (exclusiveStartKey);
+
+    return json<CopyTableResult>({
+      tableName,
+      endpoint: targetEndpoint,
+      items,
+    });
+  } catch (error) {
+    return json({ error: (error as Error).message }, { status: 400 });
+  }
+}
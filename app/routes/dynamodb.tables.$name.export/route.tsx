@@ -0,0 +1,105 @@
+import {
+  AttributeValue,
+  DescribeTableCommand,
+  QueryCommand,
+  ScanCommand,
+} from '@aws-sdk/client-dynamodb';
+import { LoaderFunctionArgs } from '@remix-run/node';
+import { getAwsClient } from '~/src/aws/server';
+import {
+  buildKeyCondition,
+  exportFormatToFileExtensionMap,
+  formatCsvRow,
+  formatItemAsJsonLine,
+  getKeyCsvColumns,
+  parseExportFormat,
+  parseItemsFilter,
+  serializeItem,
+  toCsvCells,
+} from '~/src/aws/dynamodb';
+
+const textEncoder = new TextEncoder();
+
+export const loader = async ({ request, params }: LoaderFunctionArgs) => {
+  const { searchParams } = new URL(request.url);
+  const dynamoDbClient = getAwsClient('dynamodb', searchParams.get('endpoint'));
+  const TableName = params.name;
+  const format = parseExportFormat(searchParams.get('format'));
+  const { Table } = await dynamoDbClient.send(
+    new DescribeTableCommand({ TableName }),
+  );
+  const filter = parseItemsFilter(searchParams);
+  const keyCondition = buildKeyCondition(Table, filter);
+
+  // Reads all the pages of the scan (or query) one after the other
+  async function* readPages() {
+    let exclusiveStartKey: Record<string, AttributeValue> | undefined;
+    do {
+      const commonInput = {
+        TableName,
+        IndexName: filter.indexName,
+        ExclusiveStartKey: exclusiveStartKey,
+      };
+      const { Items, LastEvaluatedKey } = keyCondition
+        ? await dynamoDbClient.send(
+            new QueryCommand({ ...commonInput, ...keyCondition }),
+          )
+        : await dynamoDbClient.send(new ScanCommand(commonInput));
+      yield Items?.map(serializeItem) ?? [];
+      exclusiveStartKey = LastEvaluatedKey;
+    } while (exclusiveStartKey);
+  }
+
+  async function* readLines() {
+    if (format !== 'csv') {
+      for await (const items of readPages()) {
+        yield items.map(item => formatItemAsJsonLine(item, format)).join('');
+      }
+      return;
+    }
+    // The CSV header needs the columns of every item, so the items are read
+    // twice: once to collect the columns, then again to write the rows.
+    // Attributes added in between are not exported.
+    const columns = new Set(getKeyCsvColumns(Table));
+    for await (const items of readPages()) {
+      items.forEach(item =>
+        Object.keys(toCsvCells(item)).forEach(column => columns.add(column)),
+      );
+    }
+    yield formatCsvRow([...columns]);
+    for await (const items of readPages()) {
+      yield items
+        .map(item => {
+          const cells = toCsvCells(item);
+          return formatCsvRow([...columns].map(column => cells[column] ?? ''));
+        })
+        .join('');
+    }
+  }
+
+  const lines = readLines();
+  const body = new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      try {
+        const { value, done } = await lines.next();
+        if (done) {
+          controller.close();
+        } else {
+          controller.enqueue(textEncoder.encode(value));
+        }
+      } catch (error) {
+        controller.error(error);
+      }
+    },
+  });
+
+  return new Response(body, {
+    headers: {
+      'Content-Type':
+        format === 'csv'
+          ? 'text/csv; charset=utf-8'
+          : 'application/x-ndjson; charset=utf-8',
+      'Content-Disposition': `attachment; filename="${TableName}.${exportFormatToFileExtensionMap[format]}"`,
+    },
+  });
+};
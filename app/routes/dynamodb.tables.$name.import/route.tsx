@@ -0,0 +1,36 @@
+import { AttributeValue } from '@aws-sdk/client-dynamodb';
+import { ActionFunctionArgs, json } from '@remix-run/node';
+import { useServerTranslation } from '~/i18next.server';
+import { getAwsClient } from '~/src/aws/server';
+import { BatchWriteResult, batchWriteItems } from '~/src/aws/dynamodb.server';
+import { deserializeItem, isSerializedItem } from '~/src/aws/dynamodb';
+
+export type ImportItemsResult = BatchWriteResult;
+
+export async function action({ request, params }: ActionFunctionArgs) {
+  const { searchParams } = new URL(request.url);
+  const formData = await request.formData();
+  const dynamoDbClient = getAwsClient('dynamodb', searchParams.get('endpoint'));
+  let items: Record<string, AttributeValue>[] | undefined;
+  try {
+    const serializedItems: unknown = JSON.parse(
+      formData.get('items')?.toString() || '[]',
+    );
+    if (
+      Array.isArray(serializedItems) &&
+      serializedItems.every(isSerializedItem)
+    ) {
+      items = serializedItems.map(deserializeItem);
+    }
+  } catch {
+    // Either the JSON or a binary value is malformed
+  }
+  if (!items) {
+    const { t } = await useServerTranslation(request);
+    return json({ error: t('invalidImportedItems') }, { status: 400 });
+  }
+
+  return json<ImportItemsResult>(
+    await batchWriteItems(dynamoDbClient, params.name ?? '', items),
+  );
+}
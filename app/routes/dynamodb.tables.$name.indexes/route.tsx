@@ -0,0 +1,86 @@
+import {
+  DescribeTableCommand,
+  UpdateTableCommand,
+} from '@aws-sdk/client-dynamodb';
+import { ActionFunctionArgs, json, redirect } from '@remix-run/node';
+import { useServerTranslation } from '~/i18next.server';
+import { getAwsClient } from '~/src/aws/server';
+import {
+  buildGlobalSecondaryIndex,
+  buildProvisionedThroughput,
+  getTableSettings,
+  mergeAttributeDefinitions,
+  parseSecondaryIndexes,
+} from '~/src/aws/dynamodb';
+
+export type IndexActionResult = { error?: string };
+
+export async function action({ request, params }: ActionFunctionArgs) {
+  const { searchParams } = new URL(request.url);
+  const formData = await request.formData();
+  const dynamoDbClient = getAwsClient('dynamodb', searchParams.get('endpoint'));
+  const TableName = params.name;
+
+  try {
+    if (request.method === 'POST') {
+      // DynamoDB only allows creating one index per UpdateTable request, and
+      // rejects further updates until the table and the index are active
+      // again, so a single index is created per request
+      const [index, ...otherIndexes] = parseSecondaryIndexes(formData);
+      if (!index || otherIndexes.length > 0) {
+        const { t } = await useServerTranslation(request);
+        return json<IndexActionResult>({ error: t('exactlyOneIndex') });
+      }
+      const { Table } = await dynamoDbClient.send(
+        new DescribeTableCommand({ TableName }),
+      );
+      // Indexes of provisioned tables need their own provisioned throughput,
+      // so we simply reuse the one of the table
+      const provisionedThroughput = buildProvisionedThroughput(
+        getTableSettings(Table),
+      );
+      await dynamoDbClient.send(
+        new UpdateTableCommand({
+          TableName,
+          // The existing definitions are needed as well, since the new
+          // index might use the same attributes as the table
+          AttributeDefinitions: mergeAttributeDefinitions(
+            ...(Table?.AttributeDefinitions ?? []).map(
+              ({ AttributeName, AttributeType }) => ({
+                name: AttributeName ?? '',
+                type: AttributeType ?? 'S',
+              }),
+            ),
+            index.partitionKey,
+            index.sortKey,
+          ),
+          GlobalSecondaryIndexUpdates: [
+            {
+              Create: buildGlobalSecondaryIndex(index, provisionedThroughput),
+            },
+          ],
+        }),
+      );
+    }
+
+    if (request.method === 'DELETE') {
+      await dynamoDbClient.send(
+        new UpdateTableCommand({
+          TableName,
+          GlobalSecondaryIndexUpdates: [
+            {
+              Delete: { IndexName: formData.get('indexName')?.toString() },
+            },
+          ],
+        }),
+      );
+    }
+  } catch (error) {
+    // For instance, the table might still be updating after a previous change
+    return json<IndexActionResult>({ error: (error as Error).message });
+  }
+
+  // Keep the endpoint and reopen the indexes panel
+  searchParams.set('indexes', '');
+  return redirect(`/dynamodb/tables/${TableName}?${searchParams}`);
+}
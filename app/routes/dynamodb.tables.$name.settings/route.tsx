@@ -0,0 +1,52 @@
+import {
+  DescribeTableCommand,
+  UpdateTableCommand,
+} from '@aws-sdk/client-dynamodb';
+import { ActionFunctionArgs, json, redirect } from '@remix-run/node';
+import { useServerTranslation } from '~/i18next.server';
+import { getAwsClient } from '~/src/aws/server';
+import { waitForActiveTable } from '~/src/aws/dynamodb.server';
+import {
+  buildTableSettingsUpdates,
+  getTableSettings,
+  parseTableSettings,
+} from '~/src/aws/dynamodb';
+
+export type TableSettingsActionResult = { error?: string };
+
+export async function action({ request, params }: ActionFunctionArgs) {
+  const { search, searchParams } = new URL(request.url);
+  const formData = await request.formData();
+  const dynamoDbClient = getAwsClient('dynamodb', searchParams.get('endpoint'));
+  const TableName = params.name ?? '';
+
+  try {
+    const { Table } = await dynamoDbClient.send(
+      new DescribeTableCommand({ TableName }),
+    );
+    const updates = buildTableSettingsUpdates(
+      getTableSettings(Table),
+      parseTableSettings(formData),
+    );
+    for (const update of updates) {
+      // Every update makes the table unavailable for the following ones
+      // until it becomes active again
+      if (!(await waitForActiveTable(dynamoDbClient, TableName))) {
+        const { t } = await useServerTranslation(request);
+        return json<TableSettingsActionResult>({
+          error: t('tableStillUpdating', { tableName: TableName }),
+        });
+      }
+      await dynamoDbClient.send(
+        new UpdateTableCommand({ TableName, ...update }),
+      );
+    }
+  } catch (error) {
+    return json<TableSettingsActionResult>({
+      error: (error as Error).message,
+    });
+  }
+
+  // The endpoint is the only search param of the action, so it is kept as is
+  return redirect(`/dynamodb/tables/${TableName}${search}`);
+}
@@ -0,0 +1,65 @@
+import {
+  DescribeTimeToLiveCommand,
+  UpdateTimeToLiveCommand,
+} from '@aws-sdk/client-dynamodb';
+import { ActionFunctionArgs, json, redirect } from '@remix-run/node';
+import { getAwsClient } from '~/src/aws/server';
+
+export type TimeToLiveActionResult = { error?: string };
+
+export async function action({ request, params }: ActionFunctionArgs) {
+  const { searchParams } = new URL(request.url);
+  const formData = await request.formData();
+  const dynamoDbClient = getAwsClient('dynamodb', searchParams.get('endpoint'));
+  const TableName = params.name;
+  const attributeName = formData.get('attributeName')?.toString().trim() ?? '';
+  const enabled = formData.has('enabled');
+  try {
+    const { TimeToLiveDescription } = await dynamoDbClient.send(
+      new DescribeTimeToLiveCommand({ TableName }),
+    );
+    const currentAttributeName = TimeToLiveDescription?.AttributeName;
+    const isCurrentlyEnabled =
+      TimeToLiveDescription?.TimeToLiveStatus === 'ENABLED' ||
+      TimeToLiveDescription?.TimeToLiveStatus === 'ENABLING';
+
+    // The TTL attribute cannot be changed while TTL is enabled,
+    // so it must be disabled first
+    if (
+      isCurrentlyEnabled &&
+      currentAttributeName &&
+      (!enabled || currentAttributeName !== attributeName)
+    ) {
+      await dynamoDbClient.send(
+        new UpdateTimeToLiveCommand({
+          TableName,
+          TimeToLiveSpecification: {
+            AttributeName: currentAttributeName,
+            Enabled: false,
+          },
+        }),
+      );
+    }
+    if (
+      enabled &&
+      (!isCurrentlyEnabled || currentAttributeName !== attributeName)
+    ) {
+      await dynamoDbClient.send(
+        new UpdateTimeToLiveCommand({
+          TableName,
+          TimeToLiveSpecification: {
+            AttributeName: attributeName,
+            Enabled: true,
+          },
+        }),
+      );
+    }
+  } catch (error) {
+    // e.g. TTL cannot be enabled again right after being disabled
+    return json<TimeToLiveActionResult>({ error: (error as Error).message });
+  }
+
+  // Keep the endpoint and reopen the TTL panel
+  searchParams.set('ttl', '');
+  return redirect(`/dynamodb/tables/${TableName}?${searchParams}`);
+}
@@ -0,0 +1,124 @@
+import { FunctionComponent } from 'react';
+import { useTranslation } from 'react-i18next';
+import { useFetcher, useParams, useSearchParams } from '@remix-run/react';
+import {
+  Alert,
+  Button,
+  Checkbox,
+  FormControl,
+  FormControlLabel,
+  InputLabel,
+  MenuItem,
+  Select,
+  Stack,
+  TextField,
+} from '@mui/material';
+import ConfirmationDialog from '~/src/components/ConfirmationDialog';
+import useLinkUtils from '~/src/hooks/useLinkUtils';
+import type { action } from '../dynamodb.tables.$name.copy/route';
+
+export interface CopyTableDialogProps {
+  open: boolean;
+  endpoints: string[];
+}
+
+const CopyTableDialog: FunctionComponent<CopyTableDialogProps> = ({
+  open,
+  endpoints,
+}) => {
+  const { t } = useTranslation();
+  const { name } = useParams();
+  const [searchParams] = useSearchParams();
+  const { withSearchParam } = useLinkUtils();
+  const fetcher = useFetcher<typeof action>();
+  const sourceEndpoint = searchParams.get('endpoint') ?? endpoints[0];
+  // Copying to another endpoint is the most common case,
+  // but the table can be copied with a different name to the same one too
+  const defaultTargetEndpoint =
+    endpoints.find(endpoint => endpoint !== sourceEndpoint) ?? sourceEndpoint;
+  const error =
+    fetcher.data && 'error' in fetcher.data ? fetcher.data.error : undefined;
+  const result =
+    fetcher.data && !('error' in fetcher.data) ? fetcher.data : undefined;
+
+  return (
+    <ConfirmationDialog
+      open={open}
+      title={t('copyTableTo')}
+      content={
+        <Stack mt={2} spacing={2}>
+          <FormControl fullWidth required>
+            <InputLabel id="target-endpoint-label">{t('endpoint')}</InputLabel>
+            <Select
+              labelId="target-endpoint-label"
+              size="small"
+              label={t('endpoint')}
+              name="targetEndpoint"
+              defaultValue={defaultTargetEndpoint}
+            >
+              {endpoints.map(endpoint => (
+                <MenuItem key={endpoint} value={endpoint}>
+                  {endpoint}
+                </MenuItem>
+              ))}
+            </Select>
+          </FormControl>
+          <TextField
+            fullWidth
+            required
+            label={t('tableName')}
+            name="tableName"
+            defaultValue={name}
+          />
+          <FormControlLabel
+            control={<Checkbox name="copyItems" defaultChecked />}
+            label={t('copyItems')}
+          />
+          {error && <Alert severity="error">{error}</Alert>}
+          {result && (
+            <Alert severity={result.items?.failed ? 'warning' : 'success'}>
+              {t('tableCopied', {
+                name: result.tableName,
+                endpoint: result.endpoint,
+              })}
+              {result.items && (
+                <>
+                  {' '}
+                  {t('itemsCopied', {
+                    written: result.items.written,
+                    failed: result.items.failed,
+                  })}
+                </>
+              )}
+              {/* The same error might be reported by several batches */}
+              {result.items?.errors.map((itemsError, index) => (
+                <div key={index}>{itemsError}</div>
+              ))}
+            </Alert>
+          )}
+        </Stack>
+      }
+      closeLink={withSearchParam('copy', null)}
+      // The result is shown in the dialog, so we submit it with a fetcher
+      component={fetcher.Form}
+      method="POST"
+      action={withSearchParam(
+        'endpoint',
+        searchParams.get('endpoint'),
+        `/dynamodb/tables/${name}/copy`,
+      )}
+      buttons={
+        <Button
+          type="submit"
+          variant="contained"
+          color="secondary"
+          disabled={fetcher.state !== 'idle'}
+        >
+          {t('copy')}
+        </Button>
+      }
+    />
+  );
+};
+
+export default CopyTableDialog;
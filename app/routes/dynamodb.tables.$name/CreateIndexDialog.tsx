@@ -0,0 +1,59 @@
+import { FunctionComponent } from 'react';
+import { useTranslation } from 'react-i18next';
+import { useFetcher, useParams, useSearchParams } from '@remix-run/react';
+import { Alert, Button, Stack } from '@mui/material';
+import ConfirmationDialog from '~/src/components/ConfirmationDialog';
+import SecondaryIndexFields from '~/src/components/SecondaryIndexFields';
+import useLinkUtils from '~/src/hooks/useLinkUtils';
+import type { action } from '../dynamodb.tables.$name.indexes/route';
+
+export interface CreateIndexDialogProps {
+  open: boolean;
+}
+
+const CreateIndexDialog: FunctionComponent<CreateIndexDialogProps> = ({
+  open,
+}) => {
+  const { t } = useTranslation();
+  const { name } = useParams();
+  const [searchParams] = useSearchParams();
+  const { withSearchParam } = useLinkUtils();
+  const fetcher = useFetcher<typeof action>();
+
+  return (
+    <ConfirmationDialog
+      open={open}
+      maxWidth="sm"
+      title={t('createIndex')}
+      content={
+        <Stack mt={2} gap={2}>
+          {fetcher.data?.error && (
+            <Alert severity="error">{fetcher.data.error}</Alert>
+          )}
+          {/* Local secondary indexes can only be created with the table */}
+          <SecondaryIndexFields />
+        </Stack>
+      }
+      closeLink={withSearchParam('createIndex', null)}
+      component={fetcher.Form}
+      method="POST"
+      action={withSearchParam(
+        'endpoint',
+        searchParams.get('endpoint'),
+        `/dynamodb/tables/${name}/indexes`,
+      )}
+      buttons={
+        <Button
+          type="submit"
+          variant="contained"
+          color="secondary"
+          disabled={fetcher.state !== 'idle'}
+        >
+          {t('create')}
+        </Button>
+      }
+    />
+  );
+};
+
+export default CreateIndexDialog;
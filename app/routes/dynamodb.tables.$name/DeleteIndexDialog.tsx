@@ -0,0 +1,62 @@
+import { FunctionComponent } from 'react';
+import { useTranslation } from 'react-i18next';
+import { useFetcher, useParams, useSearchParams } from '@remix-run/react';
+import { Alert, Button, DialogContentText, Stack } from '@mui/material';
+import ConfirmationDialog from '~/src/components/ConfirmationDialog';
+import useLinkUtils from '~/src/hooks/useLinkUtils';
+import type { action } from '../dynamodb.tables.$name.indexes/route';
+
+export interface DeleteIndexDialogProps {
+  indexName: string | null;
+}
+
+const DeleteIndexDialog: FunctionComponent<DeleteIndexDialogProps> = ({
+  indexName,
+}) => {
+  const { t } = useTranslation();
+  const { name } = useParams();
+  const [searchParams] = useSearchParams();
+  const { withSearchParam } = useLinkUtils();
+  const fetcher = useFetcher<typeof action>();
+
+  return (
+    <ConfirmationDialog
+      open={!!indexName}
+      title={t('deleteIndexConfirmationTitle', { name: indexName })}
+      content={
+        <Stack gap={2}>
+          <DialogContentText>
+            {t('deleteIndexConfirmationContent')}
+          </DialogContentText>
+          {fetcher.data?.error && (
+            <Alert severity="error">{fetcher.data.error}</Alert>
+          )}
+        </Stack>
+      }
+      closeLink={withSearchParam('deleteIndex', null)}
+      component={fetcher.Form}
+      method="DELETE"
+      action={withSearchParam(
+        'endpoint',
+        searchParams.get('endpoint'),
+        `/dynamodb/tables/${name}/indexes`,
+      )}
+      buttons={
+        <>
+          <input type="hidden" name="indexName" value={indexName ?? ''} />
+          <Button
+            type="submit"
+            variant="contained"
+            color="error"
+            autoFocus
+            disabled={fetcher.state !== 'idle'}
+          >
+            {t('delete')}
+          </Button>
+        </>
+      }
+    />
+  );
+};
+
+export default DeleteIndexDialog;
@@ -0,0 +1,59 @@
+import { FunctionComponent } from 'react';
+import { useTranslation } from 'react-i18next';
+import { useFetcher, useLocation } from '@remix-run/react';
+import { Alert, Button, DialogContentText, Stack } from '@mui/material';
+import ConfirmationDialog from '~/src/components/ConfirmationDialog';
+import useLinkUtils from '~/src/hooks/useLinkUtils';
+import type { deleteItemAction } from './actions';
+
+export interface DeleteItemDialogProps {
+  open: boolean;
+  itemKey: string;
+}
+
+const DeleteItemDialog: FunctionComponent<DeleteItemDialogProps> = ({
+  open,
+  itemKey,
+}) => {
+  const { t } = useTranslation();
+  const { withSearchParam } = useLinkUtils();
+  const location = useLocation();
+  const fetcher = useFetcher<typeof deleteItemAction>();
+
+  return (
+    <ConfirmationDialog
+      open={open}
+      title={t('deleteItemConfirmationTitle')}
+      content={
+        <Stack gap={2}>
+          <DialogContentText>
+            {t('deleteItemConfirmationContent')}
+          </DialogContentText>
+          {fetcher.data?.error && (
+            <Alert severity="error">{fetcher.data.error}</Alert>
+          )}
+        </Stack>
+      }
+      closeLink={withSearchParam('delete', null)}
+      component={fetcher.Form}
+      method="DELETE"
+      action={`${location.pathname}${location.search}`}
+      buttons={
+        <>
+          <input type="hidden" name="key" value={itemKey} />
+          <Button
+            type="submit"
+            variant="contained"
+            color="error"
+            autoFocus
+            disabled={fetcher.state !== 'idle'}
+          >
+            {t('delete')}
+          </Button>
+        </>
+      }
+    />
+  );
+};
+
+export default DeleteItemDialog;
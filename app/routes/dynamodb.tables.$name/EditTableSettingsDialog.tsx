@@ -0,0 +1,63 @@
+import { FunctionComponent } from 'react';
+import { useTranslation } from 'react-i18next';
+import { useFetcher, useParams, useSearchParams } from '@remix-run/react';
+import { Alert, Button, Stack } from '@mui/material';
+import ConfirmationDialog from '~/src/components/ConfirmationDialog';
+import TableSettingsFields from '~/src/components/TableSettingsFields';
+import useLinkUtils from '~/src/hooks/useLinkUtils';
+import { getTableSettings } from '~/src/aws/dynamodb';
+import type { TableDescription } from '@aws-sdk/client-dynamodb';
+import type { Jsonify } from '@remix-run/server-runtime/dist/jsonify';
+import type { action } from '../dynamodb.tables.$name.settings/route';
+
+export interface EditTableSettingsDialogProps {
+  open: boolean;
+  table: Jsonify<TableDescription>;
+}
+
+const EditTableSettingsDialog: FunctionComponent<
+  EditTableSettingsDialogProps
+> = ({ open, table }) => {
+  const { t } = useTranslation();
+  const { name } = useParams();
+  const [searchParams] = useSearchParams();
+  const { withSearchParam } = useLinkUtils();
+  const fetcher = useFetcher<typeof action>();
+
+  return (
+    <ConfirmationDialog
+      open={open}
+      title={t('editSettings')}
+      content={
+        <Stack mt={2} gap={2}>
+          {fetcher.data?.error && (
+            <Alert severity="error">{fetcher.data.error}</Alert>
+          )}
+          <TableSettingsFields
+            defaultSettings={getTableSettings(table as TableDescription)}
+          />
+        </Stack>
+      }
+      closeLink={withSearchParam('settings', null)}
+      component={fetcher.Form}
+      method="PUT"
+      action={withSearchParam(
+        'endpoint',
+        searchParams.get('endpoint'),
+        `/dynamodb/tables/${name}/settings`,
+      )}
+      buttons={
+        <Button
+          type="submit"
+          variant="contained"
+          color="secondary"
+          disabled={fetcher.state !== 'idle'}
+        >
+          {t('save')}
+        </Button>
+      }
+    />
+  );
+};
+
+export default EditTableSettingsDialog;
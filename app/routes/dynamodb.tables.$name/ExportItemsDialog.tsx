@@ -0,0 +1,117 @@
+import { FunctionComponent, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { useNavigate, useParams, useSearchParams } from '@remix-run/react';
+import {
+  Button,
+  FormControl,
+  FormControlLabel,
+  InputLabel,
+  MenuItem,
+  Radio,
+  RadioGroup,
+  Select,
+  Stack,
+} from '@mui/material';
+import { Download as DownloadIcon } from '@mui/icons-material';
+import ConfirmationDialog from '~/src/components/ConfirmationDialog';
+import useLinkUtils from '~/src/hooks/useLinkUtils';
+import { ExportFormat, parseItemsFilter } from '~/src/aws/dynamodb';
+
+// The search params used by the export route to filter the items
+const filterParams = [
+  'mode',
+  'index',
+  'partitionKey',
+  'sortKeyOperator',
+  'sortKey',
+  'sortKeyEnd',
+];
+
+export interface ExportItemsDialogProps {
+  open: boolean;
+}
+
+const ExportItemsDialog: FunctionComponent<ExportItemsDialogProps> = ({
+  open,
+}) => {
+  const { t } = useTranslation();
+  const { name } = useParams();
+  const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
+  const { withSearchParam } = useLinkUtils();
+  const [format, setFormat] = useState<ExportFormat>('json');
+  const [scope, setScope] = useState<'table' | 'results'>('table');
+  const isQuery = parseItemsFilter(searchParams).mode === 'query';
+  const exportSearchParams = new URLSearchParams({ format });
+  const endpoint = searchParams.get('endpoint');
+  if (endpoint) {
+    exportSearchParams.set('endpoint', endpoint);
+  }
+  if (scope === 'results' && isQuery) {
+    filterParams.forEach(param => {
+      const value = searchParams.get(param);
+      if (value) {
+        exportSearchParams.set(param, value);
+      }
+    });
+  }
+  const closeLink = withSearchParam('export', null);
+
+  return (
+    <ConfirmationDialog
+      open={open}
+      title={t('exportItems')}
+      content={
+        <Stack mt={2} spacing={2}>
+          <FormControl fullWidth>
+            <InputLabel id="export-format-label">{t('format')}</InputLabel>
+            <Select
+              labelId="export-format-label"
+              size="small"
+              label={t('format')}
+              value={format}
+              onChange={event => setFormat(event.target.value as ExportFormat)}
+            >
+              <MenuItem value="json">{t('jsonLines')}</MenuItem>
+              <MenuItem value="dynamodb">{t('dynamodbJsonLines')}</MenuItem>
+              <MenuItem value="csv">CSV</MenuItem>
+            </Select>
+          </FormControl>
+          <RadioGroup
+            value={isQuery ? scope : 'table'}
+            onChange={event =>
+              setScope(event.target.value as 'table' | 'results')
+            }
+          >
+            <FormControlLabel
+              value="table"
+              control={<Radio />}
+              label={t('wholeTable')}
+            />
+            <FormControlLabel
+              value="results"
+              control={<Radio />}
+              label={t('currentQueryResults')}
+              disabled={!isQuery}
+            />
+          </RadioGroup>
+        </Stack>
+      }
+      closeLink={closeLink}
+      buttons={
+        <Button
+          variant="contained"
+          color="secondary"
+          startIcon={<DownloadIcon />}
+          href={`/dynamodb/tables/${name}/export?${exportSearchParams}`}
+          download
+          onClick={() => navigate(closeLink)}
+        >
+          {t('export')}
+        </Button>
+      }
+    />
+  );
+};
+
+export default ExportItemsDialog;
@@ -0,0 +1,236 @@
+import { FormEventHandler, FunctionComponent, useState } from 'react';
+import { useDropzone } from 'react-dropzone-esm';
+import { useTranslation } from 'react-i18next';
+import { useParams, useSearchParams } from '@remix-run/react';
+import {
+  Alert,
+  Button,
+  FormControl,
+  InputLabel,
+  LinearProgress,
+  MenuItem,
+  Select,
+  Stack,
+  Typography,
+  styled,
+} from '@mui/material';
+import ConfirmationDialog from '~/src/components/ConfirmationDialog';
+import useLinkUtils from '~/src/hooks/useLinkUtils';
+import {
+  ExportFormat,
+  exportFormatToFileExtensionMap,
+  parseImportedItems,
+} from '~/src/aws/dynamodb';
+import type { ImportItemsResult } from '../dynamodb.tables.$name.import/route';
+import type { TableDescription } from '@aws-sdk/client-dynamodb';
+import type { Jsonify } from '@remix-run/server-runtime/dist/jsonify';
+
+// The number of items sent in each request, which are then written
+// in batches of 25 items by the import route
+const itemsPerRequest = 250;
+
+// Only show the first errors, since the same error might be repeated a lot
+const maxReportedErrors = 10;
+
+const DropzoneContainer = styled('div')<{ $isDragActive?: boolean }>(
+  ({ theme, $isDragActive }) => ({
+    border: `1px dashed ${
+      $isDragActive
+        ? theme.vars.palette.primary.main
+        : theme.vars.palette.divider
+    }`,
+    borderRadius: theme.shape.borderRadius,
+    padding: theme.spacing(2),
+    display: 'flex',
+    alignItems: 'center',
+    justifyContent: 'center',
+    cursor: 'pointer',
+    minHeight: 80,
+  }),
+);
+
+interface ImportReport extends ImportItemsResult {
+  total: number;
+  invalidLines: number[];
+}
+
+const detectFormat = (fileName: string): ExportFormat =>
+  (Object.entries(exportFormatToFileExtensionMap).find(([, extension]) =>
+    fileName.endsWith(`.${extension}`),
+  )?.[0] as ExportFormat | undefined) ?? 'json';
+
+export interface ImportItemsDialogProps {
+  open: boolean;
+  table: Jsonify<TableDescription>;
+}
+
+const ImportItemsDialog: FunctionComponent<ImportItemsDialogProps> = ({
+  open,
+  table,
+}) => {
+  const { t } = useTranslation();
+  const { name } = useParams();
+  const [searchParams] = useSearchParams();
+  const { withSearchParam } = useLinkUtils();
+  const [file, setFile] = useState<File>();
+  const [format, setFormat] = useState<ExportFormat>('json');
+  const [isImporting, setIsImporting] = useState(false);
+  const [report, setReport] = useState<ImportReport>();
+  const { getRootProps, getInputProps, isDragActive } = useDropzone({
+    multiple: false,
+    onDrop: ([droppedFile]: File[]) => {
+      if (droppedFile) {
+        setFile(droppedFile);
+        setFormat(detectFormat(droppedFile.name));
+        setReport(undefined);
+      }
+    },
+  });
+  const processed = report
+    ? report.written + report.failed + report.invalidLines.length
+    : 0;
+
+  const handleSubmit: FormEventHandler<HTMLFormElement> = async event => {
+    // Items are parsed and sent in chunks from the browser,
+    // so that we can show the progress of the import
+    event.preventDefault();
+    if (!file || isImporting) {
+      return;
+    }
+    setIsImporting(true);
+    const { items, invalidLines } = parseImportedItems(
+      await file.text(),
+      format,
+      table as TableDescription,
+    );
+    let currentReport: ImportReport = {
+      total: items.length + invalidLines.length,
+      written: 0,
+      failed: 0,
+      errors: [],
+      invalidLines,
+    };
+    setReport(currentReport);
+
+    for (let index = 0; index < items.length; index += itemsPerRequest) {
+      const chunk = items.slice(index, index + itemsPerRequest);
+      const formData = new FormData();
+      formData.set('items', JSON.stringify(chunk));
+      try {
+        const response = await fetch(
+          withSearchParam(
+            'endpoint',
+            searchParams.get('endpoint'),
+            `/dynamodb/tables/${name}/import`,
+          ),
+          { method: 'POST', body: formData },
+        );
+        if (!response.ok) {
+          const { error } = await response
+            .json()
+            .catch(() => ({ error: response.statusText }));
+          throw new Error(error);
+        }
+        const result: ImportItemsResult = await response.json();
+        currentReport = {
+          ...currentReport,
+          written: currentReport.written + result.written,
+          failed: currentReport.failed + result.failed,
+          errors: [...currentReport.errors, ...result.errors],
+        };
+      } catch (error) {
+        currentReport = {
+          ...currentReport,
+          failed: currentReport.failed + chunk.length,
+          errors: [...currentReport.errors, (error as Error).message],
+        };
+      }
+      setReport(currentReport);
+    }
+    setIsImporting(false);
+  };
+
+  return (
+    <ConfirmationDialog
+      open={open}
+      title={t('importItems')}
+      closeable={!isImporting}
+      content={
+        <Stack mt={2} spacing={2}>
+          <DropzoneContainer $isDragActive={isDragActive} {...getRootProps()}>
+            <input {...getInputProps()} />
+            <Typography variant="body2">
+              {file?.name ?? t('dragAndDropOrClickToSelectFile')}
+            </Typography>
+          </DropzoneContainer>
+          <FormControl fullWidth>
+            <InputLabel id="import-format-label">{t('format')}</InputLabel>
+            <Select
+              labelId="import-format-label"
+              size="small"
+              label={t('format')}
+              value={format}
+              disabled={isImporting}
+              onChange={event => setFormat(event.target.value as ExportFormat)}
+            >
+              <MenuItem value="json">{t('jsonLines')}</MenuItem>
+              <MenuItem value="dynamodb">{t('dynamodbJsonLines')}</MenuItem>
+              <MenuItem value="csv">CSV</MenuItem>
+            </Select>
+          </FormControl>
+          {report && (
+            <>
+              <LinearProgress
+                variant="determinate"
+                color="secondary"
+                value={
+                  report.total > 0 ? (processed / report.total) * 100 : 100
+                }
+              />
+              <Typography variant="body2">
+                {t('importProgress', {
+                  processed,
+                  total: report.total,
+                  written: report.written,
+                  failed: report.failed + report.invalidLines.length,
+                })}
+              </Typography>
+            </>
+          )}
+          {report && report.invalidLines.length > 0 && (
+            <Alert severity="warning">
+              {t('invalidItemsAtLines', {
+                lines: report.invalidLines
+                  .slice(0, maxReportedErrors)
+                  .join(', '),
+              })}
+            </Alert>
+          )}
+          {report && report.errors.length > 0 && (
+            <Alert severity="error">
+              {Array.from(new Set(report.errors))
+                .slice(0, maxReportedErrors)
+                .map(error => (
+                  <div key={error}>{error}</div>
+                ))}
+            </Alert>
+          )}
+        </Stack>
+      }
+      closeLink={withSearchParam('import', null)}
+      onSubmit={handleSubmit as unknown as FormEventHandler<HTMLDivElement>}
+      buttons={
+        <Button
+          type="submit"
+          variant="contained"
+          color="secondary"
+          disabled={!file || isImporting}
+        >
+          {t('import')}
+        </Button>
+      }
+    />
+  );
+};
+
+export default ImportItemsDialog;
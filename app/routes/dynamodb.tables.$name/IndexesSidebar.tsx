@@ -0,0 +1,140 @@
+import { FunctionComponent } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Link as RemixLink, useRevalidator } from '@remix-run/react';
+import {
+  Button,
+  Chip,
+  IconButton,
+  List,
+  ListItem,
+  ListItemText,
+  Stack,
+  Typography,
+} from '@mui/material';
+import { Delete as DeleteIcon } from '@mui/icons-material';
+import Sidebar from '~/src/components/Sidebar';
+import useInterval from '~/src/hooks/useInterval';
+import useLinkUtils from '~/src/hooks/useLinkUtils';
+import { getKeyAttributes } from '~/src/aws/dynamodb';
+import type { TableDescription } from '@aws-sdk/client-dynamodb';
+import type { Jsonify } from '@remix-run/server-runtime/dist/jsonify';
+
+export interface IndexesSidebarProps {
+  table: Jsonify<TableDescription>;
+}
+
+const IndexesSidebar: FunctionComponent<IndexesSidebarProps> = ({ table }) => {
+  const { t } = useTranslation();
+  const { revalidate } = useRevalidator();
+  const { withSearchParam } = useLinkUtils();
+  const indexes = [
+    ...(table.GlobalSecondaryIndexes ?? []).map(index => ({
+      ...index,
+      isGlobal: true,
+    })),
+    ...(table.LocalSecondaryIndexes ?? []).map(index => ({
+      ...index,
+      isGlobal: false,
+      IndexStatus: undefined,
+    })),
+  ];
+  const isIndexUpdating = (status?: string) => !!status && status !== 'ACTIVE';
+  const isUpdating = indexes.some(({ IndexStatus }) =>
+    isIndexUpdating(IndexStatus),
+  );
+
+  // Creating or deleting an index takes a while, so keep the status updated
+  useInterval(() => revalidate(), isUpdating ? 2500 : null);
+
+  return (
+    <Sidebar
+      title={t('indexes')}
+      subheader={table.TableName}
+      closeLink={withSearchParam('indexes', null)}
+    >
+      <Stack height="100%" gap={1}>
+        <Button
+          variant="contained"
+          color="secondary"
+          sx={{ alignSelf: 'flex-start' }}
+          component={RemixLink}
+          to={withSearchParam('createIndex', '')}
+        >
+          {t('createIndex')}
+        </Button>
+        {indexes.length < 1 && (
+          <Typography variant="body2" color="text.secondary">
+            {t('noIndexesAvailable')}
+          </Typography>
+        )}
+        <List dense disablePadding sx={{ overflowY: 'auto' }}>
+          {indexes.map(index => {
+            const { partitionKey, sortKey } = getKeyAttributes(
+              index.KeySchema ?? [],
+            );
+            return (
+              <ListItem
+                key={index.IndexName}
+                disableGutters
+                secondaryAction={
+                  // Local secondary indexes cannot be deleted
+                  index.isGlobal && (
+                    <IconButton
+                      edge="end"
+                      aria-label={t('delete')}
+                      disabled={isIndexUpdating(index.IndexStatus)}
+                      component={RemixLink}
+                      to={withSearchParam(
+                        'deleteIndex',
+                        index.IndexName ?? null,
+                      )}
+                    >
+                      <DeleteIcon />
+                    </IconButton>
+                  )
+                }
+              >
+                <ListItemText
+                  primary={
+                    <Stack direction="row" gap={0.5} alignItems="center">
+                      {index.IndexName}
+                      <Chip
+                        size="small"
+                        label={index.isGlobal ? 'GSI' : 'LSI'}
+                      />
+                      {isIndexUpdating(index.IndexStatus) && (
+                        <Chip
+                          size="small"
+                          color="warning"
+                          label={index.IndexStatus}
+                        />
+                      )}
+                    </Stack>
+                  }
+                  secondary={
+                    <>
+                      {t('partitionKey')}: {partitionKey}
+                      {sortKey && (
+                        <>
+                          <br />
+                          {t('sortKey')}: {sortKey}
+                        </>
+                      )}
+                      <br />
+                      {t('projection')}: {index.Projection?.ProjectionType}
+                      {index.Projection?.NonKeyAttributes?.length
+                        ? ` (${index.Projection.NonKeyAttributes.join(', ')})`
+                        : ''}
+                    </>
+                  }
+                />
+              </ListItem>
+            );
+          })}
+        </List>
+      </Stack>
+    </Sidebar>
+  );
+};
+
+export default IndexesSidebar;
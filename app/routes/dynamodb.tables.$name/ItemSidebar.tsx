@@ -0,0 +1,190 @@
+import { FunctionComponent, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import {
+  Link as RemixLink,
+  useFetcher,
+  useLocation,
+  useSearchParams,
+} from '@remix-run/react';
+import {
+  Alert,
+  Button,
+  Stack,
+  TextField,
+  ToggleButton,
+  ToggleButtonGroup,
+} from '@mui/material';
+import Sidebar from '~/src/components/Sidebar';
+import useLinkUtils from '~/src/hooks/useLinkUtils';
+import {
+  ItemFormat,
+  PlainItem,
+  SerializedItem,
+  fromPlainItem,
+  getAttributeType,
+  isPlainConvertibleItem,
+  toPlainItem,
+} from '~/src/aws/dynamodb';
+import type { TableDescription } from '@aws-sdk/client-dynamodb';
+import type { Jsonify } from '@remix-run/server-runtime/dist/jsonify';
+import type { action } from './route';
+
+export type ItemSidebarMode = 'create' | 'edit' | 'duplicate';
+
+export interface ItemSidebarProps {
+  table: Jsonify<TableDescription>;
+  mode: ItemSidebarMode;
+  item?: SerializedItem;
+  itemKey?: string;
+}
+
+const computeEmptyItem = (table: Jsonify<TableDescription>): SerializedItem =>
+  Object.fromEntries(
+    (table.KeySchema ?? []).map(({ AttributeName = '' }) => {
+      const type = getAttributeType(
+        table.AttributeDefinitions as TableDescription['AttributeDefinitions'],
+        AttributeName,
+      );
+      return [AttributeName, type === 'N' ? { N: '0' } : { [type]: '' }];
+    }),
+  ) as SerializedItem;
+
+const stringifyItem = (item: SerializedItem, format: ItemFormat) =>
+  JSON.stringify(format === 'raw' ? item : toPlainItem(item), null, 2);
+
+const ItemSidebar: FunctionComponent<ItemSidebarProps> = ({
+  table,
+  mode,
+  item,
+  itemKey,
+}) => {
+  const { t } = useTranslation();
+  const fetcher = useFetcher<typeof action>();
+  const location = useLocation();
+  const [searchParams] = useSearchParams();
+  const { withSearchParam, withSearchParams } = useLinkUtils();
+  const isFullscreen = searchParams.has('fullscreen');
+  // Only the DynamoDB JSON view preserves every type, so it is the default
+  const [format, setFormat] = useState<ItemFormat>('raw');
+  const [content, setContent] = useState(() =>
+    stringifyItem(item ?? computeEmptyItem(table), format),
+  );
+  const [formatError, setFormatError] = useState<string | undefined>();
+  const error =
+    formatError ??
+    (fetcher.data && 'error' in fetcher.data ? fetcher.data.error : undefined);
+
+  const changeFormat = (newFormat: ItemFormat | null) => {
+    if (!newFormat || newFormat === format) {
+      return;
+    }
+    try {
+      const parsedContent = JSON.parse(content);
+      const serializedItem =
+        format === 'raw'
+          ? (parsedContent as SerializedItem)
+          : fromPlainItem(parsedContent as PlainItem);
+      if (newFormat === 'plain' && !isPlainConvertibleItem(serializedItem)) {
+        setFormatError(t('itemRequiresDynamodbJson'));
+        return;
+      }
+      setContent(stringifyItem(serializedItem, newFormat));
+      setFormat(newFormat);
+      setFormatError(undefined);
+    } catch {
+      setFormatError(t('invalidJson'));
+    }
+  };
+
+  const titles: Record<ItemSidebarMode, string> = {
+    create: t('createItem'),
+    edit: t('editItem'),
+    duplicate: t('duplicateItem'),
+  };
+
+  return (
+    <Sidebar
+      title={titles[mode]}
+      isFullscreen={isFullscreen}
+      fullscreenLink={withSearchParam('fullscreen', isFullscreen ? null : '')}
+      closeLink={withSearchParams(previousParams => {
+        previousParams.delete('create');
+        previousParams.delete('edit');
+        previousParams.delete('duplicate');
+        previousParams.delete('fullscreen');
+        return previousParams;
+      })}
+    >
+      <fetcher.Form
+        method={mode === 'edit' ? 'PATCH' : 'POST'}
+        action={`${location.pathname}${location.search}`}
+        style={{ height: '100%' }}
+      >
+        <input type="hidden" name="format" value={format} />
+        {mode === 'edit' && itemKey && (
+          <input type="hidden" name="key" value={itemKey} />
+        )}
+        <Stack height="100%" gap={2}>
+          <Stack direction="row" gap={1} flex="0 0 auto">
+            <Button
+              type="submit"
+              variant="contained"
+              color="secondary"
+              disabled={fetcher.state !== 'idle'}
+            >
+              {t('save')}
+            </Button>
+            {mode === 'edit' && itemKey && (
+              <>
+                <Button
+                  component={RemixLink}
+                  to={withSearchParams(previousParams => {
+                    previousParams.delete('edit');
+                    previousParams.set('duplicate', itemKey);
+                    return previousParams;
+                  })}
+                >
+                  {t('duplicate')}
+                </Button>
+                <Button
+                  component={RemixLink}
+                  to={withSearchParam('delete', '')}
+                >
+                  {t('delete')}
+                </Button>
+              </>
+            )}
+          </Stack>
+          <ToggleButtonGroup
+            exclusive
+            size="small"
+            value={format}
+            onChange={(_, newFormat) => changeFormat(newFormat)}
+            sx={{ flex: '0 0 auto' }}
+          >
+            <ToggleButton value="plain">{t('json')}</ToggleButton>
+            <ToggleButton value="raw">{t('dynamodbJson')}</ToggleButton>
+          </ToggleButtonGroup>
+          {error && <Alert severity="error">{error}</Alert>}
+          <TextField
+            required
+            fullWidth
+            multiline
+            minRows={12}
+            name="item"
+            value={content}
+            onChange={event => setContent(event.target.value)}
+            helperText={format === 'plain' ? t('plainJsonHint') : undefined}
+            inputProps={{
+              spellCheck: false,
+              style: { fontFamily: "'Amazon Ember Mono', monospace" },
+            }}
+            sx={{ flex: '1 1 auto', overflow: 'auto' }}
+          />
+        </Stack>
+      </fetcher.Form>
+    </Sidebar>
+  );
+};
+
+export default ItemSidebar;
@@ -0,0 +1,166 @@
+import { FunctionComponent, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Form, useSearchParams } from '@remix-run/react';
+import {
+  Button,
+  FormControl,
+  InputLabel,
+  MenuItem,
+  Select,
+  Stack,
+  TextField,
+} from '@mui/material';
+import { Search as SearchIcon } from '@mui/icons-material';
+import {
+  ItemsMode,
+  SortKeyOperator,
+  getKeyAttributes,
+  getKeySchema,
+  parseItemsFilter,
+  sortKeyOperators,
+} from '~/src/aws/dynamodb';
+import type { TableDescription } from '@aws-sdk/client-dynamodb';
+import type { Jsonify } from '@remix-run/server-runtime/dist/jsonify';
+
+export interface ItemsFilterFormProps {
+  table: Jsonify<TableDescription>;
+}
+
+const ItemsFilterForm: FunctionComponent<ItemsFilterFormProps> = ({
+  table,
+}) => {
+  const { t } = useTranslation();
+  const [searchParams] = useSearchParams();
+  const filter = parseItemsFilter(searchParams);
+  const [mode, setMode] = useState<ItemsMode>(filter.mode);
+  const [indexName, setIndexName] = useState(filter.indexName ?? '');
+  const [sortKeyOperator, setSortKeyOperator] = useState<SortKeyOperator>(
+    filter.sortKeyOperator ?? '=',
+  );
+  const { partitionKey, sortKey } = getKeyAttributes(
+    getKeySchema(table as TableDescription, indexName),
+  );
+  const indexes = [
+    ...(table.GlobalSecondaryIndexes ?? []),
+    ...(table.LocalSecondaryIndexes ?? []),
+  ];
+
+  const endpoint = searchParams.get('endpoint');
+
+  return (
+    <Form method="GET">
+      {/* The query string is rebuilt from the fields, so the endpoint
+          has to be submitted along with them */}
+      {endpoint && <input type="hidden" name="endpoint" value={endpoint} />}
+      <Stack direction="row" gap={1} alignItems="flex-start" flexWrap="wrap">
+        <FormControl sx={{ width: 120 }}>
+          <InputLabel id="items-mode-label">{t('mode')}</InputLabel>
+          <Select
+            labelId="items-mode-label"
+            size="small"
+            label={t('mode')}
+            name="mode"
+            value={mode}
+            onChange={event => setMode(event.target.value as ItemsMode)}
+          >
+            <MenuItem value="scan">{t('scan')}</MenuItem>
+            <MenuItem value="query">{t('query')}</MenuItem>
+          </Select>
+        </FormControl>
+        <FormControl sx={{ width: 200 }}>
+          <InputLabel id="items-index-label" shrink>
+            {t('index')}
+          </InputLabel>
+          <Select
+            labelId="items-index-label"
+            size="small"
+            label={t('index')}
+            name="index"
+            value={indexName}
+            onChange={event => setIndexName(event.target.value)}
+            displayEmpty
+            notched
+          >
+            <MenuItem value="">{t('table')}</MenuItem>
+            {indexes.map(index => (
+              <MenuItem key={index.IndexName} value={index.IndexName}>
+                {index.IndexName}
+              </MenuItem>
+            ))}
+          </Select>
+        </FormControl>
+        {mode === 'query' && partitionKey && (
+          <TextField
+            required
+            key={`partition-key-${indexName}`}
+            label={partitionKey}
+            name="partitionKey"
+            defaultValue={filter.partitionKeyValue}
+            sx={{ width: 200 }}
+          />
+        )}
+        {mode === 'query' && sortKey && (
+          <>
+            <FormControl sx={{ width: 150 }}>
+              <InputLabel id="items-sort-key-operator-label">
+                {t('condition')}
+              </InputLabel>
+              <Select
+                labelId="items-sort-key-operator-label"
+                size="small"
+                label={t('condition')}
+                name="sortKeyOperator"
+                value={sortKeyOperator}
+                onChange={event =>
+                  setSortKeyOperator(event.target.value as SortKeyOperator)
+                }
+              >
+                {sortKeyOperators.map(operator => (
+                  <MenuItem key={operator} value={operator}>
+                    {operator}
+                  </MenuItem>
+                ))}
+              </Select>
+            </FormControl>
+            <TextField
+              key={`sort-key-${indexName}`}
+              label={sortKey}
+              name="sortKey"
+              defaultValue={filter.sortKeyValue}
+              sx={{ width: 200 }}
+            />
+            {sortKeyOperator === 'between' && (
+              <TextField
+                required
+                key={`sort-key-end-${indexName}`}
+                label={t('and')}
+                name="sortKeyEnd"
+                defaultValue={filter.sortKeyEndValue}
+                sx={{ width: 200 }}
+              />
+            )}
+          </>
+        )}
+        <FormControl sx={{ width: 100 }}>
+          <InputLabel id="items-limit-label">{t('pageSize')}</InputLabel>
+          <Select
+            labelId="items-limit-label"
+            size="small"
+            label={t('pageSize')}
+            name="limit"
+            defaultValue={searchParams.get('limit') ?? '50'}
+          >
+            <MenuItem value="25">25</MenuItem>
+            <MenuItem value="50">50</MenuItem>
+            <MenuItem value="100">100</MenuItem>
+          </Select>
+        </FormControl>
+        <Button type="submit" startIcon={<SearchIcon />}>
+          {t('run')}
+        </Button>
+      </Stack>
+    </Form>
+  );
+};
+
+export default ItemsFilterForm;
@@ -0,0 +1,209 @@
+import { FunctionComponent } from 'react';
+import { useTranslation } from 'react-i18next';
+import {
+  Link as RemixLink,
+  useFetcher,
+  useNavigate,
+  useParams,
+  useSearchParams,
+} from '@remix-run/react';
+import {
+  Alert,
+  Button,
+  Chip,
+  Divider,
+  FormControl,
+  FormControlLabel,
+  InputLabel,
+  List,
+  ListItem,
+  ListItemButton,
+  ListItemText,
+  MenuItem,
+  Select,
+  Stack,
+  Switch,
+  TextField,
+  Typography,
+} from '@mui/material';
+import Sidebar from '~/src/components/Sidebar';
+import useLinkUtils from '~/src/hooks/useLinkUtils';
+import {
+  SerializedItem,
+  encodeItemKey,
+  formatAttributeValue,
+  pickItemKey,
+} from '~/src/aws/dynamodb';
+import { formatDateTime } from '~/src/utils';
+import type {
+  TableDescription,
+  TimeToLiveDescription,
+} from '@aws-sdk/client-dynamodb';
+import type { Jsonify } from '@remix-run/server-runtime/dist/jsonify';
+import type { action } from '../dynamodb.tables.$name.ttl/route';
+
+// The windows (in seconds) that can be used to look for expiring items
+// t('nextHour') t('nextDay') t('nextWeek') t('nextMonth')
+const expiringWindows = {
+  3600: 'nextHour',
+  86400: 'nextDay',
+  604800: 'nextWeek',
+  2592000: 'nextMonth',
+};
+
+export const defaultExpiringWindow = 86400;
+
+export interface TimeToLiveSidebarProps {
+  table: Jsonify<TableDescription>;
+  timeToLive?: Jsonify<TimeToLiveDescription>;
+  expiringItems: SerializedItem[];
+}
+
+const TimeToLiveSidebar: FunctionComponent<TimeToLiveSidebarProps> = ({
+  table,
+  timeToLive,
+  expiringItems,
+}) => {
+  const { t } = useTranslation();
+  const { name } = useParams();
+  const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
+  const { withSearchParam, withSearchParams } = useLinkUtils();
+  const fetcher = useFetcher<typeof action>();
+  const status = timeToLive?.TimeToLiveStatus ?? 'DISABLED';
+  const attributeName = timeToLive?.AttributeName;
+  const keySchema = table.KeySchema ?? [];
+
+  return (
+    <Sidebar
+      title={t('timeToLive')}
+      subheader={table.TableName}
+      closeLink={withSearchParams(previousParams => {
+        previousParams.delete('ttl');
+        previousParams.delete('expiringWithin');
+        return previousParams;
+      })}
+    >
+      <Stack height="100%" gap={2}>
+        {/* Reset the form when the settings are updated */}
+        <fetcher.Form
+          key={`${status}-${attributeName}`}
+          method="PUT"
+          action={withSearchParam(
+            'endpoint',
+            searchParams.get('endpoint'),
+            `/dynamodb/tables/${name}/ttl`,
+          )}
+        >
+          <Stack gap={2} alignItems="flex-start">
+            <Chip
+              size="small"
+              color={status === 'ENABLED' ? 'success' : 'default'}
+              label={status}
+            />
+            <TextField
+              fullWidth
+              required
+              label={t('ttlAttribute')}
+              helperText={t('ttlAttributeHint')}
+              name="attributeName"
+              defaultValue={attributeName ?? ''}
+            />
+            <FormControlLabel
+              control={
+                <Switch
+                  name="enabled"
+                  defaultChecked={status === 'ENABLED' || status === 'ENABLING'}
+                />
+              }
+              label={t('enabled')}
+            />
+            <Button
+              type="submit"
+              variant="contained"
+              color="secondary"
+              disabled={fetcher.state !== 'idle'}
+            >
+              {t('save')}
+            </Button>
+            {fetcher.state === 'idle' && fetcher.data?.error && (
+              <Alert severity="error" sx={{ alignSelf: 'stretch' }}>
+                {fetcher.data.error}
+              </Alert>
+            )}
+          </Stack>
+        </fetcher.Form>
+        <Divider />
+        <Typography variant="subtitle1" component="h3">
+          {t('expiringSoon')}
+        </Typography>
+        <FormControl fullWidth>
+          <InputLabel id="expiring-within-label">
+            {t('expiringWithin')}
+          </InputLabel>
+          <Select
+            labelId="expiring-within-label"
+            size="small"
+            label={t('expiringWithin')}
+            value={
+              searchParams.get('expiringWithin') ||
+              defaultExpiringWindow.toString()
+            }
+            onChange={event =>
+              navigate(withSearchParam('expiringWithin', event.target.value))
+            }
+          >
+            {Object.entries(expiringWindows).map(([value, label]) => (
+              <MenuItem key={value} value={value}>
+                {t(label)}
+              </MenuItem>
+            ))}
+          </Select>
+        </FormControl>
+        {!attributeName && (
+          <Typography variant="body2" color="text.secondary">
+            {t('ttlDisabledHint')}
+          </Typography>
+        )}
+        {attributeName && expiringItems.length < 1 && (
+          <Typography variant="body2" color="text.secondary">
+            {t('noExpiringItems')}
+          </Typography>
+        )}
+        <List dense disablePadding sx={{ overflowY: 'auto', mb: 6 }}>
+          {attributeName &&
+            expiringItems.map(item => {
+              const itemKey = encodeItemKey(pickItemKey(item, keySchema));
+              return (
+                <ListItem key={itemKey} disablePadding>
+                  <ListItemButton
+                    component={RemixLink}
+                    to={withSearchParams(previousParams => {
+                      previousParams.delete('ttl');
+                      previousParams.delete('expiringWithin');
+                      previousParams.set('edit', itemKey);
+                      return previousParams;
+                    })}
+                  >
+                    <ListItemText
+                      primary={keySchema
+                        .map(({ AttributeName = '' }) =>
+                          formatAttributeValue(item[AttributeName]),
+                        )
+                        .join(' / ')}
+                      secondary={formatDateTime(
+                        Number(formatAttributeValue(item[attributeName])) *
+                          1000,
+                      )}
+                    />
+                  </ListItemButton>
+                </ListItem>
+              );
+            })}
+        </List>
+      </Stack>
+    </Sidebar>
+  );
+};
+
+export default TimeToLiveSidebar;
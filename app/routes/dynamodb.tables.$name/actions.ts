@@ -0,0 +1,234 @@
+import {
+  DeleteItemCommand,
+  DescribeTableCommand,
+  GetItemCommand,
+  PutItemCommand,
+  TableDescription,
+  UpdateItemCommand,
+} from '@aws-sdk/client-dynamodb';
+import { PutCommand, UpdateCommand } from '@aws-sdk/lib-dynamodb';
+import { ActionFunctionArgs, json, redirect } from '@remix-run/node';
+import type { TFunction } from 'i18next';
+import { getAwsClient } from '~/src/aws/server';
+import {
+  ItemFormat,
+  PlainItem,
+  SerializedItem,
+  buildUpdateExpression,
+  decodeItemKey,
+  deserializeItem,
+  findInvalidKeyAttributes,
+  getKeyAttributes,
+  isPlainConvertibleItem,
+  serializeItem,
+  toPlainItem,
+} from '~/src/aws/dynamodb';
+import { useServerTranslation } from '~/i18next.server';
+
+// Remove the search params used to open the item sidebar and dialogs,
+// so that the user is brought back to the items list after the action
+const computeRedirectPath = (request: Request) => {
+  const { pathname, searchParams } = new URL(request.url);
+  ['create', 'edit', 'duplicate', 'delete'].forEach(param =>
+    searchParams.delete(param),
+  );
+  const search = searchParams.toString();
+  return `${pathname}${search ? `?${search}` : ''}`;
+};
+
+type ParsedItem =
+  | { format: 'plain'; item: PlainItem }
+  | { format: 'raw'; item: SerializedItem };
+
+const parseItem = (
+  formData: FormData,
+  table: TableDescription | undefined,
+  t: TFunction,
+): ParsedItem | { error: string } => {
+  const format: ItemFormat = formData.get('format') === 'raw' ? 'raw' : 'plain';
+  let item: unknown;
+  try {
+    item = JSON.parse(formData.get('item')?.toString() ?? '');
+  } catch {
+    return { error: t('invalidJson') };
+  }
+  if (!item || typeof item !== 'object' || Array.isArray(item)) {
+    return { error: t('itemMustBeAnObject') };
+  }
+  const invalidKeyAttributes = findInvalidKeyAttributes(
+    item as Record<string, unknown>,
+    table,
+    format,
+  );
+  if (invalidKeyAttributes.length > 0) {
+    return {
+      error: invalidKeyAttributes
+        .map(({ name, type }) => t('invalidKeyAttribute', { name, type }))
+        .join(' '),
+    };
+  }
+  return { format, item } as ParsedItem;
+};
+
+export const putItemAction = async ({
+  request,
+  params,
+}: ActionFunctionArgs) => {
+  const { searchParams } = new URL(request.url);
+  const formData = await request.formData();
+  const dynamoDbClient = getAwsClient('dynamodb', searchParams.get('endpoint'));
+  const TableName = params.name;
+  const [{ t }, { Table }] = await Promise.all([
+    useServerTranslation(request),
+    dynamoDbClient.send(new DescribeTableCommand({ TableName })),
+  ]);
+  const parsedItem = parseItem(formData, Table, t);
+
+  if ('error' in parsedItem) {
+    return json(parsedItem, { status: 400 });
+  }
+
+  // Never overwrite an existing item when creating (or duplicating) one
+  const { partitionKey } = getKeyAttributes(Table?.KeySchema ?? []);
+  const conditionInput = {
+    ConditionExpression: 'attribute_not_exists(#pk)',
+    ExpressionAttributeNames: { '#pk': partitionKey ?? '' },
+  };
+
+  try {
+    if (parsedItem.format === 'raw') {
+      await dynamoDbClient.send(
+        new PutItemCommand({
+          TableName,
+          Item: deserializeItem(parsedItem.item),
+          ...conditionInput,
+        }),
+      );
+    } else {
+      await dynamoDbClient.send(
+        new PutCommand({
+          TableName,
+          Item: parsedItem.item,
+          ...conditionInput,
+        }),
+      );
+    }
+  } catch (error) {
+    return json({ error: (error as Error).message }, { status: 400 });
+  }
+
+  return redirect(computeRedirectPath(request));
+};
+
+export const updateItemAction = async ({
+  request,
+  params,
+}: ActionFunctionArgs) => {
+  const { searchParams } = new URL(request.url);
+  const formData = await request.formData();
+  const dynamoDbClient = getAwsClient('dynamodb', searchParams.get('endpoint'));
+  const TableName = params.name;
+  const Key = decodeItemKey(formData.get('key')?.toString() ?? '');
+  const [{ t }, { Table }, { Item: currentItem }] = await Promise.all([
+    useServerTranslation(request),
+    dynamoDbClient.send(new DescribeTableCommand({ TableName })),
+    dynamoDbClient.send(new GetItemCommand({ TableName, Key })),
+  ]);
+  const parsedItem = parseItem(formData, Table, t);
+
+  if ('error' in parsedItem) {
+    return json(parsedItem, { status: 400 });
+  }
+
+  const serializedCurrentItem = serializeItem(currentItem ?? Key);
+  // Saving in plain JSON would turn sets into lists, binary values into
+  // strings and round the numbers that do not fit in a double
+  if (
+    parsedItem.format === 'plain' &&
+    !isPlainConvertibleItem(serializedCurrentItem)
+  ) {
+    return json({ error: t('itemRequiresDynamodbJson') }, { status: 400 });
+  }
+
+  // The attributes are compared in the same format in which they were edited
+  const originalItem: Record<string, unknown> =
+    parsedItem.format === 'raw'
+      ? serializedCurrentItem
+      : toPlainItem(serializedCurrentItem);
+  const isChanged = (name: string) =>
+    JSON.stringify(parsedItem.item[name]) !==
+    JSON.stringify(originalItem[name]);
+
+  // The key of an item cannot be updated
+  const keyAttributes = Object.keys(Key);
+  if (keyAttributes.some(isChanged)) {
+    return json({ error: t('keyAttributesCannotBeChanged') }, { status: 400 });
+  }
+
+  // Only the changed attributes are set, so that the untouched ones
+  // are left exactly as they are
+  const attributesToSet = Object.fromEntries(
+    Object.entries(parsedItem.item).filter(
+      ([name]) => !keyAttributes.includes(name) && isChanged(name),
+    ),
+  );
+  const attributesToRemove = Object.keys(currentItem ?? {}).filter(
+    name => !keyAttributes.includes(name) && !(name in parsedItem.item),
+  );
+
+  try {
+    if (parsedItem.format === 'raw') {
+      const updateExpression = buildUpdateExpression(
+        deserializeItem(attributesToSet as SerializedItem),
+        attributesToRemove,
+      );
+      if (updateExpression) {
+        await dynamoDbClient.send(
+          new UpdateItemCommand({ TableName, Key, ...updateExpression }),
+        );
+      }
+    } else {
+      const updateExpression = buildUpdateExpression(
+        attributesToSet,
+        attributesToRemove,
+      );
+      if (updateExpression) {
+        await dynamoDbClient.send(
+          new UpdateCommand({
+            TableName,
+            Key: Object.fromEntries(
+              keyAttributes.map(name => [name, parsedItem.item[name]]),
+            ),
+            ...updateExpression,
+          }),
+        );
+      }
+    }
+  } catch (error) {
+    return json({ error: (error as Error).message }, { status: 400 });
+  }
+
+  return redirect(computeRedirectPath(request));
+};
+
+export const deleteItemAction = async ({
+  request,
+  params,
+}: ActionFunctionArgs) => {
+  const { searchParams } = new URL(request.url);
+  const formData = await request.formData();
+  const dynamoDbClient = getAwsClient('dynamodb', searchParams.get('endpoint'));
+
+  try {
+    await dynamoDbClient.send(
+      new DeleteItemCommand({
+        TableName: params.name,
+        Key: decodeItemKey(formData.get('key')?.toString() ?? ''),
+      }),
+    );
+  } catch (error) {
+    return json({ error: (error as Error).message }, { status: 400 });
+  }
+
+  return redirect(computeRedirectPath(request));
+};
@@ -0,0 +1,394 @@
+import { FunctionComponent, useMemo } from 'react';
+import { useTranslation } from 'react-i18next';
+import {
+  DescribeTableCommand,
+  DescribeTimeToLiveCommand,
+  GetItemCommand,
+  QueryCommand,
+  ScanCommand,
+} from '@aws-sdk/client-dynamodb';
+import { ActionFunctionArgs, json, redirect } from '@remix-run/node';
+import {
+  useLoaderData,
+  Link as RemixLink,
+  useParams,
+  useRevalidator,
+  useSearchParams,
+} from '@remix-run/react';
+import { Typography, Button, Stack, Box, Link } from '@mui/material';
+import {
+  Refresh as RefreshIcon,
+  NavigateBefore as NavigateBeforeIcon,
+  NavigateNext as NavigateNextIcon,
+} from '@mui/icons-material';
+import DataGrid, { GridColDef } from '~/src/components/DataGrid';
+import { computeTitle, ignoreSearchChanges } from '~/src/utils';
+import CurrentPath from '~/src/components/CurrentPath';
+import {
+  ServiceClient,
+  getAwsClient,
+  getAwsClientsGroup,
+} from '~/src/aws/server';
+import {
+  SerializedItem,
+  buildKeyCondition,
+  decodeItemKey,
+  encodeItemKey,
+  formatAttributeValue,
+  parseItemsFilter,
+  pickItemKey,
+  serializeItem,
+} from '~/src/aws/dynamodb';
+import useLinkUtils from '~/src/hooks/useLinkUtils';
+import TableOverlay from '~/src/components/TableOverlay';
+import ItemsFilterForm from './ItemsFilterForm';
+import ItemSidebar from './ItemSidebar';
+import DeleteItemDialog from './DeleteItemDialog';
+import IndexesSidebar from './IndexesSidebar';
+import CreateIndexDialog from './CreateIndexDialog';
+import DeleteIndexDialog from './DeleteIndexDialog';
+import EditTableSettingsDialog from './EditTableSettingsDialog';
+import CopyTableDialog from './CopyTableDialog';
+import ExportItemsDialog from './ExportItemsDialog';
+import ImportItemsDialog from './ImportItemsDialog';
+import TimeToLiveSidebar, { defaultExpiringWindow } from './TimeToLiveSidebar';
+import { deleteItemAction, putItemAction, updateItemAction } from './actions';
+import type { AttributeValue } from '@aws-sdk/client-dynamodb';
+import type { LoaderFunctionArgs, MetaFunction } from '@remix-run/node';
+import { useServerTranslation } from '~/i18next.server';
+
+// Stop scanning once enough expiring items have been found,
+// since the whole table might need to be read otherwise
+const maxExpiringItems = 100;
+
+const scanExpiringItems = async (
+  dynamoDbClient: ServiceClient<'dynamodb'>,
+  tableName: string | undefined,
+  attributeName: string,
+  windowInSeconds: number,
+) => {
+  const now = Math.floor(Date.now() / 1000);
+  const items: Record<string, AttributeValue>[] = [];
+  let exclusiveStartKey: Record<string, AttributeValue> | undefined;
+  do {
+    const { Items, LastEvaluatedKey } = await dynamoDbClient.send(
+      new ScanCommand({
+        TableName: tableName,
+        FilterExpression: '#ttl BETWEEN :from AND :to',
+        ExpressionAttributeNames: { '#ttl': attributeName },
+        ExpressionAttributeValues: {
+          ':from': { N: now.toString() },
+          ':to': { N: (now + windowInSeconds).toString() },
+        },
+        ExclusiveStartKey: exclusiveStartKey,
+      }),
+    );
+    items.push(...(Items ?? []));
+    exclusiveStartKey = LastEvaluatedKey;
+  } while (exclusiveStartKey && items.length < maxExpiringItems);
+
+  return items
+    .sort((a, b) => Number(a[attributeName]?.N) - Number(b[attributeName]?.N))
+    .slice(0, maxExpiringItems);
+};
+
+export const loader = async ({ request, params }: LoaderFunctionArgs) => {
+  const { searchParams } = new URL(request.url);
+  const dynamoDbClient = getAwsClient('dynamodb', searchParams.get('endpoint'));
+  const TableName = params.name;
+  const serverTranslationPromise = useServerTranslation(request);
+  const { Table } = await dynamoDbClient.send(
+    new DescribeTableCommand({ TableName }),
+  );
+  const filter = parseItemsFilter(searchParams);
+  const keyCondition = buildKeyCondition(Table, filter);
+  // Every visited page appends its start key, so that we can go back
+  // to the previous page by simply removing the last one
+  const startKeys = searchParams.getAll('startKey');
+  const commonInput = {
+    TableName,
+    IndexName: filter.indexName,
+    Limit: filter.limit,
+    ExclusiveStartKey:
+      startKeys.length > 0
+        ? decodeItemKey(startKeys[startKeys.length - 1])
+        : undefined,
+  };
+  const { Items, LastEvaluatedKey } = keyCondition
+    ? await dynamoDbClient.send(
+        new QueryCommand({ ...commonInput, ...keyCondition }),
+      )
+    : await dynamoDbClient.send(new ScanCommand(commonInput));
+  // The item to edit (or duplicate) might not be in the current page,
+  // so we always retrieve it explicitly
+  const selectedItemKey =
+    searchParams.get('edit') || searchParams.get('duplicate');
+  const { Item: selectedItem } = selectedItemKey
+    ? await dynamoDbClient.send(
+        new GetItemCommand({ TableName, Key: decodeItemKey(selectedItemKey) }),
+      )
+    : { Item: undefined };
+  // The TTL settings are only needed when the corresponding panel is open
+  const { TimeToLiveDescription } = searchParams.has('ttl')
+    ? await dynamoDbClient.send(new DescribeTimeToLiveCommand({ TableName }))
+    : { TimeToLiveDescription: undefined };
+  const expiringItems = TimeToLiveDescription?.AttributeName
+    ? await scanExpiringItems(
+        dynamoDbClient,
+        TableName,
+        TimeToLiveDescription.AttributeName,
+        Number(searchParams.get('expiringWithin') || defaultExpiringWindow),
+      )
+    : [];
+  const { t } = await serverTranslationPromise;
+
+  return json({
+    meta: { titleParts: [t('tables'), TableName] },
+    table: Table,
+    items: Items?.map(serializeItem) ?? [],
+    lastEvaluatedKey: LastEvaluatedKey
+      ? encodeItemKey(serializeItem(LastEvaluatedKey))
+      : undefined,
+    selectedItem: selectedItem ? serializeItem(selectedItem) : undefined,
+    timeToLive: TimeToLiveDescription,
+    expiringItems: expiringItems.map(serializeItem),
+    endpoints: Array.from(getAwsClientsGroup('dynamodb').keys()),
+  });
+};
+
+export const shouldRevalidate = ignoreSearchChanges;
+
+export const meta: MetaFunction<typeof loader> = ({ data }) => [
+  computeTitle('DynamoDB', ...(data?.meta.titleParts || [])),
+];
+
+export const action = (args: ActionFunctionArgs) => {
+  switch (args.request.method) {
+    case 'POST':
+      return putItemAction(args);
+    case 'PATCH':
+      return updateItemAction(args);
+    case 'DELETE':
+      return deleteItemAction(args);
+  }
+  throw redirect(`/dynamodb/tables/${args.params.name}`);
+};
+
+// Only one sidebar can be open at a time, since they would overlap
+const sidebarParams = ['create', 'edit', 'duplicate', 'indexes', 'ttl'];
+
+const TableDetails: FunctionComponent = () => {
+  const { t } = useTranslation();
+  const { name } = useParams();
+  const {
+    table,
+    items,
+    lastEvaluatedKey,
+    selectedItem,
+    timeToLive,
+    expiringItems,
+    endpoints,
+  } = useLoaderData<typeof loader>();
+  const { revalidate } = useRevalidator();
+  const [searchParams] = useSearchParams();
+  const { withSearchParam, withSearchParams, withPathname } = useLinkUtils();
+  const editedItemKey = searchParams.get('edit');
+  const duplicatedItemKey = searchParams.get('duplicate');
+  const keySchema = table?.KeySchema ?? [];
+  const attributeNames = useMemo(
+    () =>
+      Array.from(
+        new Set([
+          // Always show the key attributes first
+          ...keySchema.map(({ AttributeName }) => AttributeName ?? ''),
+          ...items.flatMap(item => Object.keys(item)),
+        ]),
+      ),
+    [items, keySchema],
+  );
+  const previousPageLink = withSearchParams(previousParams => {
+    const startKeys = previousParams.getAll('startKey');
+    previousParams.delete('startKey');
+    startKeys
+      .slice(0, -1)
+      .forEach(startKey => previousParams.append('startKey', startKey));
+    return previousParams;
+  });
+  const nextPageLink = withSearchParams(previousParams => {
+    previousParams.append('startKey', lastEvaluatedKey ?? '');
+    return previousParams;
+  });
+  const hasPreviousPage = searchParams.has('startKey');
+  const withSidebar = (sidebarParam: string, value = '') =>
+    withSearchParams(previousParams => {
+      sidebarParams.forEach(param => previousParams.delete(param));
+      previousParams.set(sidebarParam, value);
+      return previousParams;
+    });
+
+  return (
+    <>
+      {/* t('tables') */}
+      <CurrentPath
+        items={[
+          'dynamodb',
+          'tables',
+          {
+            key: name!,
+            name: name!,
+            to: withPathname(`/dynamodb/tables/${name}`),
+          },
+        ]}
+      />
+      <Stack p={2} gap={2}>
+        <Stack
+          direction="row"
+          justifyContent="space-between"
+          alignItems="center"
+        >
+          <Typography variant="h5" component="h2">
+            {t('items')} ({table?.ItemCount ?? items.length})
+          </Typography>
+          <Stack direction="row" gap={1}>
+            <Button onClick={revalidate}>
+              <RefreshIcon />
+            </Button>
+            <Button
+              component={RemixLink}
+              to={previousPageLink}
+              disabled={!hasPreviousPage}
+              aria-label={t('previousPage')}
+            >
+              <NavigateBeforeIcon />
+            </Button>
+            <Button
+              component={RemixLink}
+              to={nextPageLink}
+              disabled={!lastEvaluatedKey}
+              aria-label={t('nextPage')}
+            >
+              <NavigateNextIcon />
+            </Button>
+            <Button component={RemixLink} to={withSearchParam('settings', '')}>
+              {t('settings')}
+            </Button>
+            <Button component={RemixLink} to={withSidebar('indexes')}>
+              {t('indexes')}
+            </Button>
+            <Button component={RemixLink} to={withSidebar('ttl')}>
+              {t('timeToLive')}
+            </Button>
+            <Button
+              component={RemixLink}
+              to={withPathname(`/dynamodb/tables/${name}/stream`)}
+            >
+              {t('stream')}
+            </Button>
+            <Button component={RemixLink} to={withSearchParam('import', '')}>
+              {t('import')}
+            </Button>
+            <Button component={RemixLink} to={withSearchParam('export', '')}>
+              {t('export')}
+            </Button>
+            <Button component={RemixLink} to={withSearchParam('copy', '')}>
+              {t('copyTo')}
+            </Button>
+            <Button
+              variant="contained"
+              color="secondary"
+              component={RemixLink}
+              to={withSidebar('create')}
+            >
+              {t('createItem')}
+            </Button>
+          </Stack>
+        </Stack>
+        {table && <ItemsFilterForm table={table} />}
+      </Stack>
+      <Box height="calc(100vh - 330px)">
+        <DataGrid
+          rows={items}
+          columns={attributeNames.map<GridColDef<SerializedItem>>(
+            (attributeName, index) => ({
+              field: attributeName,
+              headerName: attributeName,
+              valueGetter: (_, row) => formatAttributeValue(row[attributeName]),
+              // The first column (i.e. the partition key) opens the item editor
+              ...(index === 0 && {
+                renderCell: params => (
+                  <Link
+                    to={withSidebar('edit', params.id.toString())}
+                    color="secondary"
+                    component={RemixLink}
+                  >
+                    {params.value}
+                  </Link>
+                ),
+              }),
+              minWidth: 150,
+              flex: 1,
+            }),
+          )}
+          getRowId={row =>
+            encodeItemKey(pickItemKey(row as SerializedItem, keySchema))
+          }
+          disableRowSelectionOnClick
+          hideFooter
+          slots={{ noRowsOverlay: TableOverlay }}
+          slotProps={{
+            noRowsOverlay: {
+              children: t('noItemsAvailable'),
+            },
+          }}
+        />
+      </Box>
+      {table && searchParams.has('create') && (
+        <ItemSidebar key="create" table={table} mode="create" />
+      )}
+      {table && selectedItem && editedItemKey && (
+        <ItemSidebar
+          key={`edit-${editedItemKey}`}
+          table={table}
+          mode="edit"
+          item={selectedItem as SerializedItem}
+          itemKey={editedItemKey}
+        />
+      )}
+      {table && selectedItem && duplicatedItemKey && (
+        <ItemSidebar
+          key={`duplicate-${duplicatedItemKey}`}
+          table={table}
+          mode="duplicate"
+          item={selectedItem as SerializedItem}
+        />
+      )}
+      {table && searchParams.has('indexes') && <IndexesSidebar table={table} />}
+      {table && searchParams.has('ttl') && (
+        <TimeToLiveSidebar
+          table={table}
+          timeToLive={timeToLive}
+          expiringItems={expiringItems as SerializedItem[]}
+        />
+      )}
+      {table && (
+        <EditTableSettingsDialog
+          open={searchParams.has('settings')}
+          table={table}
+        />
+      )}
+      {table && (
+        <ImportItemsDialog open={searchParams.has('import')} table={table} />
+      )}
+      <ExportItemsDialog open={searchParams.has('export')} />
+      <CopyTableDialog open={searchParams.has('copy')} endpoints={endpoints} />
+      <CreateIndexDialog open={searchParams.has('createIndex')} />
+      <DeleteIndexDialog indexName={searchParams.get('deleteIndex')} />
+      <DeleteItemDialog
+        open={searchParams.has('delete') && !!editedItemKey}
+        itemKey={editedItemKey ?? ''}
+      />
+    </>
+  );
+};
+
+export default TableDetails;
@@ -0,0 +1,168 @@
+import {
+  DescribeStreamCommand,
+  GetRecordsCommand,
+  GetShardIteratorCommand,
+  Shard,
+  ShardIteratorType,
+} from '@aws-sdk/client-dynamodb-streams';
+import { ActionFunctionArgs, json } from '@remix-run/node';
+import { ServiceClient, getAwsClient } from '~/src/aws/server';
+import { SerializedItem, serializeItem } from '~/src/aws/dynamodb';
+import type { AttributeValue } from '@aws-sdk/client-dynamodb';
+
+export type StreamRecord = {
+  id: string;
+  eventName?: string;
+  shardId: string;
+  sequenceNumber?: string;
+  createdAt?: number;
+  keys: SerializedItem;
+  oldImage?: SerializedItem;
+  newImage?: SerializedItem;
+};
+
+export type GetStreamRecordsResult = {
+  records: StreamRecord[];
+  // The iterators to use for the next request of each shard,
+  // or null when the shard has been closed and fully read
+  shardIterators: Record<string, string | null>;
+};
+
+type StreamsClient = ServiceClient<'dynamodb'>['streams'];
+
+export const describeStreamShards = async (
+  streamsClient: StreamsClient,
+  streamArn: string,
+) => {
+  const shards: Shard[] = [];
+  let exclusiveStartShardId: string | undefined;
+  do {
+    const { StreamDescription } = await streamsClient.send(
+      new DescribeStreamCommand({
+        StreamArn: streamArn,
+        ExclusiveStartShardId: exclusiveStartShardId,
+      }),
+    );
+    shards.push(...(StreamDescription?.Shards ?? []));
+    exclusiveStartShardId = StreamDescription?.LastEvaluatedShardId;
+  } while (exclusiveStartShardId);
+  return shards;
+};
+
+const getShardIterator = async (
+  streamsClient: StreamsClient,
+  streamArn: string,
+  shardId: string,
+  shardIteratorType: ShardIteratorType,
+) => {
+  const { ShardIterator } = await streamsClient.send(
+    new GetShardIteratorCommand({
+      StreamArn: streamArn,
+      ShardId: shardId,
+      ShardIteratorType: shardIteratorType,
+    }),
+  );
+  return ShardIterator;
+};
+
+const toSerializedItem = (item: Record<string, unknown> | undefined) =>
+  item ? serializeItem(item as Record<string, AttributeValue>) : undefined;
+
+export const getStreamRecordsAction = async ({
+  request,
+}: ActionFunctionArgs) => {
+  const { searchParams } = new URL(request.url);
+  const formData = await request.formData();
+  const { streams: streamsClient } = getAwsClient(
+    'dynamodb',
+    searchParams.get('endpoint'),
+  );
+  const streamArn = formData.get('streamArn')?.toString() ?? '';
+  const startingPosition =
+    formData.get('startingPosition') === 'TRIM_HORIZON'
+      ? ShardIteratorType.TRIM_HORIZON
+      : ShardIteratorType.LATEST;
+  // Null on the first poll, after which every known shard has an entry
+  const shardIterators: GetStreamRecordsResult['shardIterators'] | null =
+    JSON.parse(formData.get('shardIterators')?.toString() || 'null');
+  // The starting position only applies to the shards of the first poll:
+  // the ones created afterwards are read from the start, otherwise
+  // the records written to them before the next poll would be lost
+  const newShardIteratorType = shardIterators
+    ? ShardIteratorType.TRIM_HORIZON
+    : startingPosition;
+
+  try {
+    // The shards are described every time, since new ones are created
+    // periodically and when the table is written heavily
+    const shards = await describeStreamShards(streamsClient, streamArn);
+    const results = await Promise.all(
+      shards.map(async ({ ShardId = '' }) => {
+        if (shardIterators?.[ShardId] === null) {
+          return { shardId: ShardId, records: [], nextShardIterator: null };
+        }
+        const readRecords = async (shardIterator: string | undefined) =>
+          shardIterator
+            ? await streamsClient.send(
+                new GetRecordsCommand({ ShardIterator: shardIterator }),
+              )
+            : { Records: [], NextShardIterator: undefined };
+        const shardIterator =
+          shardIterators?.[ShardId] ??
+          (await getShardIterator(
+            streamsClient,
+            streamArn,
+            ShardId,
+            newShardIteratorType,
+          ));
+        const { Records, NextShardIterator } = await readRecords(
+          shardIterator,
+        ).catch(async error => {
+          // Iterators expire after 15 minutes, so the shard is read again
+          // from the start, not to skip the records written in the meantime
+          if ((error as Error).name === 'ExpiredIteratorException') {
+            return readRecords(
+              await getShardIterator(
+                streamsClient,
+                streamArn,
+                ShardId,
+                ShardIteratorType.TRIM_HORIZON,
+              ),
+            );
+          }
+          throw error;
+        });
+        return {
+          shardId: ShardId,
+          records: Records ?? [],
+          nextShardIterator: NextShardIterator ?? null,
+        };
+      }),
+    );
+
+    return json<GetStreamRecordsResult>({
+      records: results
+        .flatMap(({ shardId, records }) =>
+          records.map<StreamRecord>(record => ({
+            id: record.eventID ?? record.dynamodb?.SequenceNumber ?? '',
+            eventName: record.eventName,
+            shardId,
+            sequenceNumber: record.dynamodb?.SequenceNumber,
+            createdAt: record.dynamodb?.ApproximateCreationDateTime?.getTime(),
+            keys: toSerializedItem(record.dynamodb?.Keys) ?? {},
+            oldImage: toSerializedItem(record.dynamodb?.OldImage),
+            newImage: toSerializedItem(record.dynamodb?.NewImage),
+          })),
+        )
+        .sort((a, b) => (a.createdAt ?? 0) - (b.createdAt ?? 0)),
+      shardIterators: Object.fromEntries(
+        results.map(({ shardId, nextShardIterator }) => [
+          shardId,
+          nextShardIterator,
+        ]),
+      ),
+    });
+  } catch (error) {
+    return json({ error: (error as Error).message }, { status: 400 });
+  }
+};
@@ -0,0 +1,285 @@
+import { FunctionComponent, useEffect, useRef, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { DescribeTableCommand } from '@aws-sdk/client-dynamodb';
+import { DescribeStreamCommand } from '@aws-sdk/client-dynamodb-streams';
+import { ActionFunctionArgs, json } from '@remix-run/node';
+import {
+  useFetcher,
+  useLoaderData,
+  useParams,
+  useSearchParams,
+  Link as RemixLink,
+} from '@remix-run/react';
+import {
+  Accordion,
+  AccordionDetails,
+  AccordionSummary,
+  Alert,
+  Box,
+  Button,
+  Chip,
+  ChipProps,
+  FormControl,
+  InputLabel,
+  MenuItem,
+  Select,
+  Stack,
+  Typography,
+} from '@mui/material';
+import CurrentPath from '~/src/components/CurrentPath';
+import useInterval from '~/src/hooks/useInterval';
+import useLinkUtils from '~/src/hooks/useLinkUtils';
+import { getAwsClient } from '~/src/aws/server';
+import {
+  SerializedItem,
+  formatAttributeValue,
+  toPlainItem,
+} from '~/src/aws/dynamodb';
+import { computeTitle, formatDateTime, ignoreSearchChanges } from '~/src/utils';
+import { StreamRecord, getStreamRecordsAction } from './actions';
+import type { LoaderFunctionArgs, MetaFunction } from '@remix-run/node';
+import { useServerTranslation } from '~/i18next.server';
+
+// Only keep the latest records, since the stream might emit a lot of them
+const maxRecords = 200;
+
+export const loader = async ({ request, params }: LoaderFunctionArgs) => {
+  const { searchParams } = new URL(request.url);
+  const dynamoDbClient = getAwsClient('dynamodb', searchParams.get('endpoint'));
+  const TableName = params.name;
+  const [{ t }, { Table }] = await Promise.all([
+    useServerTranslation(request),
+    dynamoDbClient.send(new DescribeTableCommand({ TableName })),
+  ]);
+  const streamArn = Table?.StreamSpecification?.StreamEnabled
+    ? Table.LatestStreamArn
+    : undefined;
+  const { StreamDescription } = streamArn
+    ? await dynamoDbClient.streams.send(
+        new DescribeStreamCommand({ StreamArn: streamArn, Limit: 1 }),
+      )
+    : { StreamDescription: undefined };
+
+  return json({
+    meta: { titleParts: [t('tables'), TableName, t('stream')] },
+    streamArn,
+    streamStatus: StreamDescription?.StreamStatus,
+    streamViewType: StreamDescription?.StreamViewType,
+  });
+};
+
+export const shouldRevalidate = ignoreSearchChanges;
+
+export const meta: MetaFunction<typeof loader> = ({ data }) => [
+  computeTitle('DynamoDB', ...(data?.meta.titleParts || [])),
+];
+
+export const action = (args: ActionFunctionArgs) =>
+  getStreamRecordsAction(args);
+
+const eventNameToColorMap: Record<string, ChipProps['color']> = {
+  INSERT: 'success',
+  MODIFY: 'info',
+  REMOVE: 'error',
+};
+
+const ItemImage: FunctionComponent<{
+  title: string;
+  item?: SerializedItem;
+}> = ({ title, item }) => (
+  <Box flex="1 1 0" minWidth={0}>
+    <Typography variant="subtitle2">{title}</Typography>
+    <Typography
+      variant="body2"
+      component="pre"
+      fontFamily="'Amazon Ember Mono', monospace"
+      overflow="auto"
+    >
+      {item ? JSON.stringify(toPlainItem(item), null, 2) : '-'}
+    </Typography>
+  </Box>
+);
+
+const TableStream: FunctionComponent = () => {
+  const { t } = useTranslation();
+  const { name } = useParams();
+  const { streamArn, streamStatus, streamViewType } =
+    useLoaderData<typeof loader>();
+  const fetcher = useFetcher<typeof action>();
+  const [searchParams] = useSearchParams();
+  const { withSearchParam, withPathname } = useLinkUtils();
+  const [startingPosition, setStartingPosition] = useState('LATEST');
+  const [records, setRecords] = useState<StreamRecord[]>([]);
+  // Iterators are kept in a ref, since they are only needed to poll.
+  // They are null until the first poll, which is the only one that reads
+  // the shards from the starting position
+  const shardIterators = useRef<Record<string, string | null> | null>(null);
+  const isPolling = !!streamArn && searchParams.has('polling');
+  const error =
+    fetcher.data && 'error' in fetcher.data ? fetcher.data.error : undefined;
+
+  useEffect(() => {
+    if (!fetcher.data || 'error' in fetcher.data) {
+      return;
+    }
+    shardIterators.current = fetcher.data.shardIterators;
+    const newRecords = fetcher.data.records as StreamRecord[];
+    if (newRecords.length > 0) {
+      setRecords(previousRecords => {
+        // Shards read again from the start after their iterator expired
+        // return some of the records that are already listed
+        const previousIds = new Set(previousRecords.map(({ id }) => id));
+        return [
+          ...newRecords.filter(({ id }) => !previousIds.has(id)).reverse(),
+          ...previousRecords,
+        ].slice(0, maxRecords);
+      });
+    }
+  }, [fetcher.data]);
+
+  useInterval(
+    () => {
+      // Skip this tick if the previous request has not completed yet
+      if (fetcher.state !== 'idle' || !streamArn) {
+        return;
+      }
+      fetcher.submit(
+        {
+          streamArn,
+          startingPosition,
+          shardIterators: JSON.stringify(shardIterators.current),
+        },
+        { method: 'POST' },
+      );
+    },
+    isPolling ? 2500 : null,
+  );
+
+  return (
+    <>
+      {/* t('tables') t('stream') */}
+      <CurrentPath
+        items={[
+          'dynamodb',
+          'tables',
+          {
+            key: name!,
+            name: name!,
+            to: withPathname(`/dynamodb/tables/${name}`),
+          },
+          'stream',
+        ]}
+      />
+      <Stack p={2} gap={2}>
+        <Stack
+          direction="row"
+          justifyContent="space-between"
+          alignItems="center"
+        >
+          <Stack direction="row" gap={1} alignItems="center">
+            <Typography variant="h5" component="h2">
+              {t('stream')}
+            </Typography>
+            {streamViewType && <Chip size="small" label={streamViewType} />}
+            {streamStatus && <Chip size="small" label={streamStatus} />}
+          </Stack>
+          <Stack direction="row" gap={1} alignItems="center">
+            <FormControl sx={{ width: 200 }}>
+              <InputLabel id="starting-position-label">
+                {t('startingPosition')}
+              </InputLabel>
+              <Select
+                labelId="starting-position-label"
+                size="small"
+                label={t('startingPosition')}
+                value={startingPosition}
+                // The position is only used when the shards are read
+                // for the first time, so it cannot change while polling
+                disabled={isPolling || !streamArn}
+                onChange={event => {
+                  setStartingPosition(event.target.value);
+                  shardIterators.current = null;
+                }}
+              >
+                <MenuItem value="LATEST">{t('latestRecords')}</MenuItem>
+                <MenuItem value="TRIM_HORIZON">{t('oldestRecords')}</MenuItem>
+              </Select>
+            </FormControl>
+            <Button
+              disabled={records.length < 1}
+              onClick={() => setRecords([])}
+            >
+              {t('clear')}
+            </Button>
+            <Button
+              variant="contained"
+              color="secondary"
+              disabled={!streamArn}
+              component={RemixLink}
+              to={withSearchParam('polling', isPolling ? null : '')}
+            >
+              {isPolling ? t('stopPolling') : t('startPolling')}
+            </Button>
+          </Stack>
+        </Stack>
+        {!streamArn && (
+          <Alert
+            severity="info"
+            action={
+              <Button
+                color="inherit"
+                component={RemixLink}
+                to={withSearchParam(
+                  'endpoint',
+                  searchParams.get('endpoint'),
+                  `/dynamodb/tables/${name}?settings`,
+                )}
+              >
+                {t('editSettings')}
+              </Button>
+            }
+          >
+            {t('streamDisabledHint')}
+          </Alert>
+        )}
+        {error && <Alert severity="error">{error}</Alert>}
+        {streamArn && records.length < 1 && (
+          <Typography variant="body2" color="text.secondary">
+            {isPolling ? t('waitingForRecords') : t('startPollingHint')}
+          </Typography>
+        )}
+        <Box>
+          {records.map(record => (
+            <Accordion key={`${record.shardId}-${record.id}`}>
+              <AccordionSummary>
+                <Stack direction="row" gap={1} alignItems="center">
+                  <Chip
+                    size="small"
+                    color={eventNameToColorMap[record.eventName ?? '']}
+                    label={record.eventName}
+                  />
+                  <Typography variant="body2" color="text.secondary">
+                    {formatDateTime(record.createdAt)}
+                  </Typography>
+                  <Typography variant="body2">
+                    {Object.values(record.keys)
+                      .map(formatAttributeValue)
+                      .join(' / ')}
+                  </Typography>
+                </Stack>
+              </AccordionSummary>
+              <AccordionDetails>
+                <Stack direction="row" gap={2}>
+                  <ItemImage title={t('oldImage')} item={record.oldImage} />
+                  <ItemImage title={t('newImage')} item={record.newImage} />
+                </Stack>
+              </AccordionDetails>
+            </Accordion>
+          ))}
+        </Box>
+      </Stack>
+    </>
+  );
+};
+
+export default TableStream;
@@ -1,33 +1,61 @@
-import { FunctionComponent } from 'react';
+import { FunctionComponent, useState } from 'react';
 import { useTranslation } from 'react-i18next';
+import { useFetcher } from '@remix-run/react';
 import {
+  Alert,
   Button,
+  Divider,
   FormControl,
   InputLabel,
   MenuItem,
   Select,
   Stack,
   TextField,
+  Typography,
 } from '@mui/material';
+import { Add as AddIcon } from '@mui/icons-material';
 import ConfirmationDialog from '~/src/components/ConfirmationDialog';
+import SecondaryIndexFields from '~/src/components/SecondaryIndexFields';
+import TableSettingsFields from '~/src/components/TableSettingsFields';
+import EndpointSelect from '~/src/components/EndpointSelect';
 import useLinkUtils from '~/src/hooks/useLinkUtils';
+import type { createTableAction } from './actions';
 
 export interface CreateTableDialogProps {
   open: boolean;
+  endpoints: string[];
 }
 
 const CreateTableDialog: FunctionComponent<CreateTableDialogProps> = ({
   open,
+  endpoints,
 }) => {
   const { t } = useTranslation();
   const { withSearchParam } = useLinkUtils();
+  const fetcher = useFetcher<typeof createTableAction>();
+  const [endpoint, setEndpoint] = useState(endpoints[0]);
+  // Incremental ids used as keys, so that removing an index does not reset
+  // the fields of the following ones
+  const [indexIds, setIndexIds] = useState<number[]>([]);
 
   return (
     <ConfirmationDialog
       open={open}
+      maxWidth="sm"
       title={t('createTable')}
       content={
         <Stack mt={2} spacing={2}>
+          {fetcher.data?.error && (
+            <Alert severity="error">{fetcher.data.error}</Alert>
+          )}
+          {endpoints.length > 1 && (
+            <EndpointSelect
+              fullWidth
+              endpoints={endpoints}
+              value={endpoint}
+              onChange={setEndpoint}
+            />
+          )}
           <TextField
             fullWidth
             required
@@ -74,13 +102,57 @@ const CreateTableDialog: FunctionComponent<CreateTableDialogProps> = ({
               </Select>
             </FormControl>
           </Stack>
+          <Divider />
+          <Typography variant="subtitle1" component="h3">
+            {t('settings')}
+          </Typography>
+          <TableSettingsFields />
+          <Divider />
+          <Stack
+            direction="row"
+            justifyContent="space-between"
+            alignItems="center"
+          >
+            <Typography variant="subtitle1" component="h3">
+              {t('secondaryIndexes')}
+            </Typography>
+            <Button
+              startIcon={<AddIcon />}
+              onClick={() =>
+                setIndexIds(ids => [...ids, Math.max(0, ...ids) + 1])
+              }
+            >
+              {t('addIndex')}
+            </Button>
+          </Stack>
+          {indexIds.map(id => (
+            <Stack key={id} spacing={2}>
+              <SecondaryIndexFields
+                allowLocal
+                onRemove={() =>
+                  setIndexIds(ids => ids.filter(otherId => otherId !== id))
+                }
+              />
+              <Divider />
+            </Stack>
+          ))}
         </Stack>
       }
       closeLink={withSearchParam('create', null)}
+      component={fetcher.Form}
       method="POST"
-      action="/dynamodb/tables"
+      action={withSearchParam(
+        'endpoint',
+        endpoints.length > 1 ? endpoint : null,
+        '/dynamodb/tables',
+      )}
       buttons={
-        <Button type="submit" variant="contained" color="secondary">
+        <Button
+          type="submit"
+          variant="contained"
+          color="secondary"
+          disabled={fetcher.state !== 'idle'}
+        >
           {t('create')}
         </Button>
       }
@@ -6,7 +6,7 @@ import useLinkUtils from '~/src/hooks/useLinkUtils';
 
 export interface DeleteTablesDialogProps {
   open: boolean;
-  tables: string[];
+  tables: { TableName: string; EndpointUrl: string }[];
 }
 
 const DeleteTablesDialog: FunctionComponent<DeleteTablesDialogProps> = ({
@@ -26,7 +26,17 @@ const DeleteTablesDialog: FunctionComponent<DeleteTablesDialogProps> = ({
       action="/dynamodb/tables"
       buttons={
         <>
-          <input type="hidden" name="names" value={tables.join(',')} />
+          <input
+            type="hidden"
+            name="names"
+            value={tables.map(table => table.TableName).join(',')}
+          />
+          {/* The selected tables might belong to different endpoints */}
+          <input
+            type="hidden"
+            name="endpoints"
+            value={tables.map(table => table.EndpointUrl).join(',')}
+          />
           <Button type="submit" variant="contained" color="error" autoFocus>
             {t('delete')}
           </Button>
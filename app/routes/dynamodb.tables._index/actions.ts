@@ -0,0 +1,113 @@
+import {
+  CreateTableCommand,
+  DeleteTableCommand,
+  KeyType,
+  ScalarAttributeType,
+} from '@aws-sdk/client-dynamodb';
+import { ActionFunctionArgs, json, redirect } from '@remix-run/node';
+import { getAwsClient } from '~/src/aws/server';
+import {
+  buildCreateTableSettings,
+  buildGlobalSecondaryIndex,
+  buildLocalSecondaryIndex,
+  buildProvisionedThroughput,
+  mergeAttributeDefinitions,
+  parseSecondaryIndexes,
+  parseTableSettings,
+} from '~/src/aws/dynamodb';
+
+export type CreateTableResult = { error?: string };
+
+export const createTableAction = async ({ request }: ActionFunctionArgs) => {
+  const { searchParams } = new URL(request.url);
+  const formData = await request.formData();
+  const dynamoDbClient = getAwsClient('dynamodb', searchParams.get('endpoint'));
+  const partitionKey = {
+    name: formData.get('partitionKeyName')?.toString() ?? '',
+    type:
+      (formData.get('partitionKeyType')?.toString() as ScalarAttributeType) ??
+      ScalarAttributeType.S,
+  };
+  const sortKeyName = formData.get('sortKeyName')?.toString();
+  const sortKey = sortKeyName
+    ? {
+        name: sortKeyName,
+        type:
+          (formData.get('sortKeyType')?.toString() as ScalarAttributeType) ??
+          ScalarAttributeType.S,
+      }
+    : undefined;
+  const settings = parseTableSettings(formData);
+  const indexes = parseSecondaryIndexes(formData);
+  const globalIndexes = indexes.filter(({ type }) => type === 'global');
+  const localIndexes = indexes.filter(({ type }) => type === 'local');
+
+  try {
+    await dynamoDbClient.send(
+      new CreateTableCommand({
+        TableName: formData.get('name')?.toString() ?? '',
+        AttributeDefinitions: mergeAttributeDefinitions(
+          partitionKey,
+          sortKey,
+          ...indexes.flatMap(index => [index.partitionKey, index.sortKey]),
+        ),
+        KeySchema: [
+          {
+            AttributeName: partitionKey.name,
+            KeyType: KeyType.HASH,
+          },
+          ...(sortKey
+            ? [
+                {
+                  AttributeName: sortKey.name,
+                  KeyType: KeyType.RANGE,
+                },
+              ]
+            : []),
+        ],
+        ...(globalIndexes.length > 0 && {
+          GlobalSecondaryIndexes: globalIndexes.map(index =>
+            buildGlobalSecondaryIndex(
+              index,
+              buildProvisionedThroughput(settings),
+            ),
+          ),
+        }),
+        ...(localIndexes.length > 0 && {
+          LocalSecondaryIndexes: localIndexes.map(index =>
+            buildLocalSecondaryIndex(index, partitionKey.name),
+          ),
+        }),
+        ...buildCreateTableSettings(settings),
+      }),
+    );
+  } catch (error) {
+    // e.g. a duplicate index name or a local index without a sort key
+    return json<CreateTableResult>({ error: (error as Error).message });
+  }
+
+  return redirect('/dynamodb/tables');
+};
+
+export const deleteTablesAction = async ({ request }: ActionFunctionArgs) => {
+  const { searchParams } = new URL(request.url);
+  const formData = await request.formData();
+  const tablesToDelete = formData.get('names')?.toString().split(',') ?? [];
+  // The endpoint of each table, when they don't all belong to the same one
+  const tableEndpoints = formData.get('endpoints')?.toString().split(',') ?? [];
+
+  await Promise.all(
+    tablesToDelete.map((table, index) =>
+      getAwsClient(
+        'dynamodb',
+        tableEndpoints[index] || searchParams.get('endpoint'),
+      ).send(
+        new DeleteTableCommand({
+          TableName: table,
+        }),
+      ),
+    ),
+  );
+
+  return redirect('/dynamodb/tables');
+};
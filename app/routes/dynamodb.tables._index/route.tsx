@@ -21,7 +21,7 @@ import {
   Refresh as RefreshIcon,
   Clear as ClearIcon,
 } from '@mui/icons-material';
-import DataGrid from '~/src/components/DataGrid';
+import DataGrid, { GridColDef } from '~/src/components/DataGrid';
 import useFuzzySearch from '~/src/hooks/useFuzzySearch';
 import {
   computeTitle,
@@ -29,7 +29,7 @@ import {
   ignoreSearchChanges,
 } from '~/src/utils';
 import CurrentPath from '~/src/components/CurrentPath';
-import { getAwsClient } from '~/src/aws/server';
+import { getAwsClientsGroup } from '~/src/aws/server';
 import CreateTableDialog from './CreateTableDialog';
 import DeleteTablesDialog from './DeleteTablesDialog';
 import useLinkUtils from '~/src/hooks/useLinkUtils';
@@ -39,14 +39,23 @@ import type { LoaderFunctionArgs, MetaFunction } from '@remix-run/node';
 import { useServerTranslation } from '~/i18next.server';
 
 export const loader = async ({ request }: LoaderFunctionArgs) => {
-  const dynamoDbClient = getAwsClient('dynamodb');
-  const [{ t }, response] = await Promise.all([
+  const dynamoDbClients = getAwsClientsGroup('dynamodb');
+  const [{ t }, ...responses] = await Promise.all([
     useServerTranslation(request),
-    dynamoDbClient.send(new ListTablesCommand({})),
+    ...Array.from(dynamoDbClients.entries(), ([url, dynamoDbClient]) =>
+      dynamoDbClient.send(new ListTablesCommand({})).then(
+        response =>
+          response.TableNames?.map(TableName => ({
+            TableName,
+            EndpointUrl: url,
+          })) ?? [],
+      ),
+    ),
   ]);
   return json({
     meta: { titleParts: [t('tables')] },
-    tables: response.TableNames ?? [],
+    tables: responses.flat(),
+    endpoints: Array.from(dynamoDbClients.keys()),
   });
 };
 
@@ -74,13 +83,20 @@ const SearchField = styled(TextField)({
 
 const TablesList: FunctionComponent = () => {
   const { t } = useTranslation();
-  const { tables } = useLoaderData<typeof loader>();
+  const { tables, endpoints } = useLoaderData<typeof loader>();
+  const hasMultipleEndpoints = endpoints.length > 1;
+  // Tables with the same name might exist on different endpoints
+  const computeTableId = (table: (typeof tables)[number]) =>
+    hasMultipleEndpoints
+      ? `${table.EndpointUrl} ${table.TableName}`
+      : table.TableName;
   const { revalidate } = useRevalidator();
   const [searchParams, setSearchParams] = useSearchParams();
   const { withSearchParam } = useLinkUtils();
   const selectedTables = searchParams.get('selection')?.split(',') ?? [];
   const search = searchParams.get('search') ?? '';
   const { results: searchResults } = useFuzzySearch(search, tables, {
+    keys: ['TableName'],
     includeMatches: true,
   });
 
@@ -112,6 +128,9 @@ const TablesList: FunctionComponent = () => {
             <Button onClick={revalidate}>
               <RefreshIcon />
             </Button>
+            <Button component={RemixLink} to="/dynamodb/partiql">
+              {t('partiql')}
+            </Button>
             <Button
               component={RemixLink}
               to={withSearchParam('delete', '')}
@@ -184,12 +203,16 @@ const TablesList: FunctionComponent = () => {
             headerName: t('name'),
             renderCell: params => (
               <Link
-                to={`/dynamodb/tables/${params.row.item}`}
+                to={withSearchParam(
+                  'endpoint',
+                  hasMultipleEndpoints ? params.row.item.EndpointUrl : null,
+                  `/dynamodb/tables/${params.row.item.TableName}`,
+                )}
                 color="secondary"
                 component={RemixLink}
               >
                 {highlightMatches(
-                  params.row.item,
+                  params.row.item.TableName,
                   params.row.matches?.[0]?.indices,
                 )}
               </Link>
@@ -197,8 +220,23 @@ const TablesList: FunctionComponent = () => {
             sortable: !search,
             flex: 1,
           },
+          ...(hasMultipleEndpoints
+            ? [
+                {
+                  field: 'endpointUrl',
+                  headerName: t('endpoint'),
+                  renderCell: params => (
+                    <Link component={Typography}>
+                      {params.row.item.EndpointUrl}
+                    </Link>
+                  ),
+                  sortable: !search,
+                  flex: 1,
+                } as GridColDef<(typeof searchResults)[number]>,
+              ]
+            : []),
         ]}
-        getRowId={row => row.item}
+        getRowId={row => computeTableId(row.item)}
         checkboxSelection
         disableRowSelectionOnClick
         sx={{ height: 'calc(100vh - 270px)' }}
@@ -209,10 +247,15 @@ const TablesList: FunctionComponent = () => {
           },
         }}
       />
-      <CreateTableDialog open={searchParams.has('create')} />
+      <CreateTableDialog
+        open={searchParams.has('create')}
+        endpoints={endpoints}
+      />
       <DeleteTablesDialog
         open={searchParams.has('delete') && tables.length > 0}
-        tables={selectedTables}
+        tables={tables.filter(table =>
+          selectedTables.includes(computeTableId(table)),
+        )}
       />
     </>
   );
@@ -14,6 +14,8 @@ export const loader = async ({ request, params }: LoaderFunctionArgs) => {
     new GetObjectCommand({
       Bucket: params.id,
       Key: key,
+      // Previous versions can be downloaded too
+      VersionId: searchParams.get('versionId') || undefined,
     }),
   );
   return new Response(getObjectResponse.Body as ReadableStream, {
@@ -0,0 +1,33 @@
+import { CopyObjectCommand, HeadObjectCommand } from '@aws-sdk/client-s3';
+import { ActionFunctionArgs, redirect } from '@remix-run/node';
+import { getAwsClient } from '~/src/aws/server';
+import { parseObjectMetadata } from '~/src/aws/s3';
+import { base64UrlDecode } from '~/src/utils';
+
+export async function action({ request, params }: ActionFunctionArgs) {
+  const { searchParams } = new URL(request.url);
+  const formData = await request.formData();
+  const s3Client = getAwsClient('s3', searchParams.get('endpoint'));
+  const bucket = params.id ?? '';
+  const key = base64UrlDecode(params.key!);
+  const { StorageClass } = await s3Client.send(
+    new HeadObjectCommand({ Bucket: bucket, Key: key }),
+  );
+
+  // S3 does not allow to change the metadata of an existing object,
+  // so the object is copied onto itself replacing all of it
+  await s3Client.send(
+    new CopyObjectCommand({
+      Bucket: bucket,
+      CopySource: `${bucket}/${encodeURIComponent(key)}`,
+      Key: key,
+      MetadataDirective: 'REPLACE',
+      // The storage class would be reset to the default one otherwise
+      StorageClass,
+      ...parseObjectMetadata(formData),
+    }),
+  );
+
+  searchParams.delete('editMetadata');
+  return redirect(`/s3/buckets/${bucket}/${params.key}?${searchParams}`);
+}
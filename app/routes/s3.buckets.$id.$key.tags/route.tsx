@@ -0,0 +1,41 @@
+import {
+  DeleteObjectTaggingCommand,
+  PutObjectTaggingCommand,
+} from '@aws-sdk/client-s3';
+import { ActionFunctionArgs, redirect } from '@remix-run/node';
+import { getAwsClient } from '~/src/aws/server';
+import { parseTags } from '~/src/aws/s3';
+import { base64UrlDecode } from '~/src/utils';
+
+export async function action({ request, params }: ActionFunctionArgs) {
+  const { searchParams } = new URL(request.url);
+  const formData = await request.formData();
+  const s3Client = getAwsClient('s3', searchParams.get('endpoint'));
+  const bucket = params.id ?? '';
+  const key = base64UrlDecode(params.key!);
+  // Tags belong to a single version, so the viewed one is changed
+  const versionId = searchParams.get('versionId') || undefined;
+  const tags = parseTags(formData);
+
+  if (tags.length > 0) {
+    await s3Client.send(
+      new PutObjectTaggingCommand({
+        Bucket: bucket,
+        Key: key,
+        VersionId: versionId,
+        Tagging: { TagSet: tags },
+      }),
+    );
+  } else {
+    await s3Client.send(
+      new DeleteObjectTaggingCommand({
+        Bucket: bucket,
+        Key: key,
+        VersionId: versionId,
+      }),
+    );
+  }
+
+  searchParams.delete('editTags');
+  return redirect(`/s3/buckets/${bucket}/${params.key}?${searchParams}`);
+}
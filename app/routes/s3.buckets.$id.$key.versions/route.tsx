@@ -0,0 +1,42 @@
+import { CopyObjectCommand, DeleteObjectCommand } from '@aws-sdk/client-s3';
+import { ActionFunctionArgs, redirect } from '@remix-run/node';
+import { getAwsClient } from '~/src/aws/server';
+import { base64UrlDecode } from '~/src/utils';
+
+export async function action({ request, params }: ActionFunctionArgs) {
+  const { searchParams } = new URL(request.url);
+  const formData = await request.formData();
+  const s3Client = getAwsClient('s3', searchParams.get('endpoint'));
+  const bucket = params.id ?? '';
+  const key = base64UrlDecode(params.key!);
+  const versionId = formData.get('versionId')?.toString() ?? '';
+
+  if (request.method === 'POST') {
+    // Restoring a version means copying it over the current one,
+    // which keeps the whole history intact
+    await s3Client.send(
+      new CopyObjectCommand({
+        Bucket: bucket,
+        CopySource: `${bucket}/${encodeURIComponent(key)}?versionId=${encodeURIComponent(versionId)}`,
+        Key: key,
+      }),
+    );
+    // The restored version becomes the latest one
+    searchParams.delete('versionId');
+  } else if (request.method === 'DELETE') {
+    await s3Client.send(
+      new DeleteObjectCommand({
+        Bucket: bucket,
+        Key: key,
+        VersionId: versionId,
+      }),
+    );
+    if (searchParams.get('versionId') === versionId) {
+      searchParams.delete('versionId');
+    }
+  }
+
+  // Go back to the versions of the object
+  searchParams.delete('deleteVersion');
+  return redirect(`/s3/buckets/${bucket}/${params.key}?${searchParams}`);
+}
@@ -1,9 +1,11 @@
 import { FunctionComponent } from 'react';
 import { useTranslation } from 'react-i18next';
-import { Button } from '@mui/material';
+import { Button, DialogContentText, Stack } from '@mui/material';
 import ConfirmationDialog from '~/src/components/ConfirmationDialog';
+import BatchOperationReport from '~/src/components/BatchOperationReport';
 import useLinkUtils from '~/src/hooks/useLinkUtils';
-import { useLocation } from '@remix-run/react';
+import type { action } from './route';
+import { useActionData, useLocation } from '@remix-run/react';
 
 export interface DeleteObjectsDialogProps {
   open: boolean;
@@ -16,13 +18,21 @@ const DeleteObjectsDialog: FunctionComponent<DeleteObjectsDialogProps> = ({
 }) => {
   const { t } = useTranslation();
   const { withSearchParam } = useLinkUtils();
+  const result = useActionData<typeof action>();
   const location = useLocation();
 
   return (
     <ConfirmationDialog
       open={open}
       title={t('deleteObjectsConfirmationTitle', { count: objects.length })}
-      content={t('deleteObjectsConfirmationContent', { count: objects.length })}
+      content={
+        <Stack spacing={2}>
+          <DialogContentText>
+            {t('deleteObjectsConfirmationContent', { count: objects.length })}
+          </DialogContentText>
+          {result && <BatchOperationReport result={result} />}
+        </Stack>
+      }
       closeLink={withSearchParam('delete', null)}
       method="DELETE"
       action={`${location.pathname}${location.search}`}
@@ -0,0 +1,174 @@
+import { FunctionComponent, useId } from 'react';
+import { useTranslation } from 'react-i18next';
+import { useFetcher, useSearchParams } from '@remix-run/react';
+import {
+  Button,
+  FormControl,
+  IconButton,
+  InputAdornment,
+  InputLabel,
+  MenuItem,
+  Select,
+  Stack,
+  TextField,
+} from '@mui/material';
+import { ContentCopy as ContentCopyIcon } from '@mui/icons-material';
+import ConfirmationDialog from '~/src/components/ConfirmationDialog';
+import {
+  PresignedRequestMethod,
+  buildCurlCommand,
+  defaultPresignedUrlExpiration,
+  presignedUrlExpirations,
+} from '~/src/aws/s3';
+import useLinkUtils from '~/src/hooks/useLinkUtils';
+import type { action } from '../s3.buckets.$id.presign/route';
+
+export interface PresignedUrlDialogProps {
+  open: boolean;
+  bucketName: string;
+  closeLink: string;
+  methods: PresignedRequestMethod[];
+  defaultKey?: string;
+  // The key of an existing object cannot be changed when sharing it
+  keyEditable?: boolean;
+  versionId?: string | null;
+}
+
+const CopyAdornment: FunctionComponent<{ value: string }> = ({ value }) => {
+  const { t } = useTranslation();
+
+  return (
+    <InputAdornment position="end">
+      <IconButton
+        edge="end"
+        aria-label={t('copy')}
+        onClick={() => navigator.clipboard.writeText(value)}
+      >
+        <ContentCopyIcon />
+      </IconButton>
+    </InputAdornment>
+  );
+};
+
+const PresignedUrlDialog: FunctionComponent<PresignedUrlDialogProps> = ({
+  open,
+  bucketName,
+  closeLink,
+  methods,
+  defaultKey = '',
+  keyEditable,
+  versionId,
+}) => {
+  const { t } = useTranslation();
+  const [searchParams] = useSearchParams();
+  const { withSearchParam } = useLinkUtils();
+  const fetcher = useFetcher<typeof action>();
+  const methodLabelId = useId();
+  const expirationLabelId = useId();
+  const curlCommand = fetcher.data ? buildCurlCommand(fetcher.data) : '';
+
+  return (
+    <ConfirmationDialog
+      open={open}
+      maxWidth="sm"
+      title={methods.includes('GET') ? t('share') : t('presignedUpload')}
+      content={
+        <Stack mt={2} spacing={2}>
+          {methods.length > 1 ? (
+            <FormControl fullWidth>
+              <InputLabel id={methodLabelId}>{t('method')}</InputLabel>
+              <Select
+                labelId={methodLabelId}
+                size="small"
+                label={t('method')}
+                name="method"
+                defaultValue={methods[0]}
+              >
+                {methods.map(method => (
+                  <MenuItem key={method} value={method}>
+                    {method}
+                  </MenuItem>
+                ))}
+              </Select>
+            </FormControl>
+          ) : (
+            <input type="hidden" name="method" value={methods[0]} />
+          )}
+          <TextField
+            fullWidth
+            required
+            label={t('key')}
+            name="key"
+            defaultValue={defaultKey}
+            InputProps={{ readOnly: !keyEditable }}
+          />
+          {versionId && (
+            <input type="hidden" name="versionId" value={versionId} />
+          )}
+          <FormControl fullWidth>
+            <InputLabel id={expirationLabelId}>{t('expiresIn')}</InputLabel>
+            <Select
+              labelId={expirationLabelId}
+              size="small"
+              label={t('expiresIn')}
+              name="expiresIn"
+              defaultValue={defaultPresignedUrlExpiration}
+            >
+              {Object.entries(presignedUrlExpirations).map(([value, label]) => (
+                <MenuItem key={value} value={value}>
+                  {t(label)}
+                </MenuItem>
+              ))}
+            </Select>
+          </FormControl>
+          {fetcher.data && (
+            <>
+              <TextField
+                fullWidth
+                multiline
+                label={t('url')}
+                value={fetcher.data.url}
+                InputProps={{
+                  readOnly: true,
+                  endAdornment: <CopyAdornment value={fetcher.data.url} />,
+                }}
+              />
+              <TextField
+                fullWidth
+                multiline
+                label={t('curlCommand')}
+                value={curlCommand}
+                InputProps={{
+                  readOnly: true,
+                  endAdornment: <CopyAdornment value={curlCommand} />,
+                  sx: { fontFamily: "'Amazon Ember Mono', monospace" },
+                }}
+              />
+            </>
+          )}
+        </Stack>
+      }
+      closeLink={closeLink}
+      // The generated URL is shown in the dialog, so we submit it with a fetcher
+      component={fetcher.Form}
+      method="POST"
+      action={withSearchParam(
+        'endpoint',
+        searchParams.get('endpoint'),
+        `/s3/buckets/${bucketName}/presign`,
+      )}
+      buttons={
+        <Button
+          type="submit"
+          variant="contained"
+          color="secondary"
+          disabled={fetcher.state !== 'idle'}
+        >
+          {t('generate')}
+        </Button>
+      }
+    />
+  );
+};
+
+export default PresignedUrlDialog;
@@ -1,9 +1,11 @@
 import { FunctionComponent } from 'react';
 import { useTranslation } from 'react-i18next';
-import { useLocation } from '@remix-run/react';
+import { useActionData, useLocation } from '@remix-run/react';
 import { Button, Stack, TextField } from '@mui/material';
 import ConfirmationDialog from '~/src/components/ConfirmationDialog';
+import BatchOperationReport from '~/src/components/BatchOperationReport';
 import useLinkUtils from '~/src/hooks/useLinkUtils';
+import type { action } from './route';
 
 export interface RenameObjectDialogProps {
   open: boolean;
@@ -16,6 +18,7 @@ const RenameObjectDialog: FunctionComponent<RenameObjectDialogProps> = ({
 }) => {
   const { t } = useTranslation();
   const { withSearchParam } = useLinkUtils();
+  const result = useActionData<typeof action>();
   const location = useLocation();
 
   return (
@@ -38,6 +41,7 @@ const RenameObjectDialog: FunctionComponent<RenameObjectDialogProps> = ({
             name="newName"
           />
           <input type="hidden" name="name" value={object} />
+          {result && <BatchOperationReport result={result} />}
         </Stack>
       }
       closeLink={withSearchParam('rename', null)}
@@ -1,11 +1,19 @@
-import { FormEventHandler, FunctionComponent, useMemo, useState } from 'react';
+import {
+  Dispatch,
+  FormEventHandler,
+  FunctionComponent,
+  SetStateAction,
+  useEffect,
+  useMemo,
+  useState,
+} from 'react';
 import { useDropzone } from 'react-dropzone-esm';
 import { useTranslation } from 'react-i18next';
-import { HTMLFormMethod, FormEncType } from '@remix-run/router';
-import { useSubmit } from '@remix-run/react';
+import { useFetcher, useNavigate, useSearchParams } from '@remix-run/react';
 import {
   Button,
   IconButton,
+  LinearProgress,
   List,
   ListItem,
   ListItemIcon,
@@ -19,20 +27,36 @@ import {
   Folder as FolderIcon,
   InsertDriveFile as InsertDriveFileIcon,
   Delete as DeleteIcon,
+  Cancel as CancelIcon,
 } from '@mui/icons-material';
 import ConfirmationDialog from '~/src/components/ConfirmationDialog';
+import TagsFields from '~/src/components/TagsFields';
+import useInterval from '~/src/hooks/useInterval';
 import useLinkUtils from '~/src/hooks/useLinkUtils';
+import {
+  UploadProgress,
+  getUploadedFilePath,
+  maxObjectTags,
+} from '~/src/aws/s3';
+import { prettifySize } from '~/src/utils';
+import type { action, loader } from '../s3.buckets.$id.upload/route';
+import type { uploadObjectsAction } from '../s3.buckets.$id.upload/actions';
 
 export interface UploadObjectsDialogProps {
   open: boolean;
   bucketName: string;
   prefix?: string;
+  // The files are also dropped on the objects list, so they are kept outside
+  files: FileWithPath[];
+  onFilesChange: Dispatch<SetStateAction<FileWithPath[]>>;
 }
 
 export interface FileWithPath extends File {
   path?: string;
 }
 
+const progressPollingInterval = 1000;
+
 const DropzoneContainer = styled('div')<{ $isDragActive?: boolean }>(
   ({ theme, $isDragActive }) => ({
     border: `1px dashed ${
@@ -58,19 +82,112 @@ const NoWrapListItemText = styled(ListItemText)({
   },
 });
 
+interface UploadProgressItemProps {
+  file: FileWithPath;
+  progress?: UploadProgress;
+  bucketName: string;
+  uploadId: string;
+}
+
+const UploadProgressItem: FunctionComponent<UploadProgressItemProps> = ({
+  file,
+  progress,
+  bucketName,
+  uploadId,
+}) => {
+  const { t } = useTranslation();
+  const [searchParams] = useSearchParams();
+  const { withSearchParam } = useLinkUtils();
+  // Every file has its own fetcher, so that cancelling a file
+  // does not interrupt the cancellation of another one
+  const cancelFetcher = useFetcher<typeof action>();
+  const filePath = getUploadedFilePath(file);
+  const { status = 'pending', loaded = 0, error } = progress ?? {};
+  // Small files are only reported once they are uploaded
+  const uploadedSize = status === 'uploaded' ? file.size : loaded;
+  const isCancellable =
+    (status === 'pending' || status === 'uploading') &&
+    cancelFetcher.state === 'idle' &&
+    !cancelFetcher.data;
+
+  return (
+    <ListItem
+      secondaryAction={
+        isCancellable && (
+          <IconButton
+            edge="end"
+            aria-label={t('cancel')}
+            onClick={() =>
+              cancelFetcher.submit(
+                { uploadId, file: filePath },
+                {
+                  method: 'DELETE',
+                  action: withSearchParam(
+                    'endpoint',
+                    searchParams.get('endpoint'),
+                    `/s3/buckets/${bucketName}/upload`,
+                  ),
+                },
+              )
+            }
+          >
+            <CancelIcon />
+          </IconButton>
+        )
+      }
+    >
+      <ListItemIcon>
+        <InsertDriveFileIcon />
+      </ListItemIcon>
+      <NoWrapListItemText
+        primary={filePath}
+        secondary={
+          <>
+            <LinearProgress
+              variant="determinate"
+              color={
+                status === 'failed' || status === 'cancelled'
+                  ? 'error'
+                  : 'primary'
+              }
+              value={
+                file.size
+                  ? Math.min(100, (uploadedSize / file.size) * 100)
+                  : 100
+              }
+            />
+            {`${t(status)} (${prettifySize(uploadedSize)} / ${prettifySize(file.size)})`}
+            {error && `: ${error}`}
+          </>
+        }
+        secondaryTypographyProps={{ component: 'div' }}
+      />
+    </ListItem>
+  );
+};
+
 const UploadObjectsDialog: FunctionComponent<UploadObjectsDialogProps> = ({
   open,
   bucketName,
   prefix = '',
+  files: selectedFiles,
+  onFilesChange: setSelectedFiles,
 }) => {
   const { t } = useTranslation();
+  const [searchParams] = useSearchParams();
+  const navigate = useNavigate();
   const { withSearchParam } = useLinkUtils();
-  const [selectedFiles, setSelectedFiles] = useState<FileWithPath[]>([]);
-  const submit = useSubmit();
+  const uploadFetcher = useFetcher<typeof uploadObjectsAction>();
+  const progressFetcher = useFetcher<typeof loader>();
+  // Identifies the upload whose progress is shown, if any
+  const [uploadId, setUploadId] = useState<string | null>(null);
+  const endpoint = searchParams.get('endpoint');
+  const isUploading = uploadFetcher.state !== 'idle';
   const { getRootProps, getInputProps, isDragActive } = useDropzone({
     onDrop: (acceptedFiles: FileWithPath[]) => {
       setSelectedFiles(previousFiles => [...previousFiles, ...acceptedFiles]);
     },
+    disabled: isUploading,
   });
   const { directories, files } = useMemo(
     () =>
@@ -94,31 +211,86 @@ const UploadObjectsDialog: FunctionComponent<UploadObjectsDialogProps> = ({
       ),
     [selectedFiles],
   );
+  // The final results replace the polled progress once the upload is done
+  const progressByFile = useMemo(
+    () =>
+      new Map(
+        [progressFetcher.data, uploadFetcher.data]
+          .filter(data => data && data.uploadId === uploadId)
+          .flatMap(data => data!.files)
+          .map(progress => [progress.file, progress]),
+      ),
+    [progressFetcher.data, uploadFetcher.data, uploadId],
+  );
+
+  useInterval(
+    () =>
+      progressFetcher.load(
+        withSearchParam(
+          'endpoint',
+          endpoint,
+          `/s3/buckets/${bucketName}/upload?${new URLSearchParams({
+            uploadId: uploadId ?? '',
+          })}`,
+        ),
+      ),
+    isUploading && uploadId ? progressPollingInterval : null,
+  );
+
+  useEffect(() => {
+    // Only stay on the results when some files were not uploaded
+    if (
+      uploadFetcher.state === 'idle' &&
+      uploadFetcher.data?.uploadId === uploadId &&
+      uploadFetcher.data.files.every(({ status }) => status === 'uploaded')
+    ) {
+      navigate(uploadFetcher.data.location);
+    }
+  }, [uploadFetcher.state, uploadFetcher.data, uploadId, navigate]);
+
+  useEffect(() => {
+    if (!open) {
+      setSelectedFiles([]);
+      setUploadId(null);
+    }
+  }, [open, setSelectedFiles]);
 
   const handleSubmit: FormEventHandler<HTMLFormElement> = event => {
     // The file input value is read-only, so we need to create a new FormData
     // object and append the files and their paths to it.
     // Re-adding files and folders in this way, we also make sure that the
-    // user provided prefix is sent before them, even if the text field is
-    // placed after the dropzone in the DOM.
+    // user provided prefix and tags are sent before them, even if the fields
+    // are placed after the dropzone in the DOM.
     event.preventDefault();
+    // Files that were already uploaded are not sent again on retry
+    const filesToUpload = selectedFiles.filter(
+      file =>
+        progressByFile.get(getUploadedFilePath(file))?.status !== 'uploaded',
+    );
+    // `crypto.randomUUID` is only available in secure contexts (HTTPS or localhost)
+    const nextUploadId = `${Date.now().toString(36)}-${Math.random()
+      .toString(36)
+      .slice(2)}`;
     const formData = new FormData(event.target as HTMLFormElement);
     formData.delete('paths');
     formData.delete('files');
-    selectedFiles.forEach(file => {
+    filesToUpload.forEach(file => {
       formData.append('paths', file.path ?? file.name);
       formData.append('files', file);
     });
-    submit(formData, {
-      method: (event.target as HTMLFormElement).getAttribute(
-        'method',
-      ) as HTMLFormMethod,
-      action: (event.target as HTMLFormElement).getAttribute(
-        'action',
-      ) as string,
-      encType: (event.target as HTMLFormElement).getAttribute(
-        'enctype',
-      ) as FormEncType,
+    setSelectedFiles(filesToUpload);
+    setUploadId(nextUploadId);
+    uploadFetcher.submit(formData, {
+      method: 'POST',
+      action: withSearchParam(
+        'endpoint',
+        endpoint,
+        `/s3/buckets/${bucketName}/upload?${new URLSearchParams({
+          prefix,
+          uploadId: nextUploadId,
+        })}`,
+      ),
+      encType: 'multipart/form-data',
     });
   };
 
@@ -127,79 +299,101 @@ const UploadObjectsDialog: FunctionComponent<UploadObjectsDialogProps> = ({
       open={open}
       title="Upload objects"
       content={
-        <Stack spacing={2} height={218}>
-          <DropzoneContainer $isDragActive={isDragActive} {...getRootProps()}>
-            <input {...getInputProps({ name: 'files' })} />
-            <Typography variant="body2">
-              {isDragActive
-                ? t('dropFilesToUpload')
-                : t('dragAndDropOrClickToUploadFiles')}
-            </Typography>
-          </DropzoneContainer>
-          <List
-            dense
-            sx={{ height: 124, overflowY: 'auto' }}
-            hidden={directories.length < 1 && files.length < 1}
-          >
-            {directories.map(dirName => (
-              <ListItem
-                key={dirName}
-                secondaryAction={
-                  <IconButton
-                    edge="end"
-                    aria-label={t('removeFolder')}
-                    onClick={() =>
-                      setSelectedFiles(previousFiles =>
-                        previousFiles.filter(
-                          file => !file.path?.startsWith(`/${dirName}`),
-                        ),
-                      )
-                    }
-                  >
-                    <DeleteIcon />
-                  </IconButton>
-                }
-              >
-                <ListItemIcon>
-                  <FolderIcon />
-                </ListItemIcon>
-                <NoWrapListItemText>{dirName}</NoWrapListItemText>
-              </ListItem>
-            ))}
-            {files.map(fileName => (
-              <ListItem
-                key={fileName}
-                secondaryAction={
-                  <IconButton
-                    edge="end"
-                    aria-label={t('removeFile')}
-                    onClick={() =>
-                      setSelectedFiles(previousFiles =>
-                        previousFiles.filter(file => file.name !== fileName),
-                      )
+        <Stack spacing={2}>
+          <Stack spacing={2} height={218}>
+            <DropzoneContainer $isDragActive={isDragActive} {...getRootProps()}>
+              <input {...getInputProps({ name: 'files' })} />
+              <Typography variant="body2">
+                {isDragActive
+                  ? t('dropFilesToUpload')
+                  : t('dragAndDropOrClickToUploadFiles')}
+              </Typography>
+            </DropzoneContainer>
+            <List
+              dense
+              sx={{ height: 124, overflowY: 'auto' }}
+              hidden={directories.length < 1 && files.length < 1}
+            >
+              {uploadId
+                ? selectedFiles.map(file => (
+                    <UploadProgressItem
+                      key={getUploadedFilePath(file)}
+                      file={file}
+                      progress={progressByFile.get(getUploadedFilePath(file))}
+                      bucketName={bucketName}
+                      uploadId={uploadId}
+                    />
+                  ))
+                : directories.map(dirName => (
+                    <ListItem
+                      key={dirName}
+                      secondaryAction={
+                        <IconButton
+                          edge="end"
+                          aria-label={t('removeFolder')}
+                          onClick={() =>
+                            setSelectedFiles(previousFiles =>
+                              previousFiles.filter(
+                                file => !file.path?.startsWith(`/${dirName}`),
+                              ),
+                            )
+                          }
+                        >
+                          <DeleteIcon />
+                        </IconButton>
+                      }
+                    >
+                      <ListItemIcon>
+                        <FolderIcon />
+                      </ListItemIcon>
+                      <NoWrapListItemText>{dirName}</NoWrapListItemText>
+                    </ListItem>
+                  ))}
+              {!uploadId &&
+                files.map(fileName => (
+                  <ListItem
+                    key={fileName}
+                    secondaryAction={
+                      <IconButton
+                        edge="end"
+                        aria-label={t('removeFile')}
+                        onClick={() =>
+                          setSelectedFiles(previousFiles =>
+                            previousFiles.filter(
+                              file => file.name !== fileName,
+                            ),
+                          )
+                        }
+                      >
+                        <DeleteIcon />
+                      </IconButton>
                     }
                   >
-                    <DeleteIcon />
-                  </IconButton>
-                }
-              >
-                <ListItemIcon>
-                  <InsertDriveFileIcon />
-                </ListItemIcon>
-                <NoWrapListItemText>{fileName}</NoWrapListItemText>
-              </ListItem>
-            ))}
-          </List>
-          <TextField fullWidth label={t('prefix')} name="userPrefix" />
+                    <ListItemIcon>
+                      <InsertDriveFileIcon />
+                    </ListItemIcon>
+                    <NoWrapListItemText>{fileName}</NoWrapListItemText>
+                  </ListItem>
+                ))}
+            </List>
+            <TextField fullWidth label={t('prefix')} name="userPrefix" />
+          </Stack>
+          <TagsFields maxTags={maxObjectTags} />
         </Stack>
       }
+      // Closing the dialog would hide the progress of the running upload
+      closeable={!isUploading}
       closeLink={withSearchParam('upload', null)}
       method="POST"
-      action={`/s3/buckets/${bucketName}/upload?prefix=${prefix}`}
       encType="multipart/form-data"
       onSubmit={handleSubmit as unknown as FormEventHandler<HTMLDivElement>}
       buttons={
-        <Button type="submit" variant="contained" color="secondary">
+        <Button
+          type="submit"
+          variant="contained"
+          color="secondary"
+          disabled={isUploading || selectedFiles.length < 1}
+        >
           {t('upload')}
         </Button>
       }
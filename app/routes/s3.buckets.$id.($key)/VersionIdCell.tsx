@@ -0,0 +1,33 @@
+import { FunctionComponent } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Chip, Stack, Typography } from '@mui/material';
+
+export interface VersionIdCellProps {
+  versionId?: string;
+  isLatest?: boolean;
+  isDeleteMarker?: boolean;
+}
+
+const VersionIdCell: FunctionComponent<VersionIdCellProps> = ({
+  versionId,
+  isLatest,
+  isDeleteMarker,
+}) => {
+  const { t } = useTranslation();
+
+  return (
+    <Stack direction="row" gap={0.5} alignItems="center" minWidth={0}>
+      <Typography
+        variant="body2"
+        fontFamily="'Amazon Ember Mono', monospace"
+        noWrap
+      >
+        {versionId}
+      </Typography>
+      {isLatest && <Chip size="small" color="secondary" label={t('latest')} />}
+      {isDeleteMarker && <Chip size="small" label={t('deleteMarker')} />}
+    </Stack>
+  );
+};
+
+export default VersionIdCell;
@@ -1,14 +1,13 @@
-import {
-  CopyObjectCommand,
-  DeleteObjectCommand,
-  DeleteObjectsCommand,
-  ListObjectVersionsCommand,
-  ListObjectsV2Command,
-  ObjectIdentifier,
-  S3Client,
-} from '@aws-sdk/client-s3';
-import { ActionFunctionArgs, redirect } from '@remix-run/node';
+import { ActionFunctionArgs, json, redirect } from '@remix-run/node';
 import { getAwsClient } from '~/src/aws/server';
+import {
+  BatchOperationResult,
+  copyObjects,
+  deleteAllObjectVersions,
+  deleteObjects,
+  listAllObjects,
+  mergeBatchOperationResults,
+} from '~/src/aws/s3.server';
 import { base64UrlDecode, base64UrlEncode } from '~/src/utils';
 
 export const deleteObjectsAction = async ({
@@ -17,64 +16,29 @@ export const deleteObjectsAction = async ({
 }: ActionFunctionArgs) => {
   const { searchParams } = new URL(request.url);
   const formData = await request.formData();
-  const bucket = params.id;
+  const bucket = params.id ?? '';
   const key = params.key ? base64UrlDecode(params.key) : undefined;
   const prefix = key?.slice(0, key?.lastIndexOf('/') + 1);
   const s3Client = getAwsClient('s3', searchParams.get('endpoint'));
   const objectsToDelete = formData.get('names')?.toString().split(',') ?? [];
-  const versionsToDelete = (
-    await Promise.all(
-      objectsToDelete.map(async name => {
-        const { Versions } = await s3Client.send(
-          new ListObjectVersionsCommand({
-            Bucket: bucket,
-            Prefix: name,
-          }),
-        );
-        return Versions?.filter(version => version.Key?.startsWith(name)) ?? [];
-      }),
-    )
-  ).flat() as ObjectIdentifier[];
-  const redirectPath = `/s3/buckets/${bucket}${prefix ? `/${base64UrlEncode(prefix)}` : ''}`;
-
-  if (versionsToDelete.length < 1) {
-    return redirect(redirectPath);
-  }
-
-  await s3Client.send(
-    new DeleteObjectsCommand({
-      Bucket: bucket,
-      Delete: {
-        Objects: versionsToDelete,
-      },
-    }),
+  const results = await Promise.all(
+    objectsToDelete.map(name =>
+      deleteAllObjectVersions(s3Client, bucket, name, versionKey =>
+        // Folders are deleted with everything inside them, while objects
+        // must not take other objects starting with the same name along
+        name.endsWith('/') ? versionKey.startsWith(name) : versionKey === name,
+      ),
+    ),
   );
+  const result = mergeBatchOperationResults(...results);
 
-  return redirect(redirectPath);
-};
-
-// "rename" an S3 object, i.e. copy the object to a new key and delete the old object
-const renameObject = async (
-  s3Client: S3Client,
-  bucket: string,
-  oldKey: string,
-  newKey: string,
-) => {
-  // Copy the object to the new key
-  await s3Client.send(
-    new CopyObjectCommand({
-      Bucket: bucket,
-      CopySource: `${bucket}/${oldKey}`,
-      Key: newKey,
-    }),
-  );
+  // Keep the dialog open to show the objects that could not be deleted
+  if (result.failed > 0) {
+    return json<BatchOperationResult>(result);
+  }
 
-  // Delete the old object
-  await s3Client.send(
-    new DeleteObjectCommand({
-      Bucket: bucket,
-      Key: oldKey,
-    }),
+  return redirect(
+    `/s3/buckets/${bucket}${prefix ? `/${base64UrlEncode(prefix)}` : ''}`,
   );
 };
 
@@ -97,35 +61,52 @@ export const renameObjectAction = async ({
     .replace(/^\/+|\/+$/g, '');
   // Replace the last part of the oldFullName with newName, preserving the trailing slash if it exists
   const newFullName = oldFullName.replace(/[^/]+(\/?)$/, `${newName}$1`);
+  const redirectPath = `/s3/buckets/${bucket}${prefix ? `/${base64UrlEncode(prefix)}` : ''}`;
 
   // If the new name is the same as the old name, do nothing
   if (oldFullName === newFullName) {
-    return redirect(
-      `/s3/buckets/${bucket}${prefix ? `/${base64UrlEncode(prefix)}` : ''}`,
-    );
+    return redirect(redirectPath);
   }
 
   // If the object in question is a folder, we need to rename all objects with the old prefix to the new prefix.
   // otherwise, we just need to rename the object itself.
+  // All the keys are listed before copying anything, since the new prefix
+  // might be inside the old one and the copies would be listed as well
+  const oldKeys: string[] = [];
   if (oldFullName.endsWith('/')) {
-    const listObjectsResponse = await s3Client.send(
-      new ListObjectsV2Command({
-        Bucket: bucket,
-        Prefix: oldFullName,
-      }),
-    );
-
-    await Promise.all(
-      listObjectsResponse.Contents?.map(async ({ Key }) => {
-        const newKey = Key?.replace(oldFullName, newFullName);
-        await renameObject(s3Client, bucket, Key ?? '', newKey ?? '');
-      }) ?? [],
-    );
+    for await (const objects of listAllObjects(s3Client, bucket, oldFullName)) {
+      oldKeys.push(...objects.map(({ Key }) => Key ?? ''));
+    }
   } else {
-    await renameObject(s3Client, bucket, oldFullName, newFullName);
+    oldKeys.push(oldFullName);
   }
 
-  return redirect(
-    `/s3/buckets/${bucket}${prefix ? `/${base64UrlEncode(prefix)}` : ''}`,
+  // "rename" the objects, i.e. copy them to the new keys and delete the old ones,
+  // but only if they were copied successfully
+  const copyResult = await copyObjects(
+    s3Client,
+    bucket,
+    oldKeys.map(oldKey => ({
+      sourceKey: oldKey,
+      targetKey: oldKey.replace(oldFullName, newFullName),
+    })),
   );
+  const failedKeys = new Set(copyResult.errors.map(error => error.key));
+  const deleteResult = await deleteObjects(
+    s3Client,
+    bucket,
+    oldKeys.filter(oldKey => !failedKeys.has(oldKey)).map(Key => ({ Key })),
+  );
+  const result = mergeBatchOperationResults(
+    // Only the deleted objects have been fully renamed
+    { ...copyResult, succeeded: 0 },
+    deleteResult,
+  );
+
+  // Keep the dialog open to show the objects that could not be renamed
+  if (result.failed > 0) {
+    return json<BatchOperationResult>(result);
+  }
+
+  return redirect(redirectPath);
 };
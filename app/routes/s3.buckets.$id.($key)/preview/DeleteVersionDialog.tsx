@@ -0,0 +1,43 @@
+import { FunctionComponent } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Button } from '@mui/material';
+import ConfirmationDialog from '~/src/components/ConfirmationDialog';
+import useLinkUtils from '~/src/hooks/useLinkUtils';
+
+export interface DeleteVersionDialogProps {
+  open: boolean;
+  bucketName: string;
+  encodedKey: string;
+  versionId: string;
+}
+
+const DeleteVersionDialog: FunctionComponent<DeleteVersionDialogProps> = ({
+  open,
+  bucketName,
+  encodedKey,
+  versionId,
+}) => {
+  const { t } = useTranslation();
+  const { withSearchParam, withPathname } = useLinkUtils();
+
+  return (
+    <ConfirmationDialog
+      open={open}
+      title={t('deleteVersionConfirmationTitle')}
+      content={t('deleteVersionConfirmationContent')}
+      closeLink={withSearchParam('deleteVersion', null)}
+      method="DELETE"
+      action={withPathname(`/s3/buckets/${bucketName}/${encodedKey}/versions`)}
+      buttons={
+        <>
+          <input type="hidden" name="versionId" value={versionId} />
+          <Button type="submit" variant="contained" color="error" autoFocus>
+            {t('delete')}
+          </Button>
+        </>
+      }
+    />
+  );
+};
+
+export default DeleteVersionDialog;
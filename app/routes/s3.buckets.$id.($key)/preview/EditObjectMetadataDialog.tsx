@@ -0,0 +1,130 @@
+import { FunctionComponent, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import {
+  Button,
+  Divider,
+  IconButton,
+  Stack,
+  TextField,
+  Typography,
+} from '@mui/material';
+import { Add as AddIcon, Delete as DeleteIcon } from '@mui/icons-material';
+import ConfirmationDialog from '~/src/components/ConfirmationDialog';
+import useLinkUtils from '~/src/hooks/useLinkUtils';
+import { editableObjectHeaders } from '~/src/aws/s3';
+import type { HeadObjectCommandOutput } from '@aws-sdk/client-s3';
+import type { Jsonify } from '@remix-run/server-runtime/dist/jsonify';
+
+export interface EditObjectMetadataDialogProps {
+  open: boolean;
+  bucketName: string;
+  encodedKey: string;
+  metadata: Jsonify<HeadObjectCommandOutput>;
+}
+
+const EditObjectMetadataDialog: FunctionComponent<
+  EditObjectMetadataDialogProps
+> = ({ open, bucketName, encodedKey, metadata }) => {
+  const { t } = useTranslation();
+  const { withSearchParam, withPathname } = useLinkUtils();
+  // Incremental ids used as keys, so that removing an entry does not reset
+  // the fields of the following ones
+  const [entries, setEntries] = useState(() =>
+    Object.entries(metadata.Metadata ?? {}).map(([name, value], index) => ({
+      id: index,
+      name,
+      value,
+    })),
+  );
+
+  return (
+    <ConfirmationDialog
+      open={open}
+      maxWidth="sm"
+      title={t('editMetadata')}
+      content={
+        <Stack mt={2} spacing={2}>
+          {editableObjectHeaders.map(header => (
+            <TextField
+              key={header}
+              fullWidth
+              // ContentType becomes Content-Type
+              label={header.replace(/\B([A-Z])/g, '-$1')}
+              name={header}
+              defaultValue={metadata[header] ?? ''}
+            />
+          ))}
+          <Divider />
+          <Stack
+            direction="row"
+            justifyContent="space-between"
+            alignItems="center"
+          >
+            <Typography variant="subtitle1" component="h3">
+              {t('userMetadata')}
+            </Typography>
+            <Button
+              startIcon={<AddIcon />}
+              onClick={() =>
+                setEntries(previousEntries => [
+                  ...previousEntries,
+                  {
+                    id: Math.max(0, ...previousEntries.map(({ id }) => id)) + 1,
+                    name: '',
+                    value: '',
+                  },
+                ])
+              }
+            >
+              {t('addMetadata')}
+            </Button>
+          </Stack>
+          {entries.map(entry => (
+            <Stack key={entry.id} direction="row" spacing={1}>
+              <TextField
+                fullWidth
+                required
+                label={t('key')}
+                name="metadataKey"
+                defaultValue={entry.name}
+                InputProps={{
+                  startAdornment: (
+                    <Typography variant="body2" color="text.secondary">
+                      x-amz-meta-
+                    </Typography>
+                  ),
+                }}
+              />
+              <TextField
+                fullWidth
+                label={t('value')}
+                name="metadataValue"
+                defaultValue={entry.value}
+              />
+              <IconButton
+                aria-label={t('delete')}
+                onClick={() =>
+                  setEntries(previousEntries =>
+                    previousEntries.filter(({ id }) => id !== entry.id),
+                  )
+                }
+              >
+                <DeleteIcon />
+              </IconButton>
+            </Stack>
+          ))}
+        </Stack>
+      }
+      closeLink={withSearchParam('editMetadata', null)}
+      method="PUT"
+      action={withPathname(`/s3/buckets/${bucketName}/${encodedKey}/metadata`)}
+      buttons={
+        <Button type="submit" variant="contained" color="secondary">
+          {t('save')}
+        </Button>
+      }
+    />
+  );
+};
+
+export default EditObjectMetadataDialog;
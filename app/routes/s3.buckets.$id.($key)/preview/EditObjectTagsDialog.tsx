@@ -0,0 +1,49 @@
+import { FunctionComponent } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Button, Stack } from '@mui/material';
+import ConfirmationDialog from '~/src/components/ConfirmationDialog';
+import TagsFields from '~/src/components/TagsFields';
+import useLinkUtils from '~/src/hooks/useLinkUtils';
+import { maxObjectTags } from '~/src/aws/s3';
+import type { Tag } from '@aws-sdk/client-s3';
+import type { Jsonify } from '@remix-run/server-runtime/dist/jsonify';
+
+export interface EditObjectTagsDialogProps {
+  open: boolean;
+  bucketName: string;
+  encodedKey: string;
+  tags: Jsonify<Tag>[];
+}
+
+const EditObjectTagsDialog: FunctionComponent<EditObjectTagsDialogProps> = ({
+  open,
+  bucketName,
+  encodedKey,
+  tags,
+}) => {
+  const { t } = useTranslation();
+  const { withSearchParam, withPathname } = useLinkUtils();
+
+  return (
+    <ConfirmationDialog
+      open={open}
+      maxWidth="sm"
+      title={t('editTags')}
+      content={
+        <Stack mt={2}>
+          <TagsFields defaultTags={tags} maxTags={maxObjectTags} />
+        </Stack>
+      }
+      closeLink={withSearchParam('editTags', null)}
+      method="PUT"
+      action={withPathname(`/s3/buckets/${bucketName}/${encodedKey}/tags`)}
+      buttons={
+        <Button type="submit" variant="contained" color="secondary">
+          {t('save')}
+        </Button>
+      }
+    />
+  );
+};
+
+export default EditObjectTagsDialog;
@@ -0,0 +1,94 @@
+import { FunctionComponent } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Link as RemixLink, useSearchParams } from '@remix-run/react';
+import {
+  Box,
+  Button,
+  List,
+  ListItem,
+  ListItemText,
+  Typography,
+} from '@mui/material';
+import useLinkUtils from '~/src/hooks/useLinkUtils';
+import { formatDateTime } from '~/src/utils';
+import type { HeadObjectCommandOutput } from '@aws-sdk/client-s3';
+import type { Jsonify } from '@remix-run/server-runtime/dist/jsonify';
+
+export interface ObjectMetadataPanelProps {
+  metadata?: Jsonify<HeadObjectCommandOutput>;
+}
+
+const ObjectMetadataPanel: FunctionComponent<ObjectMetadataPanelProps> = ({
+  metadata,
+}) => {
+  const { t } = useTranslation();
+  const [searchParams] = useSearchParams();
+  const { withSearchParam } = useLinkUtils();
+
+  if (!metadata) {
+    return null;
+  }
+
+  const properties = [
+    ['Content-Type', metadata.ContentType],
+    ['Content-Length', metadata.ContentLength?.toString()],
+    ['Cache-Control', metadata.CacheControl],
+    ['Content-Encoding', metadata.ContentEncoding],
+    ['Content-Disposition', metadata.ContentDisposition],
+    ['Content-Language', metadata.ContentLanguage],
+    ['Last-Modified', formatDateTime(metadata.LastModified)],
+    ['ETag', metadata.ETag],
+    ['x-amz-server-side-encryption', metadata.ServerSideEncryption],
+    ['x-amz-checksum-crc32', metadata.ChecksumCRC32],
+    ['x-amz-checksum-crc32c', metadata.ChecksumCRC32C],
+    ['x-amz-checksum-sha1', metadata.ChecksumSHA1],
+    ['x-amz-checksum-sha256', metadata.ChecksumSHA256],
+  ].filter((property): property is [string, string] => !!property[1]);
+  const userMetadata = Object.entries(metadata.Metadata ?? {});
+
+  return (
+    <Box overflow="auto" flex="1 1 auto" mt={1}>
+      <Button
+        variant="outlined"
+        // Only the latest version can be changed, since a copy is needed
+        disabled={searchParams.has('versionId')}
+        component={RemixLink}
+        to={withSearchParam('editMetadata', '')}
+      >
+        {t('editMetadata')}
+      </Button>
+      <List dense disablePadding>
+        {properties.map(([name, value]) => (
+          <ListItem key={name} disableGutters>
+            <ListItemText
+              primary={name}
+              secondary={value}
+              secondaryTypographyProps={{ sx: { wordBreak: 'break-all' } }}
+            />
+          </ListItem>
+        ))}
+      </List>
+      <Typography variant="subtitle2" component="h3" mt={1}>
+        {t('userMetadata')}
+      </Typography>
+      {userMetadata.length < 1 && (
+        <Typography variant="body2" color="text.secondary">
+          {t('noUserMetadata')}
+        </Typography>
+      )}
+      <List dense disablePadding>
+        {userMetadata.map(([name, value]) => (
+          <ListItem key={name} disableGutters>
+            <ListItemText
+              primary={`x-amz-meta-${name}`}
+              secondary={value}
+              secondaryTypographyProps={{ sx: { wordBreak: 'break-all' } }}
+            />
+          </ListItem>
+        ))}
+      </List>
+    </Box>
+  );
+};
+
+export default ObjectMetadataPanel;
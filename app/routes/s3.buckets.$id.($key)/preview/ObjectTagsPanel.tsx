@@ -0,0 +1,53 @@
+import { FunctionComponent } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Link as RemixLink } from '@remix-run/react';
+import {
+  Box,
+  Button,
+  List,
+  ListItem,
+  ListItemText,
+  Typography,
+} from '@mui/material';
+import useLinkUtils from '~/src/hooks/useLinkUtils';
+import type { Tag } from '@aws-sdk/client-s3';
+import type { Jsonify } from '@remix-run/server-runtime/dist/jsonify';
+
+export interface ObjectTagsPanelProps {
+  tags: Jsonify<Tag>[];
+}
+
+const ObjectTagsPanel: FunctionComponent<ObjectTagsPanelProps> = ({ tags }) => {
+  const { t } = useTranslation();
+  const { withSearchParam } = useLinkUtils();
+
+  return (
+    <Box overflow="auto" flex="1 1 auto" mt={1}>
+      <Button
+        variant="outlined"
+        component={RemixLink}
+        to={withSearchParam('editTags', '')}
+      >
+        {t('editTags')}
+      </Button>
+      {tags.length < 1 && (
+        <Typography variant="body2" color="text.secondary" mt={1}>
+          {t('noTagsAvailable')}
+        </Typography>
+      )}
+      <List dense disablePadding>
+        {tags.map(tag => (
+          <ListItem key={tag.Key} disableGutters>
+            <ListItemText
+              primary={tag.Key}
+              secondary={tag.Value || '-'}
+              secondaryTypographyProps={{ sx: { wordBreak: 'break-all' } }}
+            />
+          </ListItem>
+        ))}
+      </List>
+    </Box>
+  );
+};
+
+export default ObjectTagsPanel;
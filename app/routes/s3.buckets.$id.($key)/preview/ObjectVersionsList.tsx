@@ -0,0 +1,128 @@
+import { FunctionComponent } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Form, Link as RemixLink, useSearchParams } from '@remix-run/react';
+import { Box, Button, Stack, Typography } from '@mui/material';
+import useLinkUtils from '~/src/hooks/useLinkUtils';
+import { formatDateTime, prettifySize } from '~/src/utils';
+import VersionIdCell from '../VersionIdCell';
+import type { ListedObjectVersion } from '~/src/aws/s3.server';
+import type { Jsonify } from '@remix-run/server-runtime/dist/jsonify';
+
+export interface ObjectVersionsListProps {
+  bucketName: string;
+  encodedKey: string;
+  versions: Jsonify<ListedObjectVersion>[];
+}
+
+const ObjectVersionsList: FunctionComponent<ObjectVersionsListProps> = ({
+  bucketName,
+  encodedKey,
+  versions,
+}) => {
+  const { t } = useTranslation();
+  const [searchParams] = useSearchParams();
+  const { withSearchParam, withSearchParams, withPathname } = useLinkUtils();
+  const currentVersionId = searchParams.get('versionId');
+
+  if (versions.length < 1) {
+    return (
+      <Typography variant="body2" color="text.secondary" mt={2}>
+        {t('noVersionsAvailable')}
+      </Typography>
+    );
+  }
+
+  return (
+    <Box overflow="auto" flex="1 1 auto" mt={1}>
+      {versions.map(version => {
+        const isViewed = currentVersionId
+          ? version.VersionId === currentVersionId
+          : version.IsLatest;
+        return (
+          <Stack
+            key={version.VersionId}
+            py={1}
+            gap={0.5}
+            borderBottom={1}
+            borderColor="divider"
+          >
+            <VersionIdCell
+              versionId={version.VersionId}
+              isLatest={version.IsLatest}
+              isDeleteMarker={version.IsDeleteMarker}
+            />
+            <Typography variant="caption" color="text.secondary">
+              {formatDateTime(version.LastModified)}
+              {!version.IsDeleteMarker && ` · ${prettifySize(version.Size)}`}
+            </Typography>
+            <Stack direction="row" gap={1}>
+              {!version.IsDeleteMarker && (
+                <>
+                  <Button
+                    size="small"
+                    disabled={isViewed}
+                    component={RemixLink}
+                    to={withSearchParams(previousParams => {
+                      previousParams.delete('tab');
+                      if (version.IsLatest) {
+                        previousParams.delete('versionId');
+                      } else {
+                        previousParams.set('versionId', version.VersionId!);
+                      }
+                      return previousParams;
+                    })}
+                  >
+                    {t('view')}
+                  </Button>
+                  <Button
+                    size="small"
+                    component="a"
+                    href={withSearchParam(
+                      'versionId',
+                      version.VersionId ?? null,
+                      withSearchParam(
+                        'endpoint',
+                        searchParams.get('endpoint'),
+                        `/s3/buckets/${bucketName}/${encodedKey}/download`,
+                      ),
+                    )}
+                    download
+                  >
+                    {t('download')}
+                  </Button>
+                </>
+              )}
+              {!version.IsLatest && !version.IsDeleteMarker && (
+                <Form
+                  method="POST"
+                  action={withPathname(
+                    `/s3/buckets/${bucketName}/${encodedKey}/versions`,
+                  )}
+                >
+                  <input
+                    type="hidden"
+                    name="versionId"
+                    value={version.VersionId}
+                  />
+                  <Button size="small" type="submit">
+                    {t('restore')}
+                  </Button>
+                </Form>
+              )}
+              <Button
+                size="small"
+                color="error"
+                component={RemixLink}
+                to={withSearchParam('deleteVersion', version.VersionId ?? null)}
+              >
+                {t('delete')}
+              </Button>
+            </Stack>
+          </Stack>
+        );
+      })}
+    </Box>
+  );
+};
+
+export default ObjectVersionsList;
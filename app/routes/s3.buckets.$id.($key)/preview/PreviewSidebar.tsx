@@ -4,17 +4,30 @@ import { Link as RemixLink, useSearchParams } from '@remix-run/react';
 import {
   Button,
   Stack,
+  Tab,
+  Tabs,
   unstable_useEnhancedEffect as useEnhancedEffect,
   styled,
 } from '@mui/material';
-import { Download as DownloadIcon } from '@mui/icons-material';
+import {
+  Download as DownloadIcon,
+  Share as ShareIcon,
+} from '@mui/icons-material';
 import { base64UrlDecode, base64UrlEncode } from '~/src/utils';
 import useLinkUtils from '~/src/hooks/useLinkUtils';
 import type { PreviewElementProps } from './PreviewElement';
-import type { _Object } from '@aws-sdk/client-s3';
+import type { HeadObjectCommandOutput, Tag, _Object } from '@aws-sdk/client-s3';
 import type { Jsonify } from '@remix-run/server-runtime/dist/jsonify';
 import Placeholder from '~/src/components/Placeholder';
 import Sidebar from '~/src/components/Sidebar';
+import type { ListedObjectVersion } from '~/src/aws/s3.server';
+import ObjectVersionsList from './ObjectVersionsList';
+import DeleteVersionDialog from './DeleteVersionDialog';
+import ObjectMetadataPanel from './ObjectMetadataPanel';
+import EditObjectMetadataDialog from './EditObjectMetadataDialog';
+import ObjectTagsPanel from './ObjectTagsPanel';
+import EditObjectTagsDialog from './EditObjectTagsDialog';
+import PresignedUrlDialog from '../PresignedUrlDialog';
 
 const PreviewElement = lazy(() => import('./PreviewElement'));
 
@@ -28,6 +41,9 @@ export interface PreviewSidebarProps {
   object: Jsonify<EnrichedObject>;
   encodedKey: string;
   prefix?: string;
+  versions: Jsonify<ListedObjectVersion>[];
+  metadata?: Jsonify<HeadObjectCommandOutput>;
+  tags: Jsonify<Tag>[];
 }
 
 const InlinePreviewElement = styled(PreviewElement)<
@@ -44,6 +60,9 @@ const PreviewSidebar: FunctionComponent<PreviewSidebarProps> = ({
   object,
   encodedKey,
   prefix = '',
+  versions,
+  metadata,
+  tags,
 }) => {
   const { t } = useTranslation();
   const [previewElementProps, setPreviewElementProps] = useState<
@@ -51,6 +70,11 @@ const PreviewSidebar: FunctionComponent<PreviewSidebarProps> = ({
   >(undefined);
   const [searchParams] = useSearchParams();
   const isFullscreen = searchParams.has('fullscreen');
+  const versionId = searchParams.get('versionId');
+  // t('preview') t('metadata') t('tags') t('versions')
+  const tabs = ['preview', 'metadata', 'tags', 'versions'];
+  const tab =
+    tabs.find(tabName => tabName === searchParams.get('tab')) ?? 'preview';
   const { withSearchParam, withPathname } = useLinkUtils();
 
   useEnhancedEffect(() => {
@@ -83,7 +107,7 @@ const PreviewSidebar: FunctionComponent<PreviewSidebarProps> = ({
         URL.revokeObjectURL(url);
       }
     };
-  }, [object?.Key, object?.BucketName, encodedKey]);
+  }, [object?.Key, object?.BucketName, encodedKey, versionId]);
 
   return (
     <Sidebar
@@ -114,11 +138,41 @@ const PreviewSidebar: FunctionComponent<PreviewSidebarProps> = ({
           >
             {t('download')}
           </Button>
+          <Button
+            component={RemixLink}
+            to={withSearchParam('share', '')}
+            startIcon={<ShareIcon />}
+          >
+            {t('share')}
+          </Button>
           <Button component={RemixLink} to={withSearchParam('delete', '')}>
             {t('delete')}
           </Button>
         </Stack>
-        {previewElementProps && (
+        <Tabs value={tab} variant="scrollable" sx={{ flex: '0 0 auto', mt: 1 }}>
+          {tabs.map(tabName => (
+            <Tab
+              key={tabName}
+              value={tabName}
+              label={t(tabName)}
+              component={RemixLink}
+              to={withSearchParam(
+                'tab',
+                tabName === 'preview' ? null : tabName,
+              )}
+            />
+          ))}
+        </Tabs>
+        {tab === 'metadata' && <ObjectMetadataPanel metadata={metadata} />}
+        {tab === 'tags' && <ObjectTagsPanel tags={tags} />}
+        {tab === 'versions' && (
+          <ObjectVersionsList
+            bucketName={object.BucketName ?? ''}
+            encodedKey={encodedKey}
+            versions={versions}
+          />
+        )}
+        {tab === 'preview' && previewElementProps && (
           <Placeholder>
             <InlinePreviewElement
               $isFullscreen={isFullscreen}
@@ -127,6 +181,40 @@ const PreviewSidebar: FunctionComponent<PreviewSidebarProps> = ({
           </Placeholder>
         )}
       </Stack>
+      <DeleteVersionDialog
+        open={searchParams.has('deleteVersion')}
+        bucketName={object.BucketName ?? ''}
+        encodedKey={encodedKey}
+        versionId={searchParams.get('deleteVersion') ?? ''}
+      />
+      <PresignedUrlDialog
+        // Forgets the URL generated for the previously selected object
+        key={`${object.Key} ${versionId}`}
+        open={searchParams.has('share')}
+        bucketName={object.BucketName ?? ''}
+        closeLink={withSearchParam('share', null)}
+        methods={['GET']}
+        defaultKey={object.Key}
+        versionId={versionId}
+      />
+      <EditObjectTagsDialog
+        // Resets the fields once the changes are saved
+        key={JSON.stringify(tags)}
+        open={searchParams.has('editTags')}
+        bucketName={object.BucketName ?? ''}
+        encodedKey={encodedKey}
+        tags={tags}
+      />
+      {metadata && (
+        <EditObjectMetadataDialog
+          // Resets the fields once the changes are saved
+          key={metadata.LastModified}
+          open={searchParams.has('editMetadata')}
+          bucketName={object.BucketName ?? ''}
+          encodedKey={encodedKey}
+          metadata={metadata}
+        />
+      )}
     </Sidebar>
   );
 };
@@ -1,7 +1,10 @@
-import { useMemo, useRef } from 'react';
+import { useEffect, useMemo, useState } from 'react';
 import { useTranslation } from 'react-i18next';
 import { useDropzone } from 'react-dropzone-esm';
 import {
+  GetBucketVersioningCommand,
+  GetObjectTaggingCommand,
+  HeadObjectCommand,
   ListObjectsV2Command,
   CommonPrefix,
   _Object,
@@ -12,14 +15,13 @@ import {
   LoaderFunctionArgs,
   redirect,
 } from '@remix-run/node';
-import { HTMLFormMethod, FormEncType } from '@remix-run/router';
 import {
   useParams,
   useLoaderData,
   Link as RemixLink,
   useRevalidator,
-  Form,
-  useSubmit,
+  useFetcher,
+  useNavigate,
   useSearchParams,
 } from '@remix-run/react';
 import {
@@ -31,13 +33,18 @@ import {
   IconButton,
   styled,
   Box,
+  FormControlLabel,
+  Switch,
+  Alert,
 } from '@mui/material';
 import {
   Upload as UploadIcon,
   Refresh as RefreshIcon,
   Clear as ClearIcon,
+  NavigateBefore as NavigateBeforeIcon,
+  NavigateNext as NavigateNextIcon,
 } from '@mui/icons-material';
-import DataGrid from '~/src/components/DataGrid';
+import DataGrid, { GridColDef } from '~/src/components/DataGrid';
 import useFuzzySearch from '~/src/hooks/useFuzzySearch';
 import {
   base64UrlDecode,
@@ -49,15 +56,27 @@ import {
 } from '~/src/utils';
 import CurrentPath from '~/src/components/CurrentPath';
 import { getAwsClient } from '~/src/aws/server';
+import {
+  ListedObjectVersion,
+  listKeyVersions,
+  listObjectVersionsPage,
+} from '~/src/aws/s3.server';
 import { s3StorageClassToNameMap } from '~/src/aws/common';
 import TableOverlay from '~/src/components/TableOverlay';
 import PreviewSidebar from './preview/PreviewSidebar';
 import useLinkUtils from '~/src/hooks/useLinkUtils';
 import CreateFolderDialog from './CreateFolderDialog';
-import UploadObjectsDialog from './UploadObjectsDialog';
+import UploadObjectsDialog, { FileWithPath } from './UploadObjectsDialog';
+import PresignedUrlDialog from './PresignedUrlDialog';
 import DeleteObjectsDialog from './DeleteObjectsDialog';
 import RenameObjectDialog from './RenameObjectDialog';
 import { deleteObjectsAction, renameObjectAction } from './actions';
+import VersionIdCell from './VersionIdCell';
+import type { loader as countLoader } from '../s3.buckets.$id.count/route';
+import type { action as settingsAction } from '../s3.buckets.$id.settings/route';
+
+// The maximum number of keys returned by S3 in a single request
+const maxKeysPerPage = 1000;
 
 const SearchField = styled(TextField)({
   'input[type="search"]::-webkit-search-cancel-button': {
@@ -81,7 +100,7 @@ const DropOverlay = styled('div')(({ theme, hidden }) => ({
   backgroundColor: theme.vars.palette.background.default,
 }));
 
-const DroppableForm = styled(Form)<{ $isDragActive?: boolean }>({
+const DroppableContainer = styled('div')({
   height: '100%',
   position: 'relative',
 });
@@ -91,12 +110,31 @@ export const loader = async ({ request, params }: LoaderFunctionArgs) => {
   const key = params.key ? base64UrlDecode(params.key) : undefined;
   const prefix = key?.slice(0, key?.lastIndexOf('/') + 1);
   const s3Client = getAwsClient('s3', searchParams.get('endpoint'));
-  const listObjectsResponse = await s3Client.send(
-    new ListObjectsV2Command({
-      Bucket: params.id,
-      Prefix: prefix,
-      Delimiter: '/',
-    }),
+  const showVersions = searchParams.has('versions');
+  const versionId = searchParams.get('versionId');
+  // Every visited page appends its continuation token, so that we can go back
+  // to the previous page by simply removing the last one
+  const continuationTokens = searchParams.getAll('continuationToken');
+  const continuationToken = continuationTokens[continuationTokens.length - 1];
+  const listObjectsResponse = showVersions
+    ? await listObjectVersionsPage(
+        s3Client,
+        params.id ?? '',
+        prefix,
+        maxKeysPerPage,
+        continuationToken,
+      ).then(({ Versions, ...page }) => ({ ...page, Contents: Versions }))
+    : await s3Client.send(
+        new ListObjectsV2Command({
+          Bucket: params.id,
+          Prefix: prefix,
+          Delimiter: '/',
+          MaxKeys: maxKeysPerPage,
+          ContinuationToken: continuationToken,
+        }),
+      );
+  const { Status: versioningStatus } = await s3Client.send(
+    new GetBucketVersioningCommand({ Bucket: params.id }),
   );
   // AWS simulates folders by creating empty objects that end with a slash,
   // so we do the same and consider them folders instead of objects
@@ -105,8 +143,12 @@ export const loader = async ({ request, params }: LoaderFunctionArgs) => {
     ...(listObjectsResponse.Contents?.filter(
       obj => obj.Key?.endsWith('/') && obj.Key !== prefix,
     ).map<CommonPrefix>(obj => ({ Prefix: obj.Key })) ?? []),
-  ];
-  const objects: _Object[] =
+  ].filter(
+    // Every version of a folder object would be listed otherwise
+    (folder, index, allFolders) =>
+      allFolders.findIndex(other => other.Prefix === folder.Prefix) === index,
+  );
+  const objects: (_Object & Partial<ListedObjectVersion>)[] =
     listObjectsResponse.Contents?.filter(obj => !obj.Key?.endsWith('/')) ?? [];
   const enrichedResponse = {
     ...listObjectsResponse,
@@ -123,13 +165,55 @@ export const loader = async ({ request, params }: LoaderFunctionArgs) => {
       BaseName: obj.Key?.replace(prefix ?? '', ''),
     })),
   };
+  const selectedKey = !!key && !key.endsWith('/') ? key : undefined;
+  const selectedObject = selectedKey
+    ? enrichedResponse.Contents.find(
+        obj =>
+          obj.Key === selectedKey &&
+          // When listing versions, the selected version is the one to show
+          (!showVersions ||
+            (versionId ? obj.VersionId === versionId : obj.IsLatest)),
+      )
+    : undefined;
+  // The versions, the metadata and the tags of the selected object are only
+  // needed when the corresponding tab is open
+  const tab = searchParams.get('tab');
+  const selectedObjectVersions =
+    selectedKey && tab === 'versions'
+      ? await listKeyVersions(s3Client, params.id ?? '', selectedKey)
+      : [];
+  const selectedObjectMetadata =
+    selectedKey && tab === 'metadata' && !selectedObject?.IsDeleteMarker
+      ? await s3Client.send(
+          new HeadObjectCommand({
+            Bucket: params.id,
+            Key: selectedKey,
+            VersionId: versionId || undefined,
+            ChecksumMode: 'ENABLED',
+          }),
+        )
+      : undefined;
+  const selectedObjectTags =
+    selectedKey && tab === 'tags' && !selectedObject?.IsDeleteMarker
+      ? await s3Client
+          .send(
+            new GetObjectTaggingCommand({
+              Bucket: params.id,
+              Key: selectedKey,
+              VersionId: versionId || undefined,
+            }),
+          )
+          .then(({ TagSet }) => TagSet ?? [])
+      : [];
   return json({
     directories: enrichedResponse.CommonPrefixes,
     objects: enrichedResponse.Contents,
-    selectedObject:
-      !!key && !key.endsWith('/')
-        ? enrichedResponse.Contents.find(obj => obj.Key === key)
-        : undefined,
+    nextContinuationToken: listObjectsResponse.NextContinuationToken,
+    versioningStatus,
+    selectedObject,
+    selectedObjectVersions,
+    selectedObjectMetadata,
+    selectedObjectTags,
   });
 };
 
@@ -154,13 +238,21 @@ export default function BucketDetails() {
   const { id, key: rawKey } = useParams();
   const mergedSegments = rawKey ? base64UrlDecode(rawKey) : undefined;
   const segments = mergedSegments?.split('/').filter(Boolean) ?? [];
-  const { directories, objects, selectedObject } =
-    useLoaderData<typeof loader>();
+  const {
+    directories,
+    objects,
+    nextContinuationToken,
+    versioningStatus,
+    selectedObject,
+    selectedObjectVersions,
+    selectedObjectMetadata,
+    selectedObjectTags,
+  } = useLoaderData<typeof loader>();
   const decodedBaseDir = selectedObject?.DirName ?? mergedSegments ?? '';
   const mergedContent = useMemo<
     ((typeof directories)[number] & (typeof objects)[number])[]
   >(() => [...directories, ...objects], [directories, objects]);
-  const submit = useSubmit();
+  const navigate = useNavigate();
   const [searchParams, setSearchParams] = useSearchParams();
   const selectedObjects = searchParams.get('selection')?.split(',') ?? [];
   const search = searchParams.get('search') ?? '';
@@ -168,36 +260,75 @@ export default function BucketDetails() {
     keys: ['BaseName'],
     includeMatches: true,
   });
-  const { withSearchParam, withPathname } = useLinkUtils();
+  const { withSearchParam, withSearchParams, withPathname } = useLinkUtils();
   const { revalidate } = useRevalidator();
-  const formRef = useRef<HTMLFormElement | null>(null);
+  const countFetcher = useFetcher<typeof countLoader>();
+  const versioningFetcher = useFetcher<typeof settingsAction>();
+  const endpoint = searchParams.get('endpoint');
+  const showVersions = searchParams.has('versions');
+  const totalCount = countFetcher.data
+    ? countFetcher.data.folders + countFetcher.data.objects
+    : undefined;
+  // Other folders start from their first page
+  const withFolderPathname = (pathname: string) =>
+    withSearchParams(previousParams => {
+      previousParams.delete('continuationToken');
+      previousParams.delete('versionId');
+      return previousParams;
+    }, withPathname(pathname));
+  const toggleVersionsLink = withSearchParams(previousParams => {
+    ['versions', 'versionId', 'continuationToken', 'selection'].forEach(param =>
+      previousParams.delete(param),
+    );
+    if (!showVersions) {
+      previousParams.set('versions', '');
+    }
+    return previousParams;
+  });
+  // The optimistic status, so that the switch does not flicker
+  const isVersioningEnabled = versioningFetcher.formData
+    ? versioningFetcher.formData.has('enabled')
+    : versioningStatus === 'Enabled';
+  const previousPageLink = withSearchParams(previousParams => {
+    const continuationTokens = previousParams.getAll('continuationToken');
+    previousParams.delete('continuationToken');
+    continuationTokens
+      .slice(0, -1)
+      .forEach(token => previousParams.append('continuationToken', token));
+    return previousParams;
+  });
+  const nextPageLink = withSearchParams(previousParams => {
+    previousParams.append('continuationToken', nextContinuationToken ?? '');
+    return previousParams;
+  });
+  const hasPreviousPage = searchParams.has('continuationToken');
+  const [uploadFiles, setUploadFiles] = useState<FileWithPath[]>([]);
   const { getRootProps, getInputProps, isDragActive } = useDropzone({
     noClick: true,
-    onDrop: (
-      acceptedFiles: (File & { path?: string })[],
-      _rejectedFiles,
-      event,
-    ) => {
-      if (!formRef.current) {
-        return;
-      }
-      // The file input value is read-only, so we need to create a new FormData
-      // object and append the files and their paths to it.
-      event.preventDefault();
-      const formData = new FormData(formRef.current);
-      formData.delete('files');
-      acceptedFiles.forEach(file => {
-        formData.append('paths', file.path ?? file.name);
-        formData.append('files', file);
-      });
-      submit(formData, {
-        method: formRef.current.getAttribute('method') as HTMLFormMethod,
-        action: formRef.current.getAttribute('action') as string,
-        encType: formRef.current.getAttribute('enctype') as FormEncType,
-      });
+    // The dropped files are added to the upload dialog,
+    // where their progress is shown
+    onDrop: (acceptedFiles: FileWithPath[]) => {
+      setUploadFiles(previousFiles => [...previousFiles, ...acceptedFiles]);
+      navigate(withSearchParam('upload', ''));
     },
   });
 
+  useEffect(() => {
+    // The fetcher is revalidated along with the page after every action,
+    // so it only needs to be loaded again when the folder changes
+    countFetcher.load(
+      withSearchParam(
+        'endpoint',
+        endpoint,
+        `/s3/buckets/${id}/count?${new URLSearchParams({
+          prefix: decodedBaseDir,
+          ...(showVersions && { versions: '' }),
+        })}`,
+      ),
+    );
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [id, decodedBaseDir, endpoint, showVersions]);
+
   return (
     <>
       {/* t('buckets') */}
@@ -208,12 +339,12 @@ export default function BucketDetails() {
           {
             key: id!,
             name: id!,
-            to: withPathname(`/s3/buckets/${id}`),
+            to: withFolderPathname(`/s3/buckets/${id}`),
           },
           ...segments.map(segment => ({
             key: segment,
             name: segment,
-            to: withPathname(
+            to: withFolderPathname(
               `/s3/buckets/${id}/${base64UrlEncode(
                 mergedSegments?.slice(
                   0,
@@ -231,12 +362,66 @@ export default function BucketDetails() {
           alignItems="center"
         >
           <Typography variant="h5" component="h2" gutterBottom>
-            {t('objects')} ({mergedContent.length})
+            {showVersions ? t('versions') : t('objects')} (
+            {totalCount ?? mergedContent.length})
           </Typography>
           <Stack direction="row" gap={1}>
+            <FormControlLabel
+              control={
+                <Switch
+                  checked={isVersioningEnabled}
+                  onChange={event =>
+                    versioningFetcher.submit(
+                      {
+                        section: 'versioning',
+                        ...(event.target.checked && { enabled: '' }),
+                      },
+                      {
+                        method: 'PUT',
+                        action: withSearchParam(
+                          'endpoint',
+                          endpoint,
+                          `/s3/buckets/${id}/settings`,
+                        ),
+                      },
+                    )
+                  }
+                />
+              }
+              label={t('versioning')}
+            />
             <Button onClick={revalidate}>
               <RefreshIcon />
             </Button>
+            <Button
+              component={RemixLink}
+              to={withSearchParam(
+                'endpoint',
+                endpoint,
+                `/s3/buckets/${id}/settings`,
+              )}
+            >
+              {t('settings')}
+            </Button>
+            <Button component={RemixLink} to={toggleVersionsLink}>
+              {showVersions ? t('hideVersions') : t('showVersions')}
+            </Button>
+            <Button
+              component={RemixLink}
+              to={previousPageLink}
+              disabled={!hasPreviousPage}
+              aria-label={t('previousPage')}
+            >
+              <NavigateBeforeIcon />
+            </Button>
+            <Button
+              component={RemixLink}
+              to={nextPageLink}
+              disabled={!nextContinuationToken}
+              aria-label={t('nextPage')}
+            >
+              <NavigateNextIcon />
+            </Button>
             <Button
               component={RemixLink}
               to={withSearchParam('delete', '')}
@@ -251,12 +436,31 @@ export default function BucketDetails() {
             >
               {t('rename')}
             </Button>
+            <Button
+              component="a"
+              href={withSearchParam(
+                'endpoint',
+                endpoint,
+                `/s3/buckets/${id}/zip?${new URLSearchParams({
+                  prefix: decodedBaseDir,
+                  ...(selectedObjects.length > 0 && {
+                    selection: selectedObjects.join(','),
+                  }),
+                })}`,
+              )}
+              download
+            >
+              {t('downloadZip')}
+            </Button>
             <Button
               component={RemixLink}
               to={withSearchParam('create-folder', '')}
             >
               Create folder
             </Button>
+            <Button component={RemixLink} to={withSearchParam('presign', '')}>
+              {t('presignedUpload')}
+            </Button>
             <Button
               variant="contained"
               color="secondary"
@@ -268,6 +472,13 @@ export default function BucketDetails() {
             </Button>
           </Stack>
         </Stack>
+        {/* A rejected change of the versioning leaves the switch as it was */}
+        {versioningFetcher.state === 'idle' &&
+          versioningFetcher.data?.error && (
+            <Alert severity="error" sx={{ mb: 2 }}>
+              {versioningFetcher.data.error}
+            </Alert>
+          )}
         <div>
           <SearchField
             type="search"
@@ -305,19 +516,12 @@ export default function BucketDetails() {
         </div>
       </Stack>
       <Box position="relative" height="calc(100vh - 270px)">
-        <DroppableForm
-          method="POST"
-          action={`/s3/buckets/${id}/upload?prefix=${decodedBaseDir}`}
-          encType="multipart/form-data"
-          ref={formRef}
-        >
+        <DroppableContainer>
           <DropOverlay hidden={!isDragActive}>
             <UploadIcon fontSize="large" />
             <Typography>{t('dropFilesToUpload')}</Typography>
           </DropOverlay>
-          <input type="hidden" name="baseDir" value={decodedBaseDir} />
-          <input type="hidden" name="paths" />
-          <input {...getInputProps({ name: 'files' })} />
+          <input {...getInputProps()} />
           <DataGrid
             isRowSelectable={params =>
               !selectedObject || params.row.item.Key === selectedObject.Key
@@ -345,20 +549,39 @@ export default function BucketDetails() {
                     params.row.item.Key &&
                     selectedObjects.length === 1 &&
                     selectedObjects[0] === rowKey;
-                  const linkPathname = withPathname(
+                  const linkPathname = (
+                    params.row.item.Prefix ? withFolderPathname : withPathname
+                  )(
                     `/s3/buckets/${id}/${base64UrlEncode(
                       isRowOnlySelected ? decodedBaseDir : rowKey,
                     )}`,
                   );
+                  // Delete markers have no content to preview
+                  if (params.row.item.IsDeleteMarker) {
+                    return highlightMatches(
+                      params.row.item.BaseName ?? '',
+                      params.row.matches?.[0]?.indices,
+                    );
+                  }
                   return (
                     <Link
-                      to={withSearchParam(
-                        'selection',
-                        isRowOnlySelected || params.row.item.Prefix
-                          ? null
-                          : rowKey,
-                        linkPathname,
-                      )}
+                      to={
+                        showVersions
+                          ? withSearchParam(
+                              'versionId',
+                              (!params.row.item.IsLatest &&
+                                params.row.item.VersionId) ||
+                                null,
+                              linkPathname,
+                            )
+                          : withSearchParam(
+                              'selection',
+                              isRowOnlySelected || params.row.item.Prefix
+                                ? null
+                                : rowKey,
+                              linkPathname,
+                            )
+                      }
                       color="secondary"
                       component={RemixLink}
                       unstable_viewTransition
@@ -373,6 +596,26 @@ export default function BucketDetails() {
                 sortable: !search,
                 flex: 1,
               },
+              ...(showVersions
+                ? [
+                    {
+                      field: 'versionId',
+                      headerName: t('versionId'),
+                      renderCell: params =>
+                        params.row.item.Key ? (
+                          <VersionIdCell
+                            versionId={params.row.item.VersionId}
+                            isLatest={params.row.item.IsLatest}
+                            isDeleteMarker={params.row.item.IsDeleteMarker}
+                          />
+                        ) : (
+                          '-'
+                        ),
+                      sortable: !search,
+                      width: 300,
+                    } as GridColDef<(typeof searchResults)[number]>,
+                  ]
+                : []),
               {
                 field: 'type',
                 headerName: t('type'),
@@ -410,8 +653,13 @@ export default function BucketDetails() {
                 width: 150,
               },
             ]}
-            getRowId={row => row.item.Key ?? row.item.Prefix ?? ''}
-            checkboxSelection
+            getRowId={row =>
+              showVersions && row.item.Key
+                ? `${row.item.Key}\n${row.item.VersionId}`
+                : row.item.Key ?? row.item.Prefix ?? ''
+            }
+            // Bulk operations apply to whole objects, not to single versions
+            checkboxSelection={!showVersions}
             disableRowSelectionOnClick
             slots={{ noRowsOverlay: TableOverlay }}
             slotProps={{
@@ -421,7 +669,7 @@ export default function BucketDetails() {
               }),
             }}
           />
-        </DroppableForm>
+        </DroppableContainer>
         <CreateFolderDialog
           open={searchParams.has('create-folder')}
           bucketName={id!}
@@ -431,6 +679,16 @@ export default function BucketDetails() {
           open={searchParams.has('upload')}
           bucketName={id!}
           prefix={decodedBaseDir}
+          files={uploadFiles}
+          onFilesChange={setUploadFiles}
+        />
+        <PresignedUrlDialog
+          open={searchParams.has('presign')}
+          bucketName={id!}
+          closeLink={withSearchParam('presign', null)}
+          methods={['PUT', 'POST']}
+          defaultKey={decodedBaseDir}
+          keyEditable
         />
         <DeleteObjectsDialog
           open={searchParams.has('delete') && selectedObjects.length > 0}
@@ -446,6 +704,9 @@ export default function BucketDetails() {
           object={selectedObject}
           encodedKey={rawKey!}
           prefix={decodedBaseDir}
+          versions={selectedObjectVersions}
+          metadata={selectedObjectMetadata}
+          tags={selectedObjectTags}
         />
       )}
     </>
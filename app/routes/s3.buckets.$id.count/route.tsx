@@ -0,0 +1,62 @@
+import { ListObjectsV2Command } from '@aws-sdk/client-s3';
+import { LoaderFunctionArgs, json } from '@remix-run/node';
+import { getAwsClient } from '~/src/aws/server';
+import { listObjectVersionsPage } from '~/src/aws/s3.server';
+
+export type CountObjectsResult = {
+  folders: number;
+  objects: number;
+};
+
+// Counting requires listing every key under the prefix, so it is done
+// separately from the object list, which only needs the current page
+export const loader = async ({ request, params }: LoaderFunctionArgs) => {
+  const { searchParams } = new URL(request.url);
+  const s3Client = getAwsClient('s3', searchParams.get('endpoint'));
+  const prefix = searchParams.get('prefix') ?? '';
+  const result: CountObjectsResult = { folders: 0, objects: 0 };
+  let continuationToken: string | undefined;
+
+  // Every version and delete marker is counted when listing versions
+  if (searchParams.has('versions')) {
+    do {
+      const { CommonPrefixes, Versions, NextContinuationToken } =
+        await listObjectVersionsPage(
+          s3Client,
+          params.id ?? '',
+          prefix || undefined,
+          1000,
+          continuationToken,
+        );
+      result.folders += CommonPrefixes.length;
+      result.objects += Versions.filter(
+        version => !version.Key?.endsWith('/'),
+      ).length;
+      continuationToken = NextContinuationToken;
+    } while (continuationToken);
+    return json(result);
+  }
+
+  do {
+    const { CommonPrefixes, Contents, NextContinuationToken } =
+      await s3Client.send(
+        new ListObjectsV2Command({
+          Bucket: params.id,
+          Prefix: prefix || undefined,
+          Delimiter: '/',
+          ContinuationToken: continuationToken,
+        }),
+      );
+    // Empty objects ending with a slash are considered folders,
+    // in the same way as the object list does
+    const folderObjects =
+      Contents?.filter(obj => obj.Key?.endsWith('/') && obj.Key !== prefix) ??
+      [];
+    result.folders += (CommonPrefixes?.length ?? 0) + folderObjects.length;
+    result.objects +=
+      Contents?.filter(obj => !obj.Key?.endsWith('/')).length ?? 0;
+    continuationToken = NextContinuationToken;
+  } while (continuationToken);
+
+  return json(result);
+};
@@ -0,0 +1,61 @@
+import { GetObjectCommand, PutObjectCommand } from '@aws-sdk/client-s3';
+import { getSignedUrl } from '@aws-sdk/s3-request-presigner';
+import { createPresignedPost } from '@aws-sdk/s3-presigned-post';
+import { ActionFunctionArgs, json } from '@remix-run/node';
+import { getAwsClient } from '~/src/aws/server';
+import {
+  PresignedRequest,
+  defaultPresignedUrlExpiration,
+  maxPresignedUrlExpiration,
+} from '~/src/aws/s3';
+
+export async function action({ request, params }: ActionFunctionArgs) {
+  const { searchParams } = new URL(request.url);
+  const formData = await request.formData();
+  // The URL is signed using the endpoint and the credentials of the client,
+  // so that it works against the same S3-compatible service
+  const s3Client = getAwsClient('s3', searchParams.get('endpoint'));
+  const bucket = params.id ?? '';
+  const key = formData.get('key')?.toString() ?? '';
+  const versionId = formData.get('versionId')?.toString() || undefined;
+  const expiresIn = Math.min(
+    Number(formData.get('expiresIn')?.toString()) ||
+      defaultPresignedUrlExpiration,
+    maxPresignedUrlExpiration,
+  );
+
+  switch (formData.get('method')) {
+    case 'PUT':
+      return json<PresignedRequest>({
+        method: 'PUT',
+        key,
+        url: await getSignedUrl(
+          s3Client,
+          new PutObjectCommand({ Bucket: bucket, Key: key }),
+          { expiresIn },
+        ),
+      });
+    case 'POST': {
+      const { url, fields } = await createPresignedPost(s3Client, {
+        Bucket: bucket,
+        Key: key,
+        Expires: expiresIn,
+      });
+      return json<PresignedRequest>({ method: 'POST', key, url, fields });
+    }
+    default:
+      return json<PresignedRequest>({
+        method: 'GET',
+        key,
+        url: await getSignedUrl(
+          s3Client,
+          new GetObjectCommand({
+            Bucket: bucket,
+            Key: key,
+            VersionId: versionId,
+          }),
+          { expiresIn },
+        ),
+      });
+  }
+}
@@ -0,0 +1,56 @@
+import { FunctionComponent, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { TextField } from '@mui/material';
+import SettingsSection, { SettingsSectionProps } from './SettingsSection';
+
+export interface JsonSettingsSectionProps
+  extends Omit<SettingsSectionProps, 'deletable' | 'saveDisabled'> {
+  defaultValue: string;
+  placeholder?: string;
+}
+
+const isValidJson = (value: string) => {
+  try {
+    JSON.parse(value);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * A settings section for the configurations that are edited as raw JSON.
+ */
+const JsonSettingsSection: FunctionComponent<JsonSettingsSectionProps> = ({
+  defaultValue,
+  placeholder,
+  ...props
+}) => {
+  const { t } = useTranslation();
+  const [value, setValue] = useState(defaultValue);
+  const isValid = isValidJson(value);
+
+  return (
+    <SettingsSection
+      {...props}
+      deletable={!!defaultValue}
+      saveDisabled={!isValid}
+    >
+      <TextField
+        fullWidth
+        multiline
+        minRows={6}
+        maxRows={24}
+        name="value"
+        value={value}
+        placeholder={placeholder}
+        onChange={event => setValue(event.target.value)}
+        error={!!value && !isValid}
+        helperText={!!value && !isValid ? t('invalidJson') : undefined}
+        InputProps={{ sx: { fontFamily: "'Amazon Ember Mono', monospace" } }}
+      />
+    </SettingsSection>
+  );
+};
+
+export default JsonSettingsSection;
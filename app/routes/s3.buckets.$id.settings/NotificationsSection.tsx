@@ -0,0 +1,198 @@
+import { FunctionComponent, useId, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import {
+  Button,
+  Checkbox,
+  Divider,
+  FormControl,
+  FormControlLabel,
+  IconButton,
+  InputLabel,
+  MenuItem,
+  Select,
+  Stack,
+  TextField,
+  Typography,
+} from '@mui/material';
+import { Add as AddIcon, Delete as DeleteIcon } from '@mui/icons-material';
+import SettingsSection from './SettingsSection';
+import type { QueueConfiguration } from '@aws-sdk/client-s3';
+import type { QueueWithArn } from '~/src/aws/sqs.server';
+import type { Jsonify } from '@remix-run/server-runtime/dist/jsonify';
+
+const eventTypes = [
+  's3:ObjectCreated:*',
+  's3:ObjectCreated:Put',
+  's3:ObjectCreated:Post',
+  's3:ObjectCreated:Copy',
+  's3:ObjectCreated:CompleteMultipartUpload',
+  's3:ObjectRemoved:*',
+  's3:ObjectRemoved:Delete',
+  's3:ObjectRemoved:DeleteMarkerCreated',
+];
+
+export interface NotificationsSectionProps {
+  bucket: string;
+  notifications: Jsonify<QueueConfiguration>[];
+  queues: QueueWithArn[];
+}
+
+const getFilterRule = (
+  notification: Jsonify<QueueConfiguration> | undefined,
+  name: 'prefix' | 'suffix',
+) =>
+  notification?.Filter?.Key?.FilterRules?.find(
+    rule => rule.Name?.toLowerCase() === name,
+  )?.Value;
+
+const NotificationFields: FunctionComponent<{
+  notification?: Jsonify<QueueConfiguration>;
+  queues: QueueWithArn[];
+  onRemove: () => void;
+}> = ({ notification, queues, onRemove }) => {
+  const { t } = useTranslation();
+  const queueLabelId = useId();
+  const eventsLabelId = useId();
+  const [events, setEvents] = useState<string[]>(
+    notification?.Events ?? ['s3:ObjectCreated:*'],
+  );
+  // The queue might not be listed, e.g. if it was deleted in the meantime
+  const isUnknownQueue =
+    !!notification?.QueueArn &&
+    !queues.some(({ QueueArn }) => QueueArn === notification.QueueArn);
+
+  return (
+    <Stack spacing={2}>
+      <input type="hidden" name="notificationId" value={notification?.Id} />
+      <Stack direction="row" spacing={1}>
+        <FormControl fullWidth required>
+          <InputLabel id={queueLabelId}>{t('queue')}</InputLabel>
+          <Select
+            labelId={queueLabelId}
+            size="small"
+            label={t('queue')}
+            name="queueArn"
+            defaultValue={notification?.QueueArn ?? queues[0]?.QueueArn ?? ''}
+          >
+            {queues.map(queue => (
+              <MenuItem key={queue.QueueArn} value={queue.QueueArn}>
+                {queue.QueueName}
+              </MenuItem>
+            ))}
+            {isUnknownQueue && (
+              <MenuItem value={notification.QueueArn}>
+                {notification.QueueArn}
+              </MenuItem>
+            )}
+          </Select>
+        </FormControl>
+        <IconButton aria-label={t('delete')} onClick={onRemove}>
+          <DeleteIcon />
+        </IconButton>
+      </Stack>
+      <FormControl fullWidth required>
+        <InputLabel id={eventsLabelId}>{t('events')}</InputLabel>
+        <Select
+          labelId={eventsLabelId}
+          size="small"
+          label={t('events')}
+          name="events"
+          multiple
+          value={events}
+          onChange={event =>
+            setEvents(
+              typeof event.target.value === 'string'
+                ? event.target.value.split(',')
+                : event.target.value,
+            )
+          }
+        >
+          {eventTypes.map(eventType => (
+            <MenuItem key={eventType} value={eventType}>
+              {eventType}
+            </MenuItem>
+          ))}
+        </Select>
+      </FormControl>
+      <Stack direction="row" spacing={1}>
+        <TextField
+          fullWidth
+          label={t('prefix')}
+          name="prefix"
+          defaultValue={getFilterRule(notification, 'prefix')}
+        />
+        <TextField
+          fullWidth
+          label={t('suffix')}
+          name="suffix"
+          defaultValue={getFilterRule(notification, 'suffix')}
+        />
+      </Stack>
+      <Divider />
+    </Stack>
+  );
+};
+
+/**
+ * The section used to send the events of the bucket to SQS queues.
+ */
+const NotificationsSection: FunctionComponent<NotificationsSectionProps> = ({
+  bucket,
+  notifications,
+  queues,
+}) => {
+  const { t } = useTranslation();
+  // Incremental ids used as keys, so that removing a notification does not
+  // reset the fields of the following ones
+  const [entries, setEntries] = useState<
+    { id: number; notification?: Jsonify<QueueConfiguration> }[]
+  >(() => notifications.map((notification, id) => ({ id, notification })));
+
+  return (
+    <SettingsSection
+      bucket={bucket}
+      section="notifications"
+      deletable={notifications.length > 0}
+    >
+      {queues.length < 1 && (
+        <Typography variant="body2" color="text.secondary">
+          {t('noQueuesOnEndpoint')}
+        </Typography>
+      )}
+      {entries.map(({ id, notification }) => (
+        <NotificationFields
+          key={id}
+          notification={notification}
+          queues={queues}
+          onRemove={() =>
+            setEntries(previousEntries =>
+              previousEntries.filter(entry => entry.id !== id),
+            )
+          }
+        />
+      ))}
+      <Stack direction="row" justifyContent="space-between" alignItems="center">
+        <FormControlLabel
+          control={<Checkbox name="allowNotifications" defaultChecked />}
+          label={t('allowNotificationsHint')}
+        />
+        <Button
+          startIcon={<AddIcon />}
+          disabled={queues.length < 1}
+          onClick={() =>
+            setEntries(previousEntries => [
+              ...previousEntries,
+              {
+                id: Math.max(0, ...previousEntries.map(entry => entry.id)) + 1,
+              },
+            ])
+          }
+        >
+          {t('addNotification')}
+        </Button>
+      </Stack>
+    </SettingsSection>
+  );
+};
+
+export default NotificationsSection;
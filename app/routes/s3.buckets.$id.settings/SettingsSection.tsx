@@ -0,0 +1,84 @@
+import { FunctionComponent, PropsWithChildren } from 'react';
+import { useTranslation } from 'react-i18next';
+import { useFetcher, useSearchParams } from '@remix-run/react';
+import {
+  Alert,
+  Button,
+  Card,
+  CardActions,
+  CardContent,
+  CardHeader,
+  Stack,
+} from '@mui/material';
+import useLinkUtils from '~/src/hooks/useLinkUtils';
+import type { BucketSettingsSection, bucketSettingsAction } from './actions';
+
+export interface SettingsSectionProps {
+  bucket: string;
+  section: BucketSettingsSection;
+  // Whether the configuration is currently set and can be deleted
+  deletable?: boolean;
+  saveDisabled?: boolean;
+}
+
+/**
+ * A card containing the form used to edit a single configuration of a bucket.
+ * Every section has its own fetcher, so that errors are shown next to the
+ * configuration that caused them.
+ */
+const SettingsSection: FunctionComponent<
+  PropsWithChildren<SettingsSectionProps>
+> = ({ bucket, section, deletable, saveDisabled, children }) => {
+  const { t } = useTranslation();
+  const [searchParams] = useSearchParams();
+  const { withSearchParam } = useLinkUtils();
+  const fetcher = useFetcher<typeof bucketSettingsAction>();
+  const action = withSearchParam(
+    'endpoint',
+    searchParams.get('endpoint'),
+    `/s3/buckets/${bucket}/settings`,
+  );
+
+  return (
+    <Card
+      variant="outlined"
+      component={fetcher.Form}
+      method="PUT"
+      action={action}
+    >
+      <CardHeader title={t(section)} titleTypographyProps={{ variant: 'h6' }} />
+      <CardContent>
+        <Stack gap={2}>
+          <input type="hidden" name="section" value={section} />
+          {children}
+          {fetcher.data?.error && (
+            <Alert severity="error">{fetcher.data.error}</Alert>
+          )}
+        </Stack>
+      </CardContent>
+      <CardActions sx={{ justifyContent: 'flex-end' }}>
+        {deletable && (
+          <Button
+            color="error"
+            disabled={fetcher.state !== 'idle'}
+            onClick={() =>
+              fetcher.submit({ section }, { method: 'DELETE', action })
+            }
+          >
+            {t('delete')}
+          </Button>
+        )}
+        <Button
+          type="submit"
+          variant="contained"
+          color="secondary"
+          disabled={saveDisabled || fetcher.state !== 'idle'}
+        >
+          {t('save')}
+        </Button>
+      </CardActions>
+    </Card>
+  );
+};
+
+export default SettingsSection;
@@ -0,0 +1,279 @@
+import {
+  CORSRule,
+  DeleteBucketCorsCommand,
+  DeleteBucketEncryptionCommand,
+  DeleteBucketLifecycleCommand,
+  DeleteBucketPolicyCommand,
+  DeletePublicAccessBlockCommand,
+  Event,
+  FilterRule,
+  GetBucketNotificationConfigurationCommand,
+  LifecycleRule,
+  PutBucketCorsCommand,
+  PutBucketEncryptionCommand,
+  PutBucketLifecycleConfigurationCommand,
+  PutBucketNotificationConfigurationCommand,
+  PutBucketPolicyCommand,
+  PutBucketVersioningCommand,
+  PutPublicAccessBlockCommand,
+  QueueConfiguration,
+  ServerSideEncryption,
+} from '@aws-sdk/client-s3';
+import { ActionFunctionArgs, json } from '@remix-run/node';
+import type { TFunction } from 'i18next';
+import { useServerTranslation } from '~/i18next.server';
+import { getAwsClient, getSiblingAwsClient } from '~/src/aws/server';
+import { allowBucketNotifications } from '~/src/aws/sqs.server';
+import type { ServiceClient } from '~/src/aws/server';
+
+// t('bucketPolicy') t('cors') t('lifecycle') t('defaultEncryption')
+// t('publicAccessBlock') t('versioning') t('notifications')
+export type BucketSettingsSection =
+  | 'bucketPolicy'
+  | 'cors'
+  | 'lifecycle'
+  | 'defaultEncryption'
+  | 'publicAccessBlock'
+  | 'versioning'
+  | 'notifications';
+
+export type BucketSettingsActionResult = {
+  section: BucketSettingsSection;
+  error?: string;
+};
+
+const publicAccessBlockSettings = [
+  'BlockPublicAcls',
+  'IgnorePublicAcls',
+  'BlockPublicPolicy',
+  'RestrictPublicBuckets',
+] as const;
+
+const parseJsonArray = <T>(formData: FormData, t: TFunction): T[] => {
+  const value = JSON.parse(formData.get('value')?.toString() ?? '');
+  if (!Array.isArray(value)) {
+    throw new Error(t('rulesMustBeJsonArray'));
+  }
+  return value;
+};
+
+/**
+ * Parses the queue notifications defined using the `NotificationsSection`
+ * component, where every field is repeated once per notification.
+ */
+const parseQueueConfigurations = (formData: FormData): QueueConfiguration[] => {
+  const ids = formData.getAll('notificationId');
+  const events = formData.getAll('events');
+  const prefixes = formData.getAll('prefix');
+  const suffixes = formData.getAll('suffix');
+  return formData.getAll('queueArn').map((queueArn, index) => {
+    const filterRules: FilterRule[] = [
+      { Name: 'prefix' as const, Value: prefixes[index]?.toString().trim() },
+      { Name: 'suffix' as const, Value: suffixes[index]?.toString().trim() },
+    ].filter(({ Value }) => Value);
+    return {
+      Id: ids[index]?.toString() || undefined,
+      QueueArn: queueArn.toString(),
+      // Multiple selects send their values joined by commas
+      Events: (events[index]?.toString().split(',').filter(Boolean) ??
+        []) as Event[],
+      Filter:
+        filterRules.length > 0
+          ? { Key: { FilterRules: filterRules } }
+          : undefined,
+    };
+  });
+};
+
+const putQueueConfigurations = async (
+  s3Client: ServiceClient<'s3'>,
+  Bucket: string,
+  queueConfigurations: QueueConfiguration[],
+) => {
+  // Only the queues are edited, so every other destination is kept as is
+  const {
+    TopicConfigurations,
+    LambdaFunctionConfigurations,
+    EventBridgeConfiguration,
+  } = await s3Client.send(
+    new GetBucketNotificationConfigurationCommand({ Bucket }),
+  );
+  await s3Client.send(
+    new PutBucketNotificationConfigurationCommand({
+      Bucket,
+      NotificationConfiguration: {
+        TopicConfigurations,
+        LambdaFunctionConfigurations,
+        EventBridgeConfiguration,
+        QueueConfigurations: queueConfigurations,
+      },
+    }),
+  );
+};
+
+const updateBucketSettings = async (
+  s3Client: ServiceClient<'s3'>,
+  Bucket: string,
+  section: BucketSettingsSection,
+  formData: FormData,
+  endpoint: string | null,
+  t: TFunction,
+) => {
+  switch (section) {
+    case 'bucketPolicy': {
+      const policy = formData.get('value')?.toString() ?? '';
+      // Validate the policy before sending it, to get a clearer error
+      JSON.parse(policy);
+      await s3Client.send(
+        new PutBucketPolicyCommand({ Bucket, Policy: policy }),
+      );
+      return;
+    }
+    case 'cors':
+      await s3Client.send(
+        new PutBucketCorsCommand({
+          Bucket,
+          CORSConfiguration: {
+            CORSRules: parseJsonArray<CORSRule>(formData, t),
+          },
+        }),
+      );
+      return;
+    case 'lifecycle':
+      await s3Client.send(
+        new PutBucketLifecycleConfigurationCommand({
+          Bucket,
+          LifecycleConfiguration: {
+            Rules: parseJsonArray<LifecycleRule>(formData, t),
+          },
+        }),
+      );
+      return;
+    case 'defaultEncryption': {
+      const algorithm = formData.get('sseAlgorithm') as ServerSideEncryption;
+      await s3Client.send(
+        new PutBucketEncryptionCommand({
+          Bucket,
+          ServerSideEncryptionConfiguration: {
+            Rules: [
+              {
+                ApplyServerSideEncryptionByDefault: {
+                  SSEAlgorithm: algorithm,
+                  // The key is only allowed when using KMS
+                  KMSMasterKeyID:
+                    (algorithm !== 'AES256' &&
+                      formData.get('kmsMasterKeyId')?.toString().trim()) ||
+                    undefined,
+                },
+                BucketKeyEnabled: formData.has('bucketKeyEnabled'),
+              },
+            ],
+          },
+        }),
+      );
+      return;
+    }
+    case 'publicAccessBlock':
+      await s3Client.send(
+        new PutPublicAccessBlockCommand({
+          Bucket,
+          PublicAccessBlockConfiguration: Object.fromEntries(
+            publicAccessBlockSettings.map(setting => [
+              setting,
+              formData.has(setting),
+            ]),
+          ),
+        }),
+      );
+      return;
+    case 'versioning':
+      // Versioning cannot be disabled once enabled, only suspended
+      await s3Client.send(
+        new PutBucketVersioningCommand({
+          Bucket,
+          VersioningConfiguration: {
+            Status: formData.has('enabled') ? 'Enabled' : 'Suspended',
+          },
+        }),
+      );
+      return;
+    case 'notifications': {
+      const queueConfigurations = parseQueueConfigurations(formData);
+      // S3 checks that it can send messages to the queues before saving
+      // the configuration, so the policies must be updated first
+      const sqsClient = getSiblingAwsClient('sqs', 's3', endpoint);
+      if (formData.has('allowNotifications') && sqsClient) {
+        const queueArns = new Set(
+          formData.getAll('queueArn').map(queueArn => queueArn.toString()),
+        );
+        for (const queueArn of queueArns) {
+          await allowBucketNotifications(sqsClient, queueArn, Bucket);
+        }
+      }
+      await putQueueConfigurations(s3Client, Bucket, queueConfigurations);
+      return;
+    }
+  }
+};
+
+const deleteBucketSettings = async (
+  s3Client: ServiceClient<'s3'>,
+  Bucket: string,
+  section: BucketSettingsSection,
+) => {
+  switch (section) {
+    case 'bucketPolicy':
+      await s3Client.send(new DeleteBucketPolicyCommand({ Bucket }));
+      return;
+    case 'cors':
+      await s3Client.send(new DeleteBucketCorsCommand({ Bucket }));
+      return;
+    case 'lifecycle':
+      await s3Client.send(new DeleteBucketLifecycleCommand({ Bucket }));
+      return;
+    case 'defaultEncryption':
+      await s3Client.send(new DeleteBucketEncryptionCommand({ Bucket }));
+      return;
+    case 'publicAccessBlock':
+      await s3Client.send(new DeletePublicAccessBlockCommand({ Bucket }));
+      return;
+    case 'notifications':
+      await putQueueConfigurations(s3Client, Bucket, []);
+      return;
+  }
+};
+
+export const bucketSettingsAction = async ({
+  request,
+  params,
+}: ActionFunctionArgs) => {
+  const { searchParams } = new URL(request.url);
+  const formData = await request.formData();
+  const s3Client = getAwsClient('s3', searchParams.get('endpoint'));
+  const bucket = params.id ?? '';
+  const section = formData.get('section') as BucketSettingsSection;
+  const { t } = await useServerTranslation(request);
+
+  try {
+    if (request.method === 'DELETE') {
+      await deleteBucketSettings(s3Client, bucket, section);
+    } else {
+      await updateBucketSettings(
+        s3Client,
+        bucket,
+        section,
+        formData,
+        searchParams.get('endpoint'),
+        t,
+      );
+    }
+  } catch (error) {
+    // Keep the editor open to show why the configuration was rejected
+    return json<BucketSettingsActionResult>({
+      section,
+      error: (error as Error).message,
+    });
+  }
+
+  return json<BucketSettingsActionResult>({ section });
+};
@@ -0,0 +1,339 @@
+import { FunctionComponent, useId, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import {
+  GetBucketCorsCommand,
+  GetBucketEncryptionCommand,
+  GetBucketLifecycleConfigurationCommand,
+  GetBucketNotificationConfigurationCommand,
+  GetBucketPolicyCommand,
+  GetBucketVersioningCommand,
+  GetPublicAccessBlockCommand,
+  ServerSideEncryption,
+} from '@aws-sdk/client-s3';
+import { ActionFunctionArgs, json } from '@remix-run/node';
+import { useLoaderData, useParams } from '@remix-run/react';
+import {
+  FormControl,
+  FormControlLabel,
+  InputLabel,
+  MenuItem,
+  Select,
+  Stack,
+  Switch,
+  TextField,
+  Typography,
+} from '@mui/material';
+import CurrentPath from '~/src/components/CurrentPath';
+import useLinkUtils from '~/src/hooks/useLinkUtils';
+import { getAwsClient, getSiblingAwsClient } from '~/src/aws/server';
+import { QueueWithArn, listQueuesWithArns } from '~/src/aws/sqs.server';
+import { computeTitle, ignoreSearchChanges } from '~/src/utils';
+import SettingsSection from './SettingsSection';
+import JsonSettingsSection from './JsonSettingsSection';
+import NotificationsSection from './NotificationsSection';
+import { bucketSettingsAction } from './actions';
+import type { LoaderFunctionArgs, MetaFunction } from '@remix-run/node';
+import { useServerTranslation } from '~/i18next.server';
+
+// S3 fails instead of returning an empty configuration when it is not set,
+// while some S3-compatible services do not implement every configuration
+const missingConfigurationErrors = [
+  'NoSuchBucketPolicy',
+  'NoSuchCORSConfiguration',
+  'NoSuchLifecycleConfiguration',
+  'ServerSideEncryptionConfigurationNotFoundError',
+  'NoSuchPublicAccessBlockConfiguration',
+  'NotImplemented',
+];
+
+const ignoreMissingConfiguration = <T,>(
+  promise: Promise<T>,
+): Promise<T | undefined> =>
+  promise.catch(error => {
+    if (missingConfigurationErrors.includes((error as Error).name)) {
+      return undefined;
+    }
+    throw error;
+  });
+
+const formatJson = (value: unknown) =>
+  value === undefined ? '' : JSON.stringify(value, null, 2);
+
+export const loader = async ({ request, params }: LoaderFunctionArgs) => {
+  const { searchParams } = new URL(request.url);
+  const s3Client = getAwsClient('s3', searchParams.get('endpoint'));
+  // Notifications can only be sent to the queues of the same endpoint
+  const sqsClient = getSiblingAwsClient(
+    'sqs',
+    's3',
+    searchParams.get('endpoint'),
+  );
+  const Bucket = params.id;
+  const [
+    { t },
+    policy,
+    cors,
+    lifecycle,
+    encryption,
+    publicAccessBlock,
+    versioning,
+    notifications,
+    queues,
+  ] = await Promise.all([
+    useServerTranslation(request),
+    ignoreMissingConfiguration(
+      s3Client.send(new GetBucketPolicyCommand({ Bucket })),
+    ),
+    ignoreMissingConfiguration(
+      s3Client.send(new GetBucketCorsCommand({ Bucket })),
+    ),
+    ignoreMissingConfiguration(
+      s3Client.send(new GetBucketLifecycleConfigurationCommand({ Bucket })),
+    ),
+    ignoreMissingConfiguration(
+      s3Client.send(new GetBucketEncryptionCommand({ Bucket })),
+    ),
+    ignoreMissingConfiguration(
+      s3Client.send(new GetPublicAccessBlockCommand({ Bucket })),
+    ),
+    s3Client.send(new GetBucketVersioningCommand({ Bucket })),
+    s3Client.send(new GetBucketNotificationConfigurationCommand({ Bucket })),
+    // The SQS endpoint might be configured without running, which should
+    // only leave the notifications without queues to choose from
+    sqsClient
+      ? listQueuesWithArns(sqsClient).catch(() => [] as QueueWithArn[])
+      : ([] as QueueWithArn[]),
+  ]);
+  const encryptionRule =
+    encryption?.ServerSideEncryptionConfiguration?.Rules?.[0];
+
+  return json({
+    meta: { titleParts: [t('buckets'), Bucket, t('settings')] },
+    policy: policy?.Policy ? formatJson(JSON.parse(policy.Policy)) : '',
+    corsRules: formatJson(cors?.CORSRules),
+    lifecycleRules: formatJson(lifecycle?.Rules),
+    encryption: encryptionRule && {
+      sseAlgorithm:
+        encryptionRule.ApplyServerSideEncryptionByDefault?.SSEAlgorithm,
+      kmsMasterKeyId:
+        encryptionRule.ApplyServerSideEncryptionByDefault?.KMSMasterKeyID,
+      bucketKeyEnabled: !!encryptionRule.BucketKeyEnabled,
+    },
+    publicAccessBlock: publicAccessBlock?.PublicAccessBlockConfiguration,
+    versioningStatus: versioning.Status,
+    queueNotifications: notifications.QueueConfigurations ?? [],
+    queues,
+  });
+};
+
+export const shouldRevalidate = ignoreSearchChanges;
+
+export const meta: MetaFunction<typeof loader> = ({ data }) => [
+  computeTitle('S3', ...(data?.meta.titleParts || [])),
+];
+
+export const action = (args: ActionFunctionArgs) => bucketSettingsAction(args);
+
+// t('blockPublicAcls') t('ignorePublicAcls') t('blockPublicPolicy')
+// t('restrictPublicBuckets')
+const publicAccessBlockSettings = {
+  BlockPublicAcls: 'blockPublicAcls',
+  IgnorePublicAcls: 'ignorePublicAcls',
+  BlockPublicPolicy: 'blockPublicPolicy',
+  RestrictPublicBuckets: 'restrictPublicBuckets',
+};
+
+const EncryptionFields: FunctionComponent<{
+  sseAlgorithm?: ServerSideEncryption;
+  kmsMasterKeyId?: string;
+  bucketKeyEnabled?: boolean;
+}> = ({ sseAlgorithm = 'AES256', kmsMasterKeyId, bucketKeyEnabled }) => {
+  const { t } = useTranslation();
+  const labelId = useId();
+  const [algorithm, setAlgorithm] = useState(sseAlgorithm);
+
+  return (
+    <>
+      <FormControl fullWidth>
+        <InputLabel id={labelId}>{t('encryption')}</InputLabel>
+        <Select
+          labelId={labelId}
+          size="small"
+          label={t('encryption')}
+          name="sseAlgorithm"
+          value={algorithm}
+          onChange={event =>
+            setAlgorithm(event.target.value as ServerSideEncryption)
+          }
+        >
+          <MenuItem value="AES256">SSE-S3 (AES256)</MenuItem>
+          <MenuItem value="aws:kms">SSE-KMS (aws:kms)</MenuItem>
+          <MenuItem value="aws:kms:dsse">DSSE-KMS (aws:kms:dsse)</MenuItem>
+        </Select>
+      </FormControl>
+      {algorithm !== 'AES256' && (
+        <>
+          <TextField
+            fullWidth
+            label={t('kmsKeyId')}
+            helperText={t('s3KmsKeyIdHint')}
+            name="kmsMasterKeyId"
+            defaultValue={kmsMasterKeyId}
+          />
+          <FormControlLabel
+            control={
+              <Switch
+                name="bucketKeyEnabled"
+                defaultChecked={bucketKeyEnabled}
+              />
+            }
+            label={t('bucketKey')}
+          />
+        </>
+      )}
+    </>
+  );
+};
+
+const BucketSettings: FunctionComponent = () => {
+  const { t } = useTranslation();
+  const { id } = useParams();
+  const {
+    policy,
+    corsRules,
+    lifecycleRules,
+    encryption,
+    publicAccessBlock,
+    versioningStatus,
+    queueNotifications,
+    queues,
+  } = useLoaderData<typeof loader>();
+  const { withPathname } = useLinkUtils();
+  const bucket = id!;
+
+  return (
+    <>
+      {/* t('buckets') t('settings') */}
+      <CurrentPath
+        items={[
+          's3',
+          'buckets',
+          {
+            key: bucket,
+            name: bucket,
+            to: withPathname(`/s3/buckets/${bucket}`),
+          },
+          'settings',
+        ]}
+      />
+      <Stack p={2} gap={2}>
+        <Typography variant="h5" component="h2">
+          {t('bucketSettings')}
+        </Typography>
+        <SettingsSection bucket={bucket} section="versioning">
+          <FormControlLabel
+            // Reset the switch once the new status is loaded
+            key={versioningStatus}
+            control={
+              <Switch
+                name="enabled"
+                defaultChecked={versioningStatus === 'Enabled'}
+              />
+            }
+            label={t('enabled')}
+          />
+        </SettingsSection>
+        <SettingsSection
+          bucket={bucket}
+          section="publicAccessBlock"
+          deletable={!!publicAccessBlock}
+        >
+          <Stack key={JSON.stringify(publicAccessBlock)}>
+            {Object.entries(publicAccessBlockSettings).map(
+              ([setting, label]) => (
+                <FormControlLabel
+                  key={setting}
+                  control={
+                    <Switch
+                      name={setting}
+                      defaultChecked={
+                        !!publicAccessBlock?.[
+                          setting as keyof typeof publicAccessBlockSettings
+                        ]
+                      }
+                    />
+                  }
+                  label={t(label)}
+                />
+              ),
+            )}
+          </Stack>
+        </SettingsSection>
+        <SettingsSection
+          bucket={bucket}
+          section="defaultEncryption"
+          deletable={!!encryption}
+        >
+          <EncryptionFields
+            key={JSON.stringify(encryption)}
+            sseAlgorithm={encryption?.sseAlgorithm}
+            kmsMasterKeyId={encryption?.kmsMasterKeyId}
+            bucketKeyEnabled={encryption?.bucketKeyEnabled}
+          />
+        </SettingsSection>
+        <NotificationsSection
+          key={JSON.stringify(queueNotifications)}
+          bucket={bucket}
+          notifications={queueNotifications}
+          queues={queues}
+        />
+        <JsonSettingsSection
+          key={`policy-${policy}`}
+          bucket={bucket}
+          section="bucketPolicy"
+          defaultValue={policy}
+          placeholder={formatJson({
+            Version: '2012-10-17',
+            Statement: [
+              {
+                Effect: 'Allow',
+                Principal: '*',
+                Action: 's3:GetObject',
+                Resource: `arn:aws:s3:::${bucket}/*`,
+              },
+            ],
+          })}
+        />
+        <JsonSettingsSection
+          key={`cors-${corsRules}`}
+          bucket={bucket}
+          section="cors"
+          defaultValue={corsRules}
+          placeholder={formatJson([
+            {
+              AllowedMethods: ['GET', 'PUT', 'POST'],
+              AllowedOrigins: ['*'],
+              AllowedHeaders: ['*'],
+            },
+          ])}
+        />
+        <JsonSettingsSection
+          key={`lifecycle-${lifecycleRules}`}
+          bucket={bucket}
+          section="lifecycle"
+          defaultValue={lifecycleRules}
+          placeholder={formatJson([
+            {
+              ID: 'expire-tmp',
+              Status: 'Enabled',
+              Filter: { Prefix: 'tmp/' },
+              Expiration: { Days: 7 },
+            },
+          ])}
+        />
+      </Stack>
+    </>
+  );
+};
+
+export default BucketSettings;
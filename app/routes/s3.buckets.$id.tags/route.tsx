@@ -0,0 +1,20 @@
+import { GetBucketTaggingCommand } from '@aws-sdk/client-s3';
+import { LoaderFunctionArgs, json } from '@remix-run/node';
+import { getAwsClient } from '~/src/aws/server';
+
+export const loader = async ({ request, params }: LoaderFunctionArgs) => {
+  const { searchParams } = new URL(request.url);
+  const s3Client = getAwsClient('s3', searchParams.get('endpoint'));
+  try {
+    const { TagSet } = await s3Client.send(
+      new GetBucketTaggingCommand({ Bucket: params.id }),
+    );
+    return json({ tags: TagSet ?? [] });
+  } catch (error) {
+    // S3 fails instead of returning an empty set when there are no tags
+    if ((error as Error).name === 'NoSuchTagSet') {
+      return json({ tags: [] });
+    }
+    throw error;
+  }
+};
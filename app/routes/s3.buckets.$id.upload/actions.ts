@@ -0,0 +1,134 @@
+import { randomUUID } from 'node:crypto';
+import { PassThrough } from 'node:stream';
+import { Upload } from '@aws-sdk/lib-storage';
+import {
+  ActionFunctionArgs,
+  json,
+  unstable_parseMultipartFormData,
+  writeAsyncIterableToWritable,
+} from '@remix-run/node';
+import { getAwsClient } from '~/src/aws/server';
+import type { Tag } from '@aws-sdk/client-s3';
+import { base64UrlEncode } from '~/src/utils';
+import { getUploadTracker, trackUpload } from './progress.server';
+
+const textDecoder = new TextDecoder();
+
+export const uploadObjectsAction = async ({
+  request,
+  params,
+}: ActionFunctionArgs) => {
+  const { searchParams } = new URL(request.url);
+  const s3Client = getAwsClient('s3', searchParams.get('endpoint'));
+  const prefixParts = [
+    searchParams
+      .get('prefix')
+      ?.trim()
+      // Remove leading and trailing slashes
+      .replace(/^\/+|\/+$/g, ''),
+  ];
+
+  // Every file is sent right after its path
+  let nextPath: string | undefined;
+  // The tags are applied to every uploaded file
+  const tags: Tag[] = [];
+
+  const uploadId = searchParams.get('uploadId') ?? randomUUID();
+  const files = await trackUpload(uploadId, async tracker => {
+    await unstable_parseMultipartFormData(
+      request,
+      async ({ name, contentType, data, filename }) => {
+        if (name === 'userPrefix') {
+          for await (const userPrefixData of data) {
+            const decodedUserPrefix = textDecoder.decode(userPrefixData);
+            prefixParts.push(
+              decodedUserPrefix
+                .trim()
+                // Remove leading and trailing slashes
+                .replace(/^\/+|\/+$/g, ''),
+            );
+          }
+        }
+        if (name === 'tagKey' || name === 'tagValue') {
+          let decodedTagData = '';
+          for await (const tagData of data) {
+            decodedTagData += textDecoder.decode(tagData, { stream: true });
+          }
+          // Every value is sent right after its key
+          if (name === 'tagKey') {
+            tags.push({ Key: decodedTagData.trim(), Value: '' });
+          } else if (tags.length > 0) {
+            tags[tags.length - 1].Value = decodedTagData;
+          }
+          return null;
+        }
+        if (name === 'paths') {
+          nextPath = '';
+          for await (const pathData of data) {
+            nextPath += textDecoder.decode(pathData, { stream: true });
+          }
+          nextPath = nextPath.replace(/^\/+/, '');
+          return null;
+        }
+
+        if (name !== 'files' || !filename) {
+          return null;
+        }
+
+        const file = nextPath || filename;
+        nextPath = undefined;
+        const stream = new PassThrough();
+        const writePromise = writeAsyncIterableToWritable(data, stream);
+        const key = [...prefixParts, file].filter(Boolean).join('/');
+
+        if (tracker.isCancelled(file)) {
+          // The file must still be read to get to the following ones
+          stream.resume();
+          await writePromise;
+          tracker.finish(file, key);
+          return null;
+        }
+
+        const multipartUpload = new Upload({
+          client: s3Client,
+          params: {
+            Bucket: params.id,
+            Key: key,
+            Body: stream,
+            ContentType: contentType,
+          },
+          tags: tags.filter(({ Key }) => Key),
+        });
+        tracker.start(file, key, multipartUpload);
+
+        try {
+          await multipartUpload.done();
+          tracker.finish(file, key);
+        } catch (error) {
+          // A failed file must not stop the upload of the following ones
+          stream.resume();
+          tracker.finish(file, key, error as Error);
+        }
+        await writePromise;
+
+        return null;
+      },
+    );
+    return tracker.files;
+  });
+
+  const finalPrefix = prefixParts.filter(Boolean).join('/');
+  const endpoint = searchParams.get('endpoint');
+  return json({
+    uploadId,
+    files,
+    location: `/s3/buckets/${params.id}${finalPrefix ? `/${base64UrlEncode(`${finalPrefix}/`)}` : ''}${endpoint ? `?${new URLSearchParams({ endpoint })}` : ''}`,
+  });
+};
+
+export const cancelUploadAction = async ({ request }: ActionFunctionArgs) => {
+  const formData = await request.formData();
+  const tracker = getUploadTracker(formData.get('uploadId') as string);
+  await tracker?.cancel(formData.get('file') as string);
+  return json({ cancelled: !!tracker });
+};
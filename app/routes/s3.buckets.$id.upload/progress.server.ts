@@ -0,0 +1,74 @@
+import type { Upload } from '@aws-sdk/lib-storage';
+import type { UploadProgress } from '~/src/aws/s3';
+
+/**
+ * Keeps track of the files of a single upload request, so that their
+ * progress can be polled and each of them can be cancelled on its own
+ * while the request is still running.
+ */
+export class UploadTracker {
+  private readonly progress = new Map<string, UploadProgress>();
+  private readonly uploads = new Map<string, Upload>();
+  // Files might be cancelled before the server starts receiving them
+  private readonly cancelledFiles = new Set<string>();
+
+  get files(): UploadProgress[] {
+    return [...this.progress.values()];
+  }
+
+  isCancelled(file: string) {
+    return this.cancelledFiles.has(file);
+  }
+
+  start(file: string, key: string, upload: Upload) {
+    this.uploads.set(file, upload);
+    this.progress.set(file, { file, key, loaded: 0, status: 'uploading' });
+    upload.on('httpUploadProgress', ({ loaded = 0 }) => {
+      this.progress.set(file, { file, key, loaded, status: 'uploading' });
+    });
+  }
+
+  finish(file: string, key: string, error?: Error) {
+    this.uploads.delete(file);
+    const { loaded = 0 } = this.progress.get(file) ?? {};
+    if (this.isCancelled(file)) {
+      this.progress.set(file, { file, key, loaded, status: 'cancelled' });
+    } else if (error) {
+      this.progress.set(file, {
+        file,
+        key,
+        loaded,
+        status: 'failed',
+        error: error.message,
+      });
+    } else {
+      this.progress.set(file, { file, key, loaded, status: 'uploaded' });
+    }
+  }
+
+  cancel(file: string) {
+    this.cancelledFiles.add(file);
+    return this.uploads.get(file)?.abort();
+  }
+}
+
+const activeTrackers = new Map<string, UploadTracker>();
+
+export const getUploadTracker = (uploadId: string) =>
+  activeTrackers.get(uploadId);
+
+/**
+ * Tracks the files uploaded by the callback until it is done.
+ */
+export const trackUpload = async <T>(
+  uploadId: string,
+  callback: (tracker: UploadTracker) => Promise<T>,
+): Promise<T> => {
+  const tracker = new UploadTracker();
+  activeTrackers.set(uploadId, tracker);
+  try {
+    return await callback(tracker);
+  } finally {
+    activeTrackers.delete(uploadId);
+  }
+};
@@ -0,0 +1,67 @@
+import { GetObjectCommand } from '@aws-sdk/client-s3';
+import { LoaderFunctionArgs } from '@remix-run/node';
+import { makeZip } from 'client-zip';
+import { getAwsClient } from '~/src/aws/server';
+import { listAllObjects } from '~/src/aws/s3.server';
+import type { ServiceClient } from '~/src/aws/server';
+
+/**
+ * Walks every object matching the given targets, fetching each one only
+ * when the archive is ready to receive it, so that nothing is buffered.
+ */
+async function* listZipEntries(
+  s3Client: ServiceClient<'s3'>,
+  bucket: string,
+  basePrefix: string,
+  targets: string[],
+) {
+  for (const target of targets) {
+    for await (const objects of listAllObjects(
+      s3Client,
+      bucket,
+      target || undefined,
+    )) {
+      for (const { Key, Size, LastModified } of objects) {
+        if (
+          !Key ||
+          // Folders are simulated by empty objects, which are not needed
+          Key.endsWith('/') ||
+          // Objects must not take other objects starting with the same name
+          (target && !target.endsWith('/') && Key !== target)
+        ) {
+          continue;
+        }
+        const { Body } = await s3Client.send(
+          new GetObjectCommand({ Bucket: bucket, Key }),
+        );
+        yield {
+          name: Key.slice(basePrefix.length),
+          lastModified: LastModified,
+          size: Size,
+          input: Body!.transformToWebStream(),
+        };
+      }
+    }
+  }
+}
+
+export const loader = async ({ request, params }: LoaderFunctionArgs) => {
+  const { searchParams } = new URL(request.url);
+  const s3Client = getAwsClient('s3', searchParams.get('endpoint'));
+  const bucket = params.id ?? '';
+  const prefix = searchParams.get('prefix') ?? '';
+  // The selected keys and folders are downloaded if provided,
+  // otherwise the whole folder is
+  const selection = searchParams.get('selection')?.split(',') ?? [prefix];
+  const archiveName = `${prefix.split('/').filter(Boolean).pop() ?? bucket}.zip`;
+
+  return new Response(
+    makeZip(listZipEntries(s3Client, bucket, prefix, selection)),
+    {
+      headers: {
+        'Content-Type': 'application/zip',
+        'Content-Disposition': `attachment; filename="${archiveName}"`,
+      },
+    },
+  );
+};
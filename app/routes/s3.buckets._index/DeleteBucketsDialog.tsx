@@ -1,8 +1,11 @@
 import { FunctionComponent } from 'react';
 import { useTranslation } from 'react-i18next';
-import { Button } from '@mui/material';
+import { useActionData } from '@remix-run/react';
+import { Button, DialogContentText, Stack } from '@mui/material';
 import ConfirmationDialog from '~/src/components/ConfirmationDialog';
+import BatchOperationReport from '~/src/components/BatchOperationReport';
 import useLinkUtils from '~/src/hooks/useLinkUtils';
+import type { action } from './route';
 
 export interface DeleteBucketsDialogProps {
   open: boolean;
@@ -15,12 +18,20 @@ const DeleteBucketsDialog: FunctionComponent<DeleteBucketsDialogProps> = ({
 }) => {
   const { t } = useTranslation();
   const { withSearchParam } = useLinkUtils();
+  const result = useActionData<typeof action>();
 
   return (
     <ConfirmationDialog
       open={open}
       title={t('deleteBucketsConfirmationTitle', { count: buckets.length })}
-      content={t('deleteBucketsConfirmationContent', { count: buckets.length })}
+      content={
+        <Stack spacing={2}>
+          <DialogContentText>
+            {t('deleteBucketsConfirmationContent', { count: buckets.length })}
+          </DialogContentText>
+          {result && <BatchOperationReport result={result} />}
+        </Stack>
+      }
       closeLink={withSearchParam('delete', null)}
       method="DELETE"
       action="/s3/buckets"
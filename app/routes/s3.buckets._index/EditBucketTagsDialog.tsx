@@ -0,0 +1,80 @@
+import { FunctionComponent, useEffect } from 'react';
+import { useTranslation } from 'react-i18next';
+import { useFetcher } from '@remix-run/react';
+import { Button, Stack } from '@mui/material';
+import ConfirmationDialog from '~/src/components/ConfirmationDialog';
+import CenteredLoader from '~/src/components/CenteredLoader';
+import TagsFields from '~/src/components/TagsFields';
+import useLinkUtils from '~/src/hooks/useLinkUtils';
+import { maxBucketTags } from '~/src/aws/s3';
+import type { loader as tagsLoader } from '../s3.buckets.$id.tags/route';
+
+export interface EditBucketTagsDialogProps {
+  open: boolean;
+  bucket: string;
+  endpoint: string | null;
+}
+
+const EditBucketTagsDialog: FunctionComponent<EditBucketTagsDialogProps> = ({
+  open,
+  bucket,
+  endpoint,
+}) => {
+  const { t } = useTranslation();
+  const { withSearchParam } = useLinkUtils();
+  const tagsFetcher = useFetcher<typeof tagsLoader>();
+  const { load } = tagsFetcher;
+  const tagsUrl = withSearchParam(
+    'endpoint',
+    endpoint,
+    `/s3/buckets/${bucket}/tags`,
+  );
+
+  useEffect(() => {
+    if (open && bucket) {
+      load(tagsUrl);
+    }
+  }, [open, bucket, tagsUrl, load]);
+
+  const isLoaded = tagsFetcher.state === 'idle' && !!tagsFetcher.data;
+
+  return (
+    <ConfirmationDialog
+      open={open}
+      maxWidth="sm"
+      title={t('editBucketTags', { bucket })}
+      content={
+        <Stack mt={2}>
+          {isLoaded ? (
+            <TagsFields
+              // The default values are only applied once the tags are loaded
+              key={bucket}
+              defaultTags={tagsFetcher.data?.tags}
+              maxTags={maxBucketTags}
+            />
+          ) : (
+            <CenteredLoader />
+          )}
+        </Stack>
+      }
+      closeLink={withSearchParam('tags', null)}
+      method="PATCH"
+      action={withSearchParam('endpoint', endpoint, '/s3/buckets')}
+      buttons={
+        <>
+          <input type="hidden" name="name" value={bucket} />
+          <Button
+            type="submit"
+            variant="contained"
+            color="secondary"
+            disabled={!isLoaded}
+          >
+            {t('save')}
+          </Button>
+        </>
+      }
+    />
+  );
+};
+
+export default EditBucketTagsDialog;
@@ -1,8 +1,11 @@
-import { Button } from '@mui/material';
+import { Button, DialogContentText, Stack } from '@mui/material';
 import { FunctionComponent } from 'react';
 import { useTranslation } from 'react-i18next';
+import { useActionData } from '@remix-run/react';
 import ConfirmationDialog from '~/src/components/ConfirmationDialog';
+import BatchOperationReport from '~/src/components/BatchOperationReport';
 import useLinkUtils from '~/src/hooks/useLinkUtils';
+import type { action } from './route';
 
 export interface EmptyBucketsDialogProps {
   open: boolean;
@@ -15,12 +18,20 @@ const EmptyBucketsDialog: FunctionComponent<EmptyBucketsDialogProps> = ({
 }) => {
   const { t } = useTranslation();
   const { withSearchParam } = useLinkUtils();
+  const result = useActionData<typeof action>();
 
   return (
     <ConfirmationDialog
       open={open}
       title={t('emptyBucketsConfirmationTitle', { count: buckets.length })}
-      content={t('emptyBucketsConfirmationContent', { count: buckets.length })}
+      content={
+        <Stack spacing={2}>
+          <DialogContentText>
+            {t('emptyBucketsConfirmationContent', { count: buckets.length })}
+          </DialogContentText>
+          {result && <BatchOperationReport result={result} />}
+        </Stack>
+      }
       closeLink={withSearchParam('empty', null)}
       method="PUT"
       action="/s3/buckets"
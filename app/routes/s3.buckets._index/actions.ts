@@ -1,42 +1,18 @@
 import {
-  type S3Client,
   CreateBucketCommand,
   BucketLocationConstraint,
   DeleteBucketCommand,
-  DeleteObjectsCommand,
-  ListObjectVersionsCommand,
-  ObjectIdentifier,
+  DeleteBucketTaggingCommand,
+  PutBucketTaggingCommand,
 } from '@aws-sdk/client-s3';
-import { ActionFunctionArgs, redirect } from '@remix-run/node';
+import { ActionFunctionArgs, json, redirect } from '@remix-run/node';
 import { getAwsClient } from '~/src/aws/server';
-
-const emptyBucket = async (client: S3Client, bucket: string) => {
-  // Delete all versions of all objects in the bucket
-  const { Versions } = await client.send(
-    new ListObjectVersionsCommand({
-      Bucket: bucket,
-    }),
-  );
-
-  const versionsToDelete = (Versions ?? []).filter(
-    version => !!version.Key,
-  ) as ObjectIdentifier[];
-
-  if (versionsToDelete.length < 1) {
-    return;
-  }
-
-  const result = await client.send(
-    new DeleteObjectsCommand({
-      Bucket: bucket,
-      Delete: {
-        Objects: versionsToDelete,
-      },
-    }),
-  );
-
-  return result;
-};
+import {
+  BatchOperationResult,
+  deleteAllObjectVersions,
+  mergeBatchOperationResults,
+} from '~/src/aws/s3.server';
+import { parseTags } from '~/src/aws/s3';
 
 export const createBucketsAction = async ({ request }: ActionFunctionArgs) => {
   const { searchParams } = new URL(request.url);
@@ -69,11 +45,17 @@ export const emptyBucketsAction = async ({ request }: ActionFunctionArgs) => {
   const formData = await request.formData();
   const s3Client = getAwsClient('s3', searchParams.get('endpoint'));
   const bucketsToEmpty = formData.get('names')?.toString().split(',') ?? [];
-
-  await Promise.all(
-    bucketsToEmpty.map(bucket => emptyBucket(s3Client, bucket)),
+  const result = mergeBatchOperationResults(
+    ...(await Promise.all(
+      bucketsToEmpty.map(bucket => deleteAllObjectVersions(s3Client, bucket)),
+    )),
   );
 
+  // Keep the dialog open to show the objects that could not be deleted
+  if (result.failed > 0) {
+    return json<BatchOperationResult>(result);
+  }
+
   return redirect('/s3/buckets');
 };
 
@@ -82,19 +64,62 @@ export const deleteBucketsAction = async ({ request }: ActionFunctionArgs) => {
   const formData = await request.formData();
   const s3Client = getAwsClient('s3', searchParams.get('endpoint'));
   const bucketsToDelete = formData.get('names')?.toString().split(',') ?? [];
-
-  await Promise.all(
-    bucketsToDelete.map(async bucket => {
-      // Empty the bucket first
-      await emptyBucket(s3Client, bucket);
-      // Then delete it
-      await s3Client.send(
-        new DeleteBucketCommand({
-          Bucket: bucket,
-        }),
-      );
-    }),
+  const result = mergeBatchOperationResults(
+    ...(await Promise.all(
+      bucketsToDelete.map(async bucket => {
+        // Empty the bucket first
+        const emptyResult = await deleteAllObjectVersions(s3Client, bucket);
+        // A bucket which is not empty cannot be deleted
+        if (emptyResult.failed > 0) {
+          return emptyResult;
+        }
+        // Then delete it
+        try {
+          await s3Client.send(
+            new DeleteBucketCommand({
+              Bucket: bucket,
+            }),
+          );
+          return emptyResult;
+        } catch (error) {
+          return mergeBatchOperationResults(emptyResult, {
+            succeeded: 0,
+            failed: 1,
+            errors: [{ key: bucket, message: (error as Error).message }],
+          });
+        }
+      }),
+    )),
   );
 
+  // Keep the dialog open to show what could not be deleted
+  if (result.failed > 0) {
+    return json<BatchOperationResult>(result);
+  }
+
+  return redirect('/s3/buckets');
+};
+
+export const updateBucketTagsAction = async ({
+  request,
+}: ActionFunctionArgs) => {
+  const { searchParams } = new URL(request.url);
+  const formData = await request.formData();
+  const s3Client = getAwsClient('s3', searchParams.get('endpoint'));
+  const bucket = formData.get('name')?.toString() ?? '';
+  const tags = parseTags(formData);
+
+  // An empty tag set is not accepted, so the tagging is removed instead
+  if (tags.length > 0) {
+    await s3Client.send(
+      new PutBucketTaggingCommand({
+        Bucket: bucket,
+        Tagging: { TagSet: tags },
+      }),
+    );
+  } else {
+    await s3Client.send(new DeleteBucketTaggingCommand({ Bucket: bucket }));
+  }
+
   return redirect('/s3/buckets');
 };
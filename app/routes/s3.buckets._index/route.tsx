@@ -34,12 +34,14 @@ import { getAwsClientsGroup } from '~/src/aws/server';
 import CreateBucketsDialog from './CreateBucketsDialog';
 import EmptyBucketsDialog from './EmptyBucketsDialog';
 import DeleteBucketsDialog from './DeleteBucketsDialog';
+import EditBucketTagsDialog from './EditBucketTagsDialog';
 import useLinkUtils from '~/src/hooks/useLinkUtils';
 import TableOverlay from '~/src/components/TableOverlay';
 import {
   createBucketsAction,
   emptyBucketsAction,
   deleteBucketsAction,
+  updateBucketTagsAction,
 } from './actions';
 import type { LoaderFunctionArgs, MetaFunction } from '@remix-run/node';
 import { useServerTranslation } from '~/i18next.server';
@@ -76,6 +78,8 @@ export const action = (args: ActionFunctionArgs) => {
       return emptyBucketsAction(args);
     case 'DELETE':
       return deleteBucketsAction(args);
+    case 'PATCH':
+      return updateBucketTagsAction(args);
   }
   throw redirect('/s3/buckets');
 };
@@ -110,6 +114,7 @@ const BucketsList: FunctionComponent = () => {
     setSearchParams(currentParams => {
       currentParams.delete('delete');
       currentParams.delete('empty');
+      currentParams.delete('tags');
       return currentParams;
     });
   }, [selectedBuckets.length, setSearchParams]);
@@ -131,6 +136,27 @@ const BucketsList: FunctionComponent = () => {
             <Button onClick={revalidate}>
               <RefreshIcon />
             </Button>
+            <Button
+              component={RemixLink}
+              to={withSearchParam(
+                'endpoint',
+                (hasMultipleEndpoints &&
+                  buckets.find(bucket => bucket.Name === selectedBuckets[0])
+                    ?.EndpointUrl) ||
+                  null,
+                `/s3/buckets/${selectedBuckets[0]}/settings`,
+              )}
+              disabled={selectedBuckets.length !== 1}
+            >
+              {t('settings')}
+            </Button>
+            <Button
+              component={RemixLink}
+              to={withSearchParam('tags', '')}
+              disabled={selectedBuckets.length !== 1}
+            >
+              {t('tags')}
+            </Button>
             <Button
               component={RemixLink}
               to={withSearchParam('empty', '')}
@@ -275,6 +301,16 @@ const BucketsList: FunctionComponent = () => {
         open={searchParams.has('delete') && selectedBuckets.length > 0}
         buckets={selectedBuckets}
       />
+      <EditBucketTagsDialog
+        open={searchParams.has('tags') && selectedBuckets.length === 1}
+        bucket={selectedBuckets[0] ?? ''}
+        endpoint={
+          (hasMultipleEndpoints &&
+            buckets.find(bucket => bucket.Name === selectedBuckets[0])
+              ?.EndpointUrl) ||
+          null
+        }
+      />
     </>
   );
 };
@@ -0,0 +1,62 @@
+import {
+  ChangeMessageVisibilityCommand,
+  DeleteMessageCommand,
+} from '@aws-sdk/client-sqs';
+import { ActionFunctionArgs, json } from '@remix-run/node';
+import { getAwsClient } from '~/src/aws/server';
+import { receiveMessages } from '~/src/aws/sqs.server';
+
+export type MessageActionResult = { error?: string };
+
+export const receiveMessagesAction = async ({
+  request,
+}: ActionFunctionArgs) => {
+  const { searchParams } = new URL(request.url);
+  const formData = await request.formData();
+  const sqsClient = getAwsClient('sqs', searchParams.get('endpoint'));
+  const queueUrl = formData.get('queueUrl')?.toString();
+
+  return json({ messages: await receiveMessages(sqsClient, queueUrl) });
+};
+
+export const deleteMessageAction = async ({ request }: ActionFunctionArgs) => {
+  const { searchParams } = new URL(request.url);
+  const formData = await request.formData();
+  const sqsClient = getAwsClient('sqs', searchParams.get('endpoint'));
+
+  try {
+    await sqsClient.send(
+      new DeleteMessageCommand({
+        QueueUrl: formData.get('queueUrl')?.toString(),
+        ReceiptHandle: formData.get('receiptHandle')?.toString(),
+      }),
+    );
+  } catch (error) {
+    return json<MessageActionResult>({ error: (error as Error).message });
+  }
+
+  return json<MessageActionResult>({});
+};
+
+export const changeMessageVisibilityAction = async ({
+  request,
+}: ActionFunctionArgs) => {
+  const { searchParams } = new URL(request.url);
+  const formData = await request.formData();
+  const sqsClient = getAwsClient('sqs', searchParams.get('endpoint'));
+
+  try {
+    await sqsClient.send(
+      new ChangeMessageVisibilityCommand({
+        QueueUrl: formData.get('queueUrl')?.toString(),
+        ReceiptHandle: formData.get('receiptHandle')?.toString(),
+        VisibilityTimeout: Number(formData.get('visibilityTimeout')),
+      }),
+    );
+  } catch (error) {
+    // Only messages that are in flight can have their visibility changed
+    return json<MessageActionResult>({ error: (error as Error).message });
+  }
+
+  return json<MessageActionResult>({});
+};
@@ -0,0 +1,18 @@
+import { ActionFunctionArgs, redirect } from '@remix-run/node';
+import {
+  changeMessageVisibilityAction,
+  deleteMessageAction,
+  receiveMessagesAction,
+} from './actions';
+
+export const action = (args: ActionFunctionArgs) => {
+  switch (args.request.method) {
+    case 'POST':
+      return receiveMessagesAction(args);
+    case 'DELETE':
+      return deleteMessageAction(args);
+    case 'PATCH':
+      return changeMessageVisibilityAction(args);
+  }
+  throw redirect(`/sqs/queues/${args.params.name}`);
+};
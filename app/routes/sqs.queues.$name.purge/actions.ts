@@ -0,0 +1,31 @@
+import { GetQueueUrlCommand, PurgeQueueCommand } from '@aws-sdk/client-sqs';
+import { ActionFunctionArgs, json, redirect } from '@remix-run/node';
+import { getAwsClient } from '~/src/aws/server';
+
+export type PurgeQueueResult = { error?: string };
+
+export const purgeQueueAction = async ({
+  request,
+  params,
+}: ActionFunctionArgs) => {
+  const { search, searchParams } = new URL(request.url);
+  const formData = await request.formData();
+  const sqsClient = getAwsClient('sqs', searchParams.get('endpoint'));
+
+  try {
+    // Purging cannot be undone, so the queue name must be typed to confirm it
+    if (formData.get('confirmation') !== params.name) {
+      throw new Error('The confirmation does not match the queue name');
+    }
+    const { QueueUrl } = await sqsClient.send(
+      new GetQueueUrlCommand({ QueueName: params.name }),
+    );
+    // SQS rejects a purge while another one on the queue is in progress
+    await sqsClient.send(new PurgeQueueCommand({ QueueUrl }));
+  } catch (error) {
+    return json<PurgeQueueResult>({ error: (error as Error).message });
+  }
+
+  // The endpoint is the only search param of the action, so it is kept as is
+  return redirect(`/sqs/queues/${params.name}${search}`);
+};
@@ -0,0 +1,10 @@
+import { ActionFunctionArgs, redirect } from '@remix-run/node';
+import { purgeQueueAction } from './actions';
+
+export const action = (args: ActionFunctionArgs) => {
+  switch (args.request.method) {
+    case 'POST':
+      return purgeQueueAction(args);
+  }
+  throw redirect(`/sqs/queues/${args.params.name}`);
+};
@@ -0,0 +1,88 @@
+import {
+  GetQueueAttributesCommand,
+  GetQueueUrlCommand,
+  ListDeadLetterSourceQueuesCommand,
+} from '@aws-sdk/client-sqs';
+import { ActionFunctionArgs, json } from '@remix-run/node';
+import { useServerTranslation } from '~/i18next.server';
+import { ServiceClient, getAwsClient } from '~/src/aws/server';
+import {
+  cancelMessageMoveTask,
+  listQueuesWithArns,
+  startMessageMoveTask,
+} from '~/src/aws/sqs.server';
+
+export type RedriveActionResult = { error?: string };
+
+export const getDeadLetterQueue = async (
+  sqsClient: ServiceClient<'sqs'>,
+  queueName: string | undefined,
+) => {
+  const { QueueUrl = '' } = await sqsClient.send(
+    new GetQueueUrlCommand({ QueueName: queueName }),
+  );
+  const { Attributes } = await sqsClient.send(
+    new GetQueueAttributesCommand({ QueueUrl, AttributeNames: ['QueueArn'] }),
+  );
+  return { QueueUrl, QueueArn: Attributes?.QueueArn ?? '' };
+};
+
+export const startRedriveAction = async ({
+  request,
+  params,
+}: ActionFunctionArgs) => {
+  const { searchParams } = new URL(request.url);
+  const formData = await request.formData();
+  const sqsClient = getAwsClient('sqs', searchParams.get('endpoint'));
+  const { t } = await useServerTranslation(request);
+  // Without a destination, the messages go back to their source queue
+  const destinationArn =
+    formData.get('destinationArn')?.toString() || undefined;
+
+  try {
+    const { QueueUrl, QueueArn } = await getDeadLetterQueue(
+      sqsClient,
+      params.name,
+    );
+    if (destinationArn === QueueArn) {
+      throw new Error(t('redriveToSameQueue'));
+    }
+    const { queueUrls = [] } = await sqsClient.send(
+      new ListDeadLetterSourceQueuesCommand({ QueueUrl }),
+    );
+    const deadLetterSourceArns = (await listQueuesWithArns(sqsClient)).flatMap(
+      queue => (queueUrls.includes(queue.QueueUrl) ? [queue.QueueArn] : []),
+    );
+    await startMessageMoveTask(
+      sqsClient,
+      {
+        sourceUrl: QueueUrl,
+        sourceArn: QueueArn,
+        destinationArn,
+        deadLetterSourceArns,
+      },
+      t,
+    );
+  } catch (error) {
+    return json<RedriveActionResult>({ error: (error as Error).message });
+  }
+
+  return json<RedriveActionResult>({});
+};
+
+export const cancelRedriveAction = async ({ request }: ActionFunctionArgs) => {
+  const { searchParams } = new URL(request.url);
+  const formData = await request.formData();
+  const sqsClient = getAwsClient('sqs', searchParams.get('endpoint'));
+
+  try {
+    await cancelMessageMoveTask(
+      sqsClient,
+      formData.get('taskHandle')?.toString() ?? '',
+    );
+  } catch (error) {
+    return json<RedriveActionResult>({ error: (error as Error).message });
+  }
+
+  return json<RedriveActionResult>({});
+};
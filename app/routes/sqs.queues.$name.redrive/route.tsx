@@ -0,0 +1,39 @@
+import {
+  ActionFunctionArgs,
+  LoaderFunctionArgs,
+  json,
+  redirect,
+} from '@remix-run/node';
+import { getAwsClient } from '~/src/aws/server';
+import { listMessageMoveTasks, listQueuesWithArns } from '~/src/aws/sqs.server';
+import {
+  cancelRedriveAction,
+  getDeadLetterQueue,
+  startRedriveAction,
+} from './actions';
+
+export const loader = async ({ request, params }: LoaderFunctionArgs) => {
+  const { searchParams } = new URL(request.url);
+  const sqsClient = getAwsClient('sqs', searchParams.get('endpoint'));
+  const { QueueArn } = await getDeadLetterQueue(sqsClient, params.name);
+  const [queues, tasks] = await Promise.all([
+    listQueuesWithArns(sqsClient),
+    listMessageMoveTasks(sqsClient, QueueArn),
+  ]);
+
+  return json({
+    // The messages can be moved to any queue but the dead-letter one
+    queues: queues.filter(queue => queue.QueueArn !== QueueArn),
+    tasks,
+  });
+};
+
+export const action = (args: ActionFunctionArgs) => {
+  switch (args.request.method) {
+    case 'POST':
+      return startRedriveAction(args);
+    case 'DELETE':
+      return cancelRedriveAction(args);
+  }
+  throw redirect(`/sqs/queues/${args.params.name}`);
+};
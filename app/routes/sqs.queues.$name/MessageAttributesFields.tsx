@@ -0,0 +1,94 @@
+import { FunctionComponent, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import {
+  Button,
+  IconButton,
+  MenuItem,
+  Stack,
+  TextField,
+  Typography,
+} from '@mui/material';
+import { Add as AddIcon, Delete as DeleteIcon } from '@mui/icons-material';
+
+// SQS allows custom types such as Number.float, but these are the base ones
+const attributeDataTypes = ['String', 'Number', 'Binary'];
+
+// A message can have at most 10 attributes
+const maxMessageAttributes = 10;
+
+/**
+ * The fields needed to define the custom attributes of a message.
+ * The name, type and value fields are repeated once per attribute.
+ */
+const MessageAttributesFields: FunctionComponent = () => {
+  const { t } = useTranslation();
+  // Incremental ids used as keys, so that removing an attribute does not
+  // reset the fields of the following ones
+  const [attributeIds, setAttributeIds] = useState<number[]>([]);
+
+  return (
+    <Stack spacing={2} alignSelf="stretch">
+      <Stack direction="row" justifyContent="space-between" alignItems="center">
+        <Typography variant="subtitle1" component="h3">
+          {t('messageAttributes')}
+        </Typography>
+        <Button
+          startIcon={<AddIcon />}
+          disabled={attributeIds.length >= maxMessageAttributes}
+          onClick={() =>
+            setAttributeIds(previousIds => [
+              ...previousIds,
+              Math.max(0, ...previousIds) + 1,
+            ])
+          }
+        >
+          {t('addAttribute')}
+        </Button>
+      </Stack>
+      {attributeIds.map(attributeId => (
+        <Stack key={attributeId} direction="row" spacing={1}>
+          <TextField
+            fullWidth
+            required
+            size="small"
+            label={t('name')}
+            name="attributeName"
+          />
+          <TextField
+            select
+            size="small"
+            label={t('type')}
+            name="attributeType"
+            defaultValue="String"
+            sx={{ minWidth: '12ch' }}
+          >
+            {attributeDataTypes.map(dataType => (
+              <MenuItem key={dataType} value={dataType}>
+                {dataType}
+              </MenuItem>
+            ))}
+          </TextField>
+          <TextField
+            fullWidth
+            required
+            size="small"
+            label={t('value')}
+            name="attributeValue"
+          />
+          <IconButton
+            aria-label={t('delete')}
+            onClick={() =>
+              setAttributeIds(previousIds =>
+                previousIds.filter(id => id !== attributeId),
+              )
+            }
+          >
+            <DeleteIcon />
+          </IconButton>
+        </Stack>
+      ))}
+    </Stack>
+  );
+};
+
+export default MessageAttributesFields;
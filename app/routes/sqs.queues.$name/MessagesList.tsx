@@ -0,0 +1,191 @@
+import { FunctionComponent } from 'react';
+import { useTranslation } from 'react-i18next';
+import { useFetcher, useSearchParams } from '@remix-run/react';
+import {
+  Accordion,
+  AccordionDetails,
+  AccordionSummary,
+  Alert,
+  Box,
+  Button,
+  List,
+  ListItem,
+  ListItemText,
+  Stack,
+  TextField,
+  Typography,
+} from '@mui/material';
+import { ContentCopy as ContentCopyIcon } from '@mui/icons-material';
+import { formatDateTime } from '~/src/utils';
+import useLinkUtils from '~/src/hooks/useLinkUtils';
+import type { Message } from '@aws-sdk/client-sqs';
+import type { Jsonify } from '@remix-run/server-runtime/dist/jsonify';
+import type {
+  changeMessageVisibilityAction,
+  deleteMessageAction,
+} from '../sqs.queues.$name.messages/actions';
+
+export interface MessagesListProps {
+  queueName: string;
+  queueUrl: string;
+  messages: Jsonify<Message>[];
+  // The visibility can only be changed while the messages are in flight
+  received?: boolean;
+}
+
+interface MessageItemProps {
+  queueName: string;
+  queueUrl: string;
+  message: Jsonify<Message>;
+  received?: boolean;
+}
+
+const MessageItem: FunctionComponent<MessageItemProps> = ({
+  queueName,
+  queueUrl,
+  message,
+  received,
+}) => {
+  const { t } = useTranslation();
+  const [searchParams] = useSearchParams();
+  const { withSearchParam } = useLinkUtils();
+  const deleteFetcher = useFetcher<typeof deleteMessageAction>();
+  const visibilityFetcher = useFetcher<typeof changeMessageVisibilityAction>();
+  const action = withSearchParam(
+    'endpoint',
+    searchParams.get('endpoint'),
+    `/sqs/queues/${queueName}/messages`,
+  );
+  const error = deleteFetcher.data?.error ?? visibilityFetcher.data?.error;
+  const { SentTimestamp, ApproximateReceiveCount, MessageGroupId } =
+    message.Attributes ?? {};
+
+  // Deleted messages are hidden right away
+  if (
+    deleteFetcher.state !== 'idle' ||
+    (deleteFetcher.data && !deleteFetcher.data.error)
+  ) {
+    return null;
+  }
+
+  return (
+    <Accordion>
+      <AccordionSummary>{message.MessageId}</AccordionSummary>
+      <AccordionDetails>
+        <Stack gap={1}>
+          {error && <Alert severity="error">{error}</Alert>}
+          <List dense disablePadding>
+            <ListItem disableGutters>
+              <ListItemText
+                primary={t('sentAt')}
+                secondary={formatDateTime(Number(SentTimestamp) || undefined)}
+              />
+            </ListItem>
+            <ListItem disableGutters>
+              <ListItemText
+                primary={t('receiveCount')}
+                secondary={ApproximateReceiveCount ?? '-'}
+              />
+            </ListItem>
+            {MessageGroupId && (
+              <ListItem disableGutters>
+                <ListItemText
+                  primary={t('messageGroupId')}
+                  secondary={MessageGroupId}
+                />
+              </ListItem>
+            )}
+          </List>
+          <Typography
+            variant="body2"
+            component="pre"
+            fontFamily="'Amazon Ember Mono', monospace"
+            whiteSpace="pre-wrap"
+          >
+            {message.Body}
+          </Typography>
+          <Stack direction="row" gap={1}>
+            <Button
+              startIcon={<ContentCopyIcon />}
+              onClick={() => navigator.clipboard.writeText(message.Body ?? '')}
+            >
+              {t('copy')}
+            </Button>
+            <Button
+              color="error"
+              onClick={() =>
+                deleteFetcher.submit(
+                  { queueUrl, receiptHandle: message.ReceiptHandle ?? '' },
+                  { method: 'DELETE', action },
+                )
+              }
+            >
+              {t('delete')}
+            </Button>
+          </Stack>
+          {received && (
+            <visibilityFetcher.Form method="PATCH" action={action}>
+              <input type="hidden" name="queueUrl" value={queueUrl} />
+              <input
+                type="hidden"
+                name="receiptHandle"
+                value={message.ReceiptHandle ?? ''}
+              />
+              <Stack direction="row" gap={1} alignItems="center">
+                <TextField
+                  required
+                  type="number"
+                  size="small"
+                  name="visibilityTimeout"
+                  label={t('visibilityTimeoutSeconds')}
+                  defaultValue={0}
+                  inputProps={{ min: 0, max: 43200 }}
+                />
+                <Button
+                  type="submit"
+                  disabled={visibilityFetcher.state !== 'idle'}
+                >
+                  {t('changeVisibility')}
+                </Button>
+              </Stack>
+            </visibilityFetcher.Form>
+          )}
+        </Stack>
+      </AccordionDetails>
+    </Accordion>
+  );
+};
+
+/**
+ * The messages of a queue, each with its system attributes
+ * and the actions that can be performed on it.
+ */
+const MessagesList: FunctionComponent<MessagesListProps> = ({
+  queueName,
+  queueUrl,
+  messages,
+  received,
+}) => {
+  const { t } = useTranslation();
+
+  return (
+    <Box overflow="auto" mb={6}>
+      {messages.length < 1 && (
+        <Typography variant="body2" color="text.secondary" py={1}>
+          {t('noMessagesAvailable')}
+        </Typography>
+      )}
+      {messages.map(message => (
+        <MessageItem
+          key={message.MessageId}
+          queueName={queueName}
+          queueUrl={queueUrl}
+          message={message}
+          received={received}
+        />
+      ))}
+    </Box>
+  );
+};
+
+export default MessagesList;
@@ -0,0 +1,81 @@
+import { FunctionComponent, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { useFetcher } from '@remix-run/react';
+import {
+  Alert,
+  Button,
+  DialogContentText,
+  Stack,
+  TextField,
+} from '@mui/material';
+import ConfirmationDialog from '~/src/components/ConfirmationDialog';
+import useLinkUtils from '~/src/hooks/useLinkUtils';
+import type { purgeQueueAction } from '../sqs.queues.$name.purge/actions';
+
+export interface PurgeQueueDialogProps {
+  open: boolean;
+  queueName: string;
+  endpoint: string | null;
+}
+
+/**
+ * Deletes every message of a queue, once its name has been typed
+ * to confirm that the right queue is being purged.
+ */
+const PurgeQueueDialog: FunctionComponent<PurgeQueueDialogProps> = ({
+  open,
+  queueName,
+  endpoint,
+}) => {
+  const { t } = useTranslation();
+  const { withSearchParam } = useLinkUtils();
+  const fetcher = useFetcher<typeof purgeQueueAction>();
+  const [confirmation, setConfirmation] = useState('');
+
+  return (
+    <ConfirmationDialog
+      open={open}
+      title={t('purgeQueueConfirmationTitle')}
+      content={
+        <Stack gap={2}>
+          <DialogContentText>
+            {t('purgeQueueConfirmationContent', { name: queueName })}
+          </DialogContentText>
+          {fetcher.data?.error && (
+            <Alert severity="error">{fetcher.data.error}</Alert>
+          )}
+          <TextField
+            required
+            fullWidth
+            size="small"
+            name="confirmation"
+            label={t('typeQueueNameToConfirm')}
+            value={confirmation}
+            onChange={event => setConfirmation(event.target.value)}
+          />
+        </Stack>
+      }
+      closeLink={withSearchParam('purge', null)}
+      onClose={() => setConfirmation('')}
+      component={fetcher.Form}
+      method="POST"
+      action={withSearchParam(
+        'endpoint',
+        endpoint,
+        `/sqs/queues/${queueName}/purge`,
+      )}
+      buttons={
+        <Button
+          type="submit"
+          variant="contained"
+          color="error"
+          disabled={confirmation !== queueName || fetcher.state !== 'idle'}
+        >
+          {t('purge')}
+        </Button>
+      }
+    />
+  );
+};
+
+export default PurgeQueueDialog;
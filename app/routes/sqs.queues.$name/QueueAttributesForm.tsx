@@ -0,0 +1,135 @@
+import { FunctionComponent, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { useFetcher, useSearchParams } from '@remix-run/react';
+import { Alert, Button, Stack, TextField } from '@mui/material';
+import { jsonQueueAttributes, numericQueueAttributes } from '~/src/aws/sqs';
+import useLinkUtils from '~/src/hooks/useLinkUtils';
+import type { updateQueueAttributesAction } from './actions';
+
+export interface QueueAttributesFormProps {
+  queueName: string;
+  queueUrl: string;
+  attributes: Record<string, string>;
+}
+
+const isValidJson = (value: string) => {
+  try {
+    JSON.parse(value);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+const JsonAttributeField: FunctionComponent<{
+  name: string;
+  label: string;
+  defaultValue: string;
+  onValidityChange: (name: string, isValid: boolean) => void;
+}> = ({ name, label, defaultValue, onValidityChange }) => {
+  const { t } = useTranslation();
+  const [value, setValue] = useState(defaultValue);
+  const isValid = !value.trim() || isValidJson(value);
+
+  return (
+    <TextField
+      fullWidth
+      multiline
+      minRows={3}
+      maxRows={16}
+      name={name}
+      label={label}
+      value={value}
+      onChange={event => {
+        setValue(event.target.value);
+        onValidityChange(
+          name,
+          !event.target.value.trim() || isValidJson(event.target.value),
+        );
+      }}
+      error={!isValid}
+      helperText={isValid ? undefined : t('invalidJson')}
+      InputProps={{ sx: { fontFamily: "'Amazon Ember Mono', monospace" } }}
+    />
+  );
+};
+
+/**
+ * The attributes of a queue that can be changed after its creation.
+ * The JSON policies are removed from the queue when left empty.
+ */
+const QueueAttributesForm: FunctionComponent<QueueAttributesFormProps> = ({
+  queueName,
+  queueUrl,
+  attributes,
+}) => {
+  const { t } = useTranslation();
+  const [searchParams] = useSearchParams();
+  const { withSearchParam } = useLinkUtils();
+  const fetcher = useFetcher<typeof updateQueueAttributesAction>();
+  const [invalidFields, setInvalidFields] = useState<string[]>([]);
+
+  return (
+    <fetcher.Form
+      method="PATCH"
+      action={withSearchParam(
+        'endpoint',
+        searchParams.get('endpoint'),
+        `/sqs/queues/${queueName}`,
+      )}
+    >
+      <input type="hidden" name="queueUrl" value={queueUrl} />
+      <Stack alignItems="flex-start" gap={2} py={2}>
+        {numericQueueAttributes.map(({ name, label, min, max }) => (
+          <TextField
+            key={name}
+            required
+            fullWidth
+            type="number"
+            size="small"
+            name={name}
+            label={t(label)}
+            defaultValue={attributes[name]}
+            // Keep the current value valid, even if it is out of range
+            inputProps={{
+              min: Math.min(min, Number(attributes[name] ?? min)),
+              max: Math.max(max, Number(attributes[name] ?? max)),
+            }}
+          />
+        ))}
+        {jsonQueueAttributes.map(({ name, label }) => (
+          <JsonAttributeField
+            key={name}
+            name={name}
+            label={t(label)}
+            defaultValue={attributes[name] ?? ''}
+            onValidityChange={(fieldName, isValid) =>
+              setInvalidFields(previousFields =>
+                isValid
+                  ? previousFields.filter(field => field !== fieldName)
+                  : [...new Set([...previousFields, fieldName])],
+              )
+            }
+          />
+        ))}
+        <Button
+          type="submit"
+          variant="contained"
+          disabled={invalidFields.length > 0 || fetcher.state !== 'idle'}
+        >
+          {t('save')}
+        </Button>
+        {fetcher.state === 'idle' && fetcher.data && (
+          <Alert
+            severity={fetcher.data.error ? 'error' : 'success'}
+            sx={{ alignSelf: 'stretch' }}
+          >
+            {fetcher.data.error ?? t('attributesSaved')}
+          </Alert>
+        )}
+      </Stack>
+    </fetcher.Form>
+  );
+};
+
+export default QueueAttributesForm;
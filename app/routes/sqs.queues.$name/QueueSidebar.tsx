@@ -1,4 +1,4 @@
-import { FunctionComponent } from 'react';
+import { FunctionComponent, useState } from 'react';
 import { useTranslation } from 'react-i18next';
 import {
   Link as RemixLink,
@@ -8,23 +8,44 @@ import {
   useSearchParams,
 } from '@remix-run/react';
 import {
+  Accordion,
+  AccordionDetails,
+  AccordionSummary,
+  Alert,
   Button,
   Stack,
   TextField,
-  Accordion,
-  AccordionSummary,
-  AccordionDetails,
-  Typography,
-  Box,
   Chip,
   Tooltip,
+  Tab,
+  Tabs,
+  FormControlLabel,
+  Switch,
 } from '@mui/material';
+import { maxSentMessages } from '~/src/aws/sqs';
 import useLinkUtils from '~/src/hooks/useLinkUtils';
 import useInterval from '~/src/hooks/useInterval';
 import type { SerializeFrom } from '@remix-run/server-runtime';
 import type { loader } from './route';
+import type { postMessageToQueueAction } from './actions';
+import type { receiveMessagesAction } from '../sqs.queues.$name.messages/actions';
 import Sidebar from '~/src/components/Sidebar';
 import { joinNodes } from '~/src/utils';
+import MessagesList from './MessagesList';
+import MessageAttributesFields from './MessageAttributesFields';
+import RedriveDialog from './RedriveDialog';
+import PurgeQueueDialog from './PurgeQueueDialog';
+import QueueAttributesForm from './QueueAttributesForm';
+
+const getMaxReceiveCount = (redrivePolicy: string | undefined) => {
+  try {
+    return redrivePolicy
+      ? (JSON.parse(redrivePolicy).maxReceiveCount as number)
+      : undefined;
+  } catch {
+    return undefined;
+  }
+};
 
 export interface QueueSidebarProps {
   queue: SerializeFrom<typeof loader>;
@@ -33,12 +54,32 @@ export interface QueueSidebarProps {
 const QueueSidebar: FunctionComponent<QueueSidebarProps> = ({ queue }) => {
   const { t } = useTranslation();
   const { name } = useParams();
-  const fetcher = useFetcher();
+  const fetcher = useFetcher<typeof postMessageToQueueAction>();
+  const receiveFetcher = useFetcher<typeof receiveMessagesAction>();
   const { revalidate } = useRevalidator();
   const [searchParams] = useSearchParams();
   const { withSearchParam, withPathname } = useLinkUtils();
-  const isPolling = searchParams.getAll('include').includes('messages');
+  const tab =
+    searchParams.get('tab') === 'attributes' ? 'attributes' : 'messages';
+  // Peeking leaves the messages to the consumers, while receiving hides them
+  // for the visibility timeout of the queue
+  const mode = searchParams.get('mode') === 'receive' ? 'receive' : 'peek';
+  const isPeeking =
+    tab === 'messages' &&
+    mode === 'peek' &&
+    searchParams.getAll('include').includes('messages');
+  // Peeking increases the receive count of the messages, so polling would
+  // quickly move them to the dead-letter queue
+  const maxReceiveCount = getMaxReceiveCount(queue.Attributes?.RedrivePolicy);
+  const isPolling = isPeeking && maxReceiveCount === undefined;
   const isFullscreen = searchParams.has('fullscreen');
+  const endpoint = searchParams.get('endpoint');
+  const isFifo = queue.Attributes?.FifoQueue === 'true';
+  const deadLetterSourceQueues = queue.DeadLetterSourceQueues ?? [];
+  const isDeadLetterQueue = deadLetterSourceQueues.length > 0;
+  const [isJsonArray, setIsJsonArray] = useState(false);
+  const failedEntries =
+    fetcher.data?.entries.filter(({ error }) => error !== undefined) ?? [];
 
   useInterval(() => revalidate(), isPolling ? 2500 : null);
 
@@ -47,7 +88,7 @@ const QueueSidebar: FunctionComponent<QueueSidebarProps> = ({ queue }) => {
       title={queue.QueueName}
       subheader={
         <Stack direction="row" py={1} gap={0.5}>
-          {queue.Attributes?.FifoQueue === 'true' && (
+          {isFifo && (
             <Tooltip title={t('firstInFirstOut')}>
               <Chip size="small" label="FIFO" />
             </Tooltip>
@@ -62,25 +103,24 @@ const QueueSidebar: FunctionComponent<QueueSidebarProps> = ({ queue }) => {
               <Chip size="small" label="SSE" />
             </Tooltip>
           )}
-          {queue.DeadLetterSourceQueues &&
-            queue.DeadLetterSourceQueues.length > 0 && (
-              <Tooltip
-                title={
-                  <>
-                    {t('dlqOf')}
-                    {': '}
-                    {joinNodes(
-                      queue.DeadLetterSourceQueues.map(queue => (
-                        <strong key={queue.QueueUrl}>{queue.QueueName}</strong>
-                      )),
-                      ', ',
-                    )}
-                  </>
-                }
-              >
-                <Chip size="small" label="DLQ" />
-              </Tooltip>
-            )}
+          {isDeadLetterQueue && (
+            <Tooltip
+              title={
+                <>
+                  {t('dlqOf')}
+                  {': '}
+                  {joinNodes(
+                    deadLetterSourceQueues.map(queue => (
+                      <strong key={queue.QueueUrl}>{queue.QueueName}</strong>
+                    )),
+                    ', ',
+                  )}
+                </>
+              }
+            >
+              <Chip size="small" label="DLQ" />
+            </Tooltip>
+          )}
         </Stack>
       }
       isFullscreen={isFullscreen}
@@ -88,11 +128,17 @@ const QueueSidebar: FunctionComponent<QueueSidebarProps> = ({ queue }) => {
       closeLink={withPathname('/sqs/queues')}
     >
       <Stack direction="row" gap={1}>
+        {isDeadLetterQueue && (
+          <Button component={RemixLink} to={withSearchParam('redrive', '')}>
+            {t('redrive')}
+          </Button>
+        )}
         <Button
+          color="error"
           component={RemixLink}
-          to={withSearchParam('include', isPolling ? null : 'messages')}
+          to={withSearchParam('purge', '')}
         >
-          {isPolling ? t('stopPolling') : t('startPolling')}
+          {t('purge')}
         </Button>
         <Button
           variant="contained"
@@ -103,39 +149,223 @@ const QueueSidebar: FunctionComponent<QueueSidebarProps> = ({ queue }) => {
           {t('delete')}
         </Button>
       </Stack>
-      <fetcher.Form method="POST" action={`/sqs/queues/${name}`}>
-        <input type="hidden" name="queueUrl" value={queue.QueueUrl} />
-        <Stack alignItems="flex-start" gap={1} py={2}>
-          <TextField
-            required
-            fullWidth
-            multiline
-            rows={3}
-            name="message"
-            label={t('message')}
-            inputProps={{
-              style: { fontFamily: "'Amazon Ember Mono', monospace" },
-            }}
+      {/* t('messages') t('attributes') */}
+      <Tabs value={tab} sx={{ flex: '0 0 auto' }}>
+        {['messages', 'attributes'].map(tabName => (
+          <Tab
+            key={tabName}
+            value={tabName}
+            label={t(tabName)}
+            component={RemixLink}
+            to={withSearchParam('tab', tabName === 'messages' ? null : tabName)}
           />
-          <Button type="submit">{t('send')}</Button>
-        </Stack>
-      </fetcher.Form>
-      <Box overflow="auto" mb={6}>
-        {queue.Messages?.map(message => (
-          <Accordion key={message.MessageId}>
-            <AccordionSummary>{message.MessageId}</AccordionSummary>
-            <AccordionDetails>
-              <Typography
-                variant="body2"
-                component="pre"
-                fontFamily="'Amazon Ember Mono', monospace"
-              >
-                {message.Body}
-              </Typography>
-            </AccordionDetails>
-          </Accordion>
         ))}
-      </Box>
+      </Tabs>
+      {tab === 'attributes' && (
+        <QueueAttributesForm
+          // The fields are uncontrolled, so they are reset for each queue
+          key={name}
+          queueName={name!}
+          queueUrl={queue.QueueUrl ?? ''}
+          attributes={queue.Attributes ?? {}}
+        />
+      )}
+      {tab === 'messages' && (
+        <>
+          <fetcher.Form
+            method="POST"
+            action={withSearchParam(
+              'endpoint',
+              endpoint,
+              `/sqs/queues/${name}`,
+            )}
+          >
+            <input type="hidden" name="queueUrl" value={queue.QueueUrl} />
+            <Stack alignItems="flex-start" gap={1} py={2}>
+              <TextField
+                required
+                fullWidth
+                multiline
+                rows={3}
+                name="message"
+                label={t('message')}
+                inputProps={{
+                  style: { fontFamily: "'Amazon Ember Mono', monospace" },
+                }}
+              />
+              <FormControlLabel
+                control={
+                  <Switch
+                    name="jsonArray"
+                    checked={isJsonArray}
+                    onChange={event => setIsJsonArray(event.target.checked)}
+                  />
+                }
+                label={t('sendJsonArrayElements')}
+              />
+              <Accordion disableGutters sx={{ alignSelf: 'stretch' }}>
+                <AccordionSummary>{t('sendOptions')}</AccordionSummary>
+                <AccordionDetails>
+                  <Stack gap={2}>
+                    {isFifo ? (
+                      <>
+                        <TextField
+                          required
+                          fullWidth
+                          size="small"
+                          name="messageGroupId"
+                          label={t('messageGroupId')}
+                        />
+                        <TextField
+                          // Without content-based deduplication the ID is needed
+                          required={
+                            queue.Attributes?.ContentBasedDeduplication !==
+                            'true'
+                          }
+                          fullWidth
+                          size="small"
+                          name="messageDeduplicationId"
+                          label={t('messageDeduplicationId')}
+                        />
+                      </>
+                    ) : (
+                      // FIFO queues only support a delay for the whole queue
+                      <TextField
+                        fullWidth
+                        type="number"
+                        size="small"
+                        name="delaySeconds"
+                        label={t('delaySeconds')}
+                        inputProps={{ min: 0, max: 900 }}
+                      />
+                    )}
+                    <TextField
+                      fullWidth
+                      type="number"
+                      size="small"
+                      name="copies"
+                      label={t('copies')}
+                      defaultValue={1}
+                      disabled={isJsonArray}
+                      inputProps={{ min: 1, max: maxSentMessages }}
+                    />
+                    <MessageAttributesFields />
+                  </Stack>
+                </AccordionDetails>
+              </Accordion>
+              <Button type="submit" disabled={fetcher.state !== 'idle'}>
+                {t('send')}
+              </Button>
+              {fetcher.state === 'idle' && fetcher.data && (
+                <Alert
+                  severity={failedEntries.length > 0 ? 'error' : 'success'}
+                  sx={{ alignSelf: 'stretch' }}
+                >
+                  {t('sentMessages', {
+                    count: fetcher.data.entries.length - failedEntries.length,
+                    failed: failedEntries.length,
+                  })}
+                  {fetcher.data.entries.map(({ index, messageId, error }) => (
+                    <div key={index}>
+                      <strong>#{index + 1}</strong>: {error ?? messageId}
+                    </div>
+                  ))}
+                </Alert>
+              )}
+            </Stack>
+          </fetcher.Form>
+          {/* t('peek') t('receive') */}
+          <Tabs value={mode} variant="fullWidth" sx={{ flex: '0 0 auto' }}>
+            {['peek', 'receive'].map(tabName => (
+              <Tab
+                key={tabName}
+                value={tabName}
+                label={t(tabName)}
+                component={RemixLink}
+                to={withSearchParam(
+                  'mode',
+                  tabName === 'peek' ? null : tabName,
+                )}
+              />
+            ))}
+          </Tabs>
+          {mode === 'peek' && (
+            <Alert
+              severity={maxReceiveCount === undefined ? 'info' : 'warning'}
+              sx={{ mt: 1 }}
+            >
+              {t('peekHint')}
+              {maxReceiveCount !== undefined &&
+                ` ${t('peekRedriveWarning', { maxReceiveCount })}`}
+            </Alert>
+          )}
+          <Stack direction="row" gap={1} py={1}>
+            {mode === 'peek' && maxReceiveCount === undefined && (
+              <Button
+                component={RemixLink}
+                to={withSearchParam('include', isPolling ? null : 'messages')}
+              >
+                {isPolling ? t('stopPolling') : t('startPolling')}
+              </Button>
+            )}
+            {mode === 'peek' && maxReceiveCount !== undefined && (
+              // Following the link again reloads the page, which peeks the
+              // messages once more
+              <Button
+                component={RemixLink}
+                to={withSearchParam('include', 'messages')}
+              >
+                {t('peekMessages')}
+              </Button>
+            )}
+            {mode === 'receive' && (
+              <Button
+                disabled={receiveFetcher.state !== 'idle'}
+                onClick={() =>
+                  receiveFetcher.submit(
+                    { queueUrl: queue.QueueUrl ?? '' },
+                    {
+                      method: 'POST',
+                      action: withSearchParam(
+                        'endpoint',
+                        endpoint,
+                        `/sqs/queues/${name}/messages`,
+                      ),
+                    },
+                  )
+                }
+              >
+                {t('receiveMessages')}
+              </Button>
+            )}
+          </Stack>
+          {mode === 'peek' && queue.Messages && (
+            <MessagesList
+              queueName={name!}
+              queueUrl={queue.QueueUrl ?? ''}
+              messages={queue.Messages}
+            />
+          )}
+          {mode === 'receive' && receiveFetcher.data && (
+            <MessagesList
+              queueName={name!}
+              queueUrl={queue.QueueUrl ?? ''}
+              messages={receiveFetcher.data.messages}
+              received
+            />
+          )}
+        </>
+      )}
+      <PurgeQueueDialog
+        open={searchParams.has('purge')}
+        queueName={name!}
+        endpoint={endpoint}
+      />
+      <RedriveDialog
+        open={isDeadLetterQueue && searchParams.has('redrive')}
+        queueName={name!}
+        endpoint={endpoint}
+      />
     </Sidebar>
   );
 };
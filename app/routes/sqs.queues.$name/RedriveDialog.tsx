@@ -0,0 +1,202 @@
+import { FunctionComponent, useEffect } from 'react';
+import { useTranslation } from 'react-i18next';
+import { useFetcher } from '@remix-run/react';
+import {
+  Alert,
+  Button,
+  Chip,
+  LinearProgress,
+  List,
+  ListItem,
+  ListItemText,
+  MenuItem,
+  Stack,
+  TextField,
+  Typography,
+} from '@mui/material';
+import ConfirmationDialog from '~/src/components/ConfirmationDialog';
+import CenteredLoader from '~/src/components/CenteredLoader';
+import useInterval from '~/src/hooks/useInterval';
+import useLinkUtils from '~/src/hooks/useLinkUtils';
+import { formatDateTime } from '~/src/utils';
+import type { MessageMoveTask } from '~/src/aws/sqs.server';
+import type { loader as redriveLoader } from '../sqs.queues.$name.redrive/route';
+import type {
+  cancelRedriveAction,
+  startRedriveAction,
+} from '../sqs.queues.$name.redrive/actions';
+
+export interface RedriveDialogProps {
+  open: boolean;
+  queueName: string;
+  endpoint: string | null;
+}
+
+const taskPollingInterval = 2500;
+
+const MessageMoveTaskItem: FunctionComponent<{
+  task: MessageMoveTask;
+  action: string;
+}> = ({ task, action }) => {
+  const { t } = useTranslation();
+  const cancelFetcher = useFetcher<typeof cancelRedriveAction>();
+  const moved = task.ApproximateNumberOfMessagesMoved ?? 0;
+  const toMove = task.ApproximateNumberOfMessagesToMove ?? 0;
+  const destinationArn = task.DestinationArn;
+
+  return (
+    <ListItem
+      disableGutters
+      secondaryAction={
+        task.Status === 'RUNNING' && (
+          <Button
+            color="error"
+            disabled={cancelFetcher.state !== 'idle'}
+            onClick={() =>
+              cancelFetcher.submit(
+                { taskHandle: task.TaskHandle ?? '' },
+                { method: 'DELETE', action },
+              )
+            }
+          >
+            {t('cancel')}
+          </Button>
+        )
+      }
+    >
+      <ListItemText
+        primary={
+          <Stack direction="row" gap={1} alignItems="center">
+            <Chip
+              size="small"
+              label={task.Status}
+              color={task.Status === 'FAILED' ? 'error' : 'default'}
+            />
+            {destinationArn
+              ? destinationArn.slice(destinationArn.lastIndexOf(':') + 1)
+              : t('sourceQueues')}
+          </Stack>
+        }
+        secondary={
+          <>
+            <LinearProgress
+              variant="determinate"
+              value={toMove ? Math.min(100, (moved / toMove) * 100) : 100}
+              sx={{ my: 1 }}
+            />
+            {t('movedMessages', { moved, toMove })}
+            {' · '}
+            {formatDateTime(task.StartedTimestamp)}
+            {task.FailureReason && `: ${task.FailureReason}`}
+            {cancelFetcher.data?.error && `: ${cancelFetcher.data.error}`}
+          </>
+        }
+        secondaryTypographyProps={{ component: 'div' }}
+      />
+    </ListItem>
+  );
+};
+
+/**
+ * Moves the messages of a dead-letter queue back to their source queue,
+ * or to another one, and lists the progress of the previous moves.
+ */
+const RedriveDialog: FunctionComponent<RedriveDialogProps> = ({
+  open,
+  queueName,
+  endpoint,
+}) => {
+  const { t } = useTranslation();
+  const { withSearchParam } = useLinkUtils();
+  const redriveFetcher = useFetcher<typeof redriveLoader>();
+  const startFetcher = useFetcher<typeof startRedriveAction>();
+  const { load } = redriveFetcher;
+  const action = withSearchParam(
+    'endpoint',
+    endpoint,
+    `/sqs/queues/${queueName}/redrive`,
+  );
+  const tasks = redriveFetcher.data?.tasks ?? [];
+  const isMoving = tasks.some(
+    ({ Status }) => Status === 'RUNNING' || Status === 'CANCELLING',
+  );
+
+  useEffect(() => {
+    if (open) {
+      load(action);
+    }
+  }, [open, action, load]);
+
+  useInterval(
+    () => load(action),
+    open && isMoving ? taskPollingInterval : null,
+  );
+
+  return (
+    <ConfirmationDialog
+      open={open}
+      maxWidth="sm"
+      title={t('redrive')}
+      content={
+        redriveFetcher.data ? (
+          <Stack mt={2} gap={2}>
+            {startFetcher.data?.error && (
+              <Alert severity="error">{startFetcher.data.error}</Alert>
+            )}
+            <TextField
+              select
+              fullWidth
+              size="small"
+              name="destinationArn"
+              label={t('destination')}
+              defaultValue=""
+            >
+              <MenuItem value="">{t('sourceQueues')}</MenuItem>
+              {redriveFetcher.data.queues.map(queue => (
+                <MenuItem key={queue.QueueArn} value={queue.QueueArn}>
+                  {queue.QueueName}
+                </MenuItem>
+              ))}
+            </TextField>
+            <Typography variant="subtitle1" component="h3">
+              {t('messageMoveTasks')}
+            </Typography>
+            {tasks.length > 0 ? (
+              <List dense disablePadding>
+                {tasks.map(task => (
+                  <MessageMoveTaskItem
+                    key={task.TaskHandle}
+                    task={task}
+                    action={action}
+                  />
+                ))}
+              </List>
+            ) : (
+              <Typography variant="body2" color="text.secondary">
+                {t('noMessageMoveTasks')}
+              </Typography>
+            )}
+          </Stack>
+        ) : (
+          <CenteredLoader />
+        )
+      }
+      closeLink={withSearchParam('redrive', null)}
+      component={startFetcher.Form}
+      method="POST"
+      action={action}
+      buttons={
+        <Button
+          type="submit"
+          variant="contained"
+          color="secondary"
+          disabled={!redriveFetcher.data || startFetcher.state !== 'idle'}
+        >
+          {t('startRedrive')}
+        </Button>
+      }
+    />
+  );
+};
+
+export default RedriveDialog;
@@ -1,27 +1,247 @@
-import { DeleteQueueCommand, SendMessageCommand } from '@aws-sdk/client-sqs';
-import { ActionFunctionArgs, redirect } from '@remix-run/server-runtime';
+import {
+  DeleteQueueCommand,
+  GetQueueAttributesCommand,
+  MessageAttributeValue,
+  SendMessageBatchCommand,
+  SendMessageCommand,
+  SetQueueAttributesCommand,
+} from '@aws-sdk/client-sqs';
+import { randomUUID } from 'node:crypto';
+import { ActionFunctionArgs, json, redirect } from '@remix-run/server-runtime';
+import type { TFunction } from 'i18next';
+import { useServerTranslation } from '~/i18next.server';
 import { getAwsClient } from '~/src/aws/server';
+import {
+  jsonQueueAttributes,
+  maxSentMessages,
+  numericQueueAttributes,
+} from '~/src/aws/sqs';
+
+// SendMessageBatch accepts at most 10 messages per request
+const maxSendBatchSize = 10;
+
+export type SentMessageEntry = {
+  index: number;
+  messageId?: string;
+  error?: string;
+};
+
+export type SendMessagesResult = { entries: SentMessageEntry[] };
+
+export type UpdateQueueAttributesResult = { error?: string };
+
+const parseMessageAttributes = (
+  formData: FormData,
+): Record<string, MessageAttributeValue> => {
+  const types = formData.getAll('attributeType');
+  const values = formData.getAll('attributeValue');
+  return Object.fromEntries(
+    formData.getAll('attributeName').map((name, index) => {
+      const DataType = types[index]?.toString() ?? 'String';
+      const value = values[index]?.toString() ?? '';
+      return [
+        name.toString().trim(),
+        // Binary values are entered as Base64
+        DataType === 'Binary'
+          ? { DataType, BinaryValue: Buffer.from(value, 'base64') }
+          : { DataType, StringValue: value },
+      ];
+    }),
+  );
+};
+
+/**
+ * Either the given number of copies of the message, or every element
+ * of the message when it is a JSON array of messages.
+ */
+const parseMessageBodies = (formData: FormData, t: TFunction): string[] => {
+  const message = formData.get('message')?.toString() ?? '';
+  const tooManyMessagesError = new Error(
+    t('tooManyMessages', { max: maxSentMessages }),
+  );
+  if (formData.has('jsonArray')) {
+    const bodies: unknown = JSON.parse(message);
+    if (!Array.isArray(bodies)) {
+      throw new Error(t('messageMustBeJsonArray'));
+    }
+    if (bodies.length > maxSentMessages) {
+      throw tooManyMessagesError;
+    }
+    return bodies.map(body =>
+      typeof body === 'string' ? body : JSON.stringify(body),
+    );
+  }
+  const copies = Math.max(1, Number(formData.get('copies')) || 1);
+  if (copies > maxSentMessages) {
+    throw tooManyMessagesError;
+  }
+  return Array<string>(copies).fill(message);
+};
 
 export const postMessageToQueueAction = async ({
   request,
 }: ActionFunctionArgs) => {
+  const { searchParams } = new URL(request.url);
   const formData = await request.formData();
-  const sqsClient = getAwsClient('sqs');
+  const sqsClient = getAwsClient('sqs', searchParams.get('endpoint'));
   const queueUrl = formData.get('queueUrl')?.toString();
-  const message = formData.get('message')?.toString();
+  const messageAttributes = parseMessageAttributes(formData);
+  const messageGroupId =
+    formData.get('messageGroupId')?.toString() || undefined;
+  const deduplicationId =
+    formData.get('messageDeduplicationId')?.toString() || undefined;
+  const delaySeconds = formData.get('delaySeconds')
+    ? Number(formData.get('delaySeconds'))
+    : undefined;
 
-  await sqsClient.send(
-    new SendMessageCommand({
-      QueueUrl: queueUrl,
-      MessageBody: message,
-    }),
-  );
+  const { t } = await useServerTranslation(request);
+
+  let bodies: string[];
+  try {
+    bodies = parseMessageBodies(formData, t);
+  } catch (error) {
+    return json<SendMessagesResult>({
+      entries: [{ index: 0, error: (error as Error).message }],
+    });
+  }
+
+  if (bodies.length === 1) {
+    try {
+      const { MessageId } = await sqsClient.send(
+        new SendMessageCommand({
+          QueueUrl: queueUrl,
+          MessageBody: bodies[0],
+          MessageAttributes: messageAttributes,
+          MessageGroupId: messageGroupId,
+          MessageDeduplicationId: deduplicationId,
+          DelaySeconds: delaySeconds,
+        }),
+      );
+      return json<SendMessagesResult>({
+        entries: [{ index: 0, messageId: MessageId }],
+      });
+    } catch (error) {
+      return json<SendMessagesResult>({
+        entries: [{ index: 0, error: (error as Error).message }],
+      });
+    }
+  }
+
+  // Content-based deduplication would make FIFO queues drop the copies
+  // of the same message, so they are given their own deduplication IDs
+  const batchDeduplicationId =
+    deduplicationId ??
+    (queueUrl?.endsWith('.fifo') && !formData.has('jsonArray')
+      ? randomUUID()
+      : undefined);
+  const entries: SentMessageEntry[] = [];
+  for (let start = 0; start < bodies.length; start += maxSendBatchSize) {
+    const batch = bodies.slice(start, start + maxSendBatchSize);
+    try {
+      const { Successful = [], Failed = [] } = await sqsClient.send(
+        new SendMessageBatchCommand({
+          QueueUrl: queueUrl,
+          Entries: batch.map((body, batchIndex) => ({
+            Id: `${start + batchIndex}`,
+            MessageBody: body,
+            MessageAttributes: messageAttributes,
+            MessageGroupId: messageGroupId,
+            // Identical deduplication IDs would make FIFO queues drop the copies
+            MessageDeduplicationId:
+              batchDeduplicationId &&
+              `${batchDeduplicationId}-${start + batchIndex}`,
+            DelaySeconds: delaySeconds,
+          })),
+        }),
+      );
+      entries.push(
+        ...Successful.map(({ Id, MessageId }) => ({
+          index: Number(Id),
+          messageId: MessageId,
+        })),
+        ...Failed.map(({ Id, Message, Code }) => ({
+          index: Number(Id),
+          error: Message ?? Code,
+        })),
+      );
+    } catch (error) {
+      entries.push(
+        ...batch.map((_body, batchIndex) => ({
+          index: start + batchIndex,
+          error: (error as Error).message,
+        })),
+      );
+    }
+  }
 
-  return null;
+  return json<SendMessagesResult>({
+    entries: entries.sort((a, b) => a.index - b.index),
+  });
 };
 
-export const deleteQueueAction = async ({ params }: ActionFunctionArgs) => {
-  const sqsClient = getAwsClient('sqs');
+export const updateQueueAttributesAction = async ({
+  request,
+}: ActionFunctionArgs) => {
+  const { searchParams } = new URL(request.url);
+  const formData = await request.formData();
+  const sqsClient = getAwsClient('sqs', searchParams.get('endpoint'));
+  const QueueUrl = formData.get('queueUrl')?.toString();
+  const { t } = await useServerTranslation(request);
+  const attributes: Record<string, string> = {};
+
+  try {
+    // Only the changed attributes are sent, so that SQS does not reject
+    // the request because of an attribute that was not edited
+    const { Attributes: currentAttributes = {} } = await sqsClient.send(
+      new GetQueueAttributesCommand({
+        QueueUrl,
+        AttributeNames: [...numericQueueAttributes, ...jsonQueueAttributes].map(
+          ({ name }) => name,
+        ),
+      }),
+    );
+    for (const { name, label, min, max } of numericQueueAttributes) {
+      const value = Number(formData.get(name));
+      if (formData.get(name) && `${value}` === currentAttributes[name]) {
+        continue;
+      }
+      // Only the changed values are checked, since the ranges accepted
+      // by SQS (or by emulators) might differ from the ones known here
+      if (!formData.get(name) || value < min || value > max) {
+        throw new Error(t('attributeOutOfRange', { name: t(label), min, max }));
+      }
+      attributes[name] = `${value}`;
+    }
+    for (const { name } of jsonQueueAttributes) {
+      const value = formData.get(name)?.toString().trim() ?? '';
+      // An empty value removes the policy from the queue
+      if (value) {
+        JSON.parse(value);
+      }
+      if (value !== (currentAttributes[name] ?? '')) {
+        attributes[name] = value;
+      }
+    }
+    if (Object.keys(attributes).length > 0) {
+      await sqsClient.send(
+        new SetQueueAttributesCommand({ QueueUrl, Attributes: attributes }),
+      );
+    }
+  } catch (error) {
+    return json<UpdateQueueAttributesResult>({
+      error: (error as Error).message,
+    });
+  }
+
+  return json<UpdateQueueAttributesResult>({});
+};
+
+export const deleteQueueAction = async ({
+  request,
+  params,
+}: ActionFunctionArgs) => {
+  const { searchParams } = new URL(request.url);
+  const sqsClient = getAwsClient('sqs', searchParams.get('endpoint'));
 
   await sqsClient.send(
     new DeleteQueueCommand({
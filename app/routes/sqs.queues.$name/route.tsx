@@ -3,7 +3,6 @@ import {
   GetQueueUrlCommand,
   ListDeadLetterSourceQueuesCommand,
   QueueAttributeName,
-  ReceiveMessageCommand,
 } from '@aws-sdk/client-sqs';
 import {
   ActionFunctionArgs,
@@ -14,15 +13,20 @@ import {
 import { useLoaderData } from '@remix-run/react';
 import { FunctionComponent } from 'react';
 import { getAwsClient } from '~/src/aws/server';
+import { receiveMessages } from '~/src/aws/sqs.server';
 import { computeTitle, ignoreSearchChanges } from '~/src/utils';
 import QueueSidebar from './QueueSidebar';
-import { deleteQueueAction, postMessageToQueueAction } from './actions';
+import {
+  deleteQueueAction,
+  postMessageToQueueAction,
+  updateQueueAttributesAction,
+} from './actions';
 import type { MetaFunction } from '@remix-run/node';
 import { useServerTranslation } from '~/i18next.server';
 
 export const loader = async ({ request, params }: LoaderFunctionArgs) => {
-  const sqsClient = getAwsClient('sqs');
   const { searchParams } = new URL(request.url);
+  const sqsClient = getAwsClient('sqs', searchParams.get('endpoint'));
   const extraIncludes = searchParams.getAll('include');
   const QueueName = params.name;
   const serverTranslationPromise = useServerTranslation(request);
@@ -38,15 +42,11 @@ export const loader = async ({ request, params }: LoaderFunctionArgs) => {
   const { queueUrls: deadLetterSourceQueues } = await sqsClient.send(
     new ListDeadLetterSourceQueuesCommand({ QueueUrl }),
   );
-  const { Messages } = extraIncludes.includes('messages')
-    ? await sqsClient.send(
-        new ReceiveMessageCommand({
-          QueueUrl: QueueUrl,
-          MaxNumberOfMessages: 10,
-          WaitTimeSeconds: 3,
-        }),
-      )
-    : { Messages: undefined };
+  // Messages are only peeked here, while receiving them is an explicit action
+  const Messages =
+    extraIncludes.includes('messages') && searchParams.get('mode') !== 'receive'
+      ? await receiveMessages(sqsClient, QueueUrl, { peek: true })
+      : undefined;
   const { t } = await serverTranslationPromise;
 
   return json({
@@ -72,6 +72,8 @@ export const action = (args: ActionFunctionArgs) => {
   switch (args.request.method) {
     case 'POST':
       return postMessageToQueueAction(args);
+    case 'PATCH':
+      return updateQueueAttributesAction(args);
     case 'DELETE':
       return deleteQueueAction(args);
   }
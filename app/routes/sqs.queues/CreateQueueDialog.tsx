@@ -11,12 +11,14 @@ import {
 } from '@mui/material';
 import { SerializeFrom } from '@remix-run/server-runtime';
 import ConfirmationDialog from '~/src/components/ConfirmationDialog';
+import EndpointSelect from '~/src/components/EndpointSelect';
 import useLinkUtils from '~/src/hooks/useLinkUtils';
 import { loader } from './route';
 
 export interface CreateQueueDialogProps {
   open: boolean;
   existingQueues: SerializeFrom<typeof loader>['queues'];
+  endpoints: string[];
 }
 
 const fifoSuffix = '.fifo';
@@ -24,18 +26,24 @@ const fifoSuffix = '.fifo';
 const CreateQueueDialog: FunctionComponent<CreateQueueDialogProps> = ({
   open,
   existingQueues,
+  endpoints,
 }) => {
   const { t } = useTranslation();
   const { withSearchParam } = useLinkUtils();
+  const [endpoint, setEndpoint] = useState(endpoints[0]);
+  // The DLQ must be in the same endpoint as the queue
+  const endpointQueues = existingQueues.filter(
+    queue => queue.EndpointUrl === endpoint,
+  );
   const [isFifo, setIsFifo] = useState(false);
   const [providedDlqName, setProvidedDlqName] = useState('');
   const dlqName = `${providedDlqName}${isFifo ? fifoSuffix : ''}`;
   const maxNameLength = isFifo ? 80 - fifoSuffix.length : 80;
   const availableDlqs = isFifo
-    ? existingQueues
+    ? endpointQueues
         .filter(queue => queue.QueueName.endsWith(fifoSuffix))
         .map(queue => queue.QueueName.slice(0, -fifoSuffix.length))
-    : existingQueues
+    : endpointQueues
         .filter(queue => !queue.QueueName.endsWith(fifoSuffix))
         .map(queue => queue.QueueName);
   const dlqExists = availableDlqs.includes(providedDlqName);
@@ -55,6 +63,15 @@ const CreateQueueDialog: FunctionComponent<CreateQueueDialogProps> = ({
       title={t('createQueue')}
       content={
         <>
+          {endpoints.length > 1 && (
+            <EndpointSelect
+              fullWidth
+              endpoints={endpoints}
+              value={endpoint}
+              onChange={setEndpoint}
+              sx={{ mt: 2 }}
+            />
+          )}
           <TextField
             fullWidth
             required
@@ -141,7 +158,11 @@ const CreateQueueDialog: FunctionComponent<CreateQueueDialogProps> = ({
       }
       closeLink={withSearchParam('create', null)}
       method="POST"
-      action="/sqs/queues"
+      action={withSearchParam(
+        'endpoint',
+        endpoints.length > 1 ? endpoint : null,
+        '/sqs/queues',
+      )}
       buttons={
         <Button type="submit" variant="contained" color="secondary">
           {t('create')}
@@ -6,7 +6,7 @@ import useLinkUtils from '~/src/hooks/useLinkUtils';
 
 export interface DeleteQueuesDialogProps {
   open: boolean;
-  queues: string[];
+  queues: { QueueUrl: string; EndpointUrl: string }[];
 }
 
 const DeleteQueuesDialog: FunctionComponent<DeleteQueuesDialogProps> = ({
@@ -26,7 +26,17 @@ const DeleteQueuesDialog: FunctionComponent<DeleteQueuesDialogProps> = ({
       action="/sqs/queues"
       buttons={
         <>
-          <input type="hidden" name="names" value={queues.join(',')} />
+          <input
+            type="hidden"
+            name="names"
+            value={queues.map(queue => queue.QueueUrl).join(',')}
+          />
+          {/* The selected queues might belong to different endpoints */}
+          <input
+            type="hidden"
+            name="endpoints"
+            value={queues.map(queue => queue.EndpointUrl).join(',')}
+          />
           <Button type="submit" variant="contained" color="error" autoFocus>
             {t('delete')}
           </Button>
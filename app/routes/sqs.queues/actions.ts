@@ -53,8 +53,9 @@ const getOrCreateQueueArn = async (
 };
 
 export const createQueueAction = async ({ request }: ActionFunctionArgs) => {
+  const { searchParams } = new URL(request.url);
   const formData = await request.formData();
-  const sqsClient = getAwsClient('sqs');
+  const sqsClient = getAwsClient('sqs', searchParams.get('endpoint'));
   const isFifo = formData.has('fifo');
   const FifoQueue = isFifo.toString();
   const ContentBasedDeduplication = formData
@@ -97,13 +98,18 @@ export const createQueueAction = async ({ request }: ActionFunctionArgs) => {
 };
 
 export const deleteQueuesAction = async ({ request }: ActionFunctionArgs) => {
+  const { searchParams } = new URL(request.url);
   const formData = await request.formData();
-  const sqsClient = getAwsClient('sqs');
   const queuesToDelete = formData.get('names')?.toString().split(',') ?? [];
+  // The endpoint of each queue, when they don't all belong to the same one
+  const queueEndpoints = formData.get('endpoints')?.toString().split(',') ?? [];
 
   await Promise.all(
-    queuesToDelete.map(queue =>
-      sqsClient.send(
+    queuesToDelete.map((queue, index) =>
+      getAwsClient(
+        'sqs',
+        queueEndpoints[index] || searchParams.get('endpoint'),
+      ).send(
         new DeleteQueueCommand({
           QueueUrl: queue,
         }),
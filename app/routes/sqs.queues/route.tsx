@@ -1,8 +1,13 @@
-import { FunctionComponent, useEffect } from 'react';
+import { FunctionComponent, useEffect, useMemo } from 'react';
 import { useTranslation } from 'react-i18next';
-import { ListQueuesCommand } from '@aws-sdk/client-sqs';
+import {
+  GetQueueAttributesCommand,
+  ListQueuesCommand,
+  QueueAttributeName,
+} from '@aws-sdk/client-sqs';
 import { ActionFunctionArgs, json, redirect } from '@remix-run/node';
 import {
+  useFetcher,
   useLoaderData,
   Link as RemixLink,
   useRevalidator,
@@ -16,39 +21,111 @@ import {
   Link,
   Stack,
   IconButton,
+  Chip,
+  Tooltip,
   styled,
 } from '@mui/material';
 import {
   Refresh as RefreshIcon,
   Clear as ClearIcon,
 } from '@mui/icons-material';
-import DataGrid from '~/src/components/DataGrid';
+import DataGrid, { GridColDef } from '~/src/components/DataGrid';
 import useFuzzySearch from '~/src/hooks/useFuzzySearch';
-import { highlightMatches, ignoreSearchChanges } from '~/src/utils';
+import {
+  formatDateTime,
+  highlightMatches,
+  ignoreSearchChanges,
+} from '~/src/utils';
 import CurrentPath from '~/src/components/CurrentPath';
-import { getAwsClient } from '~/src/aws/server';
+import { ServiceClient, getAwsClientsGroup } from '~/src/aws/server';
 import CreateQueueDialog from './CreateQueueDialog';
 import DeleteQueuesDialog from './DeleteQueuesDialog';
 import useLinkUtils from '~/src/hooks/useLinkUtils';
+import useInterval from '~/src/hooks/useInterval';
 import TableOverlay from '~/src/components/TableOverlay';
 import { computeTitle } from '~/src/utils';
 import { useServerTranslation } from '~/i18next.server';
 import { createQueueAction, deleteQueuesAction } from './actions';
 import type { LoaderFunctionArgs, MetaFunction } from '@remix-run/node';
 
+// How often the message counts are refreshed while the list is open
+const metricsPollingInterval = 5000;
+
+const queueMetricsAttributes: QueueAttributeName[] = [
+  'QueueArn',
+  'ApproximateNumberOfMessages',
+  'ApproximateNumberOfMessagesNotVisible',
+  'ApproximateNumberOfMessagesDelayed',
+  'CreatedTimestamp',
+  'FifoQueue',
+  'RedrivePolicy',
+];
+
+const listQueuesWithMetrics = async (
+  sqsClient: ServiceClient<'sqs'>,
+  EndpointUrl: string,
+) => {
+  const { QueueUrls = [] } = await sqsClient.send(new ListQueuesCommand({}));
+  const queues = await Promise.all(
+    QueueUrls.map(async QueueUrl => {
+      // The queue might have been deleted after being listed
+      const { Attributes = {} } = await sqsClient
+        .send(
+          new GetQueueAttributesCommand({
+            QueueUrl,
+            AttributeNames: queueMetricsAttributes,
+          }),
+        )
+        .catch(() => ({ Attributes: undefined }));
+      return {
+        QueueName: QueueUrl.slice(QueueUrl.lastIndexOf('/') + 1),
+        QueueUrl,
+        EndpointUrl,
+        Attributes,
+      };
+    }),
+  );
+  // A queue is a DLQ when the redrive policy of another queue targets it
+  const deadLetterTargetArns = new Set(
+    queues.flatMap(({ Attributes }) => {
+      try {
+        return Attributes.RedrivePolicy
+          ? [JSON.parse(Attributes.RedrivePolicy).deadLetterTargetArn]
+          : [];
+      } catch {
+        // Some emulators return redrive policies that are not valid JSON
+        return [];
+      }
+    }),
+  );
+  return queues.map(({ Attributes, ...queue }) => ({
+    ...queue,
+    IsFifo: Attributes.FifoQueue === 'true',
+    IsDeadLetterQueue: deadLetterTargetArns.has(Attributes.QueueArn),
+    VisibleMessages: Number(Attributes.ApproximateNumberOfMessages ?? 0),
+    InFlightMessages: Number(
+      Attributes.ApproximateNumberOfMessagesNotVisible ?? 0,
+    ),
+    DelayedMessages: Number(Attributes.ApproximateNumberOfMessagesDelayed ?? 0),
+    // SQS returns the creation time in seconds since the epoch
+    CreatedTimestamp: Attributes.CreatedTimestamp
+      ? Number(Attributes.CreatedTimestamp) * 1000
+      : undefined,
+  }));
+};
+
 export const loader = async ({ request }: LoaderFunctionArgs) => {
-  const sqsClient = getAwsClient('sqs');
-  const [{ t }, response] = await Promise.all([
+  const sqsClients = getAwsClientsGroup('sqs');
+  const [{ t }, ...responses] = await Promise.all([
     useServerTranslation(request),
-    sqsClient.send(new ListQueuesCommand({})),
+    ...Array.from(sqsClients.entries(), ([url, sqsClient]) =>
+      listQueuesWithMetrics(sqsClient, url),
+    ),
   ]);
   return json({
     meta: { titleParts: [t('queues')] },
-    queues:
-      response.QueueUrls?.map(QueueUrl => ({
-        QueueName: QueueUrl.slice(QueueUrl.lastIndexOf('/') + 1),
-        QueueUrl,
-      })) ?? [],
+    queues: responses.flat(),
+    endpoints: Array.from(sqsClients.keys()),
   });
 };
 
@@ -76,7 +153,21 @@ const SearchField = styled(TextField)({
 
 const QueuesList: FunctionComponent = () => {
   const { t } = useTranslation();
-  const { queues } = useLoaderData<typeof loader>();
+  const { queues: loadedQueues, endpoints } = useLoaderData<typeof loader>();
+  // Only the list is reloaded, so that the open queue is not revalidated
+  const metricsFetcher = useFetcher<typeof loader>();
+  const { load } = metricsFetcher;
+  // Created and deleted queues come from the loader, the counts from the
+  // latest refresh
+  const queues = useMemo(() => {
+    const refreshedQueues = new Map(
+      metricsFetcher.data?.queues.map(queue => [queue.QueueUrl, queue]),
+    );
+    return loadedQueues.map(
+      queue => refreshedQueues.get(queue.QueueUrl) ?? queue,
+    );
+  }, [loadedQueues, metricsFetcher.data]);
+  const hasMultipleEndpoints = endpoints.length > 1;
   const { revalidate } = useRevalidator();
   const [searchParams, setSearchParams] = useSearchParams();
   const { withSearchParam, withPathname } = useLinkUtils();
@@ -87,6 +178,13 @@ const QueuesList: FunctionComponent = () => {
     includeMatches: true,
   });
 
+  useInterval(() => {
+    // Skip this tick if the previous refresh has not completed yet
+    if (metricsFetcher.state === 'idle') {
+      load('/sqs/queues');
+    }
+  }, metricsPollingInterval);
+
   useEffect(() => {
     if (selectedQueues.length > 0) {
       return;
@@ -186,21 +284,96 @@ const QueuesList: FunctionComponent = () => {
             field: 'name',
             headerName: t('name'),
             renderCell: params => (
-              <Link
-                to={withPathname(`/sqs/queues/${params.row.item.QueueName}`)}
-                color="secondary"
-                component={RemixLink}
-                unstable_viewTransition
-              >
-                {highlightMatches(
-                  params.row.item.QueueName,
-                  params.row.matches?.[0]?.indices,
+              <Stack direction="row" alignItems="center" gap={0.5}>
+                <Link
+                  to={withSearchParam(
+                    'endpoint',
+                    (hasMultipleEndpoints && params.row.item.EndpointUrl) ||
+                      null,
+                    withPathname(`/sqs/queues/${params.row.item.QueueName}`),
+                  )}
+                  color="secondary"
+                  component={RemixLink}
+                  unstable_viewTransition
+                >
+                  {highlightMatches(
+                    params.row.item.QueueName,
+                    params.row.matches?.[0]?.indices,
+                  )}
+                </Link>
+                {params.row.item.IsFifo && (
+                  <Tooltip title={t('firstInFirstOut')}>
+                    <Chip size="small" label="FIFO" />
+                  </Tooltip>
                 )}
-              </Link>
+                {params.row.item.IsDeadLetterQueue && (
+                  <Tooltip title={t('deadLetterQueue')}>
+                    <Chip size="small" label="DLQ" />
+                  </Tooltip>
+                )}
+              </Stack>
             ),
+            valueGetter: (_, row) => row.item.QueueName,
             sortable: !search,
             flex: 1,
           },
+          {
+            field: 'visibleMessages',
+            headerName: t('visibleMessages'),
+            type: 'number',
+            valueGetter: (_, row) => row.item.VisibleMessages,
+            sortable: !search,
+            width: 120,
+          },
+          {
+            field: 'inFlightMessages',
+            headerName: t('inFlightMessages'),
+            type: 'number',
+            valueGetter: (_, row) => row.item.InFlightMessages,
+            sortable: !search,
+            width: 120,
+          },
+          {
+            field: 'delayedMessages',
+            headerName: t('delayedMessages'),
+            type: 'number',
+            valueGetter: (_, row) => row.item.DelayedMessages,
+            sortable: !search,
+            width: 120,
+          },
+          {
+            field: 'creationDate',
+            headerName: t('creationDate'),
+            renderCell: params => (
+              <time
+                dateTime={
+                  params.row.item.CreatedTimestamp
+                    ? new Date(params.row.item.CreatedTimestamp).toISOString()
+                    : undefined
+                }
+              >
+                {formatDateTime(params.row.item.CreatedTimestamp)}
+              </time>
+            ),
+            valueGetter: (_, row) => row.item.CreatedTimestamp,
+            sortable: !search,
+            width: 200,
+          },
+          ...(hasMultipleEndpoints
+            ? [
+                {
+                  field: 'endpointUrl',
+                  headerName: t('endpoint'),
+                  renderCell: params => (
+                    <Link component={Typography}>
+                      {params.row.item.EndpointUrl}
+                    </Link>
+                  ),
+                  sortable: !search,
+                  flex: 1,
+                } as GridColDef<(typeof searchResults)[number]>,
+              ]
+            : []),
         ]}
         getRowId={row => row.item.QueueUrl}
         checkboxSelection
@@ -216,10 +389,11 @@ const QueuesList: FunctionComponent = () => {
       <CreateQueueDialog
         open={searchParams.has('create')}
         existingQueues={queues}
+        endpoints={endpoints}
       />
       <DeleteQueuesDialog
         open={searchParams.has('delete') && queues.length > 0}
-        queues={selectedQueues}
+        queues={queues.filter(queue => selectedQueues.includes(queue.QueueUrl))}
       />
       <Outlet />
     </>
@@ -0,0 +1,93 @@
+import {
+  AttributeValue,
+  BatchWriteItemCommand,
+  DescribeTableCommand,
+  WriteRequest,
+} from '@aws-sdk/client-dynamodb';
+import type { ServiceClient } from './server';
+
+export type BatchWriteResult = {
+  written: number;
+  failed: number;
+  errors: string[];
+};
+
+// BatchWriteItem accepts at most 25 items per request
+const maxBatchSize = 25;
+const maxAttempts = 5;
+
+/**
+ * Writes the given items in batches, retrying the unprocessed ones with an
+ * exponential backoff, as suggested by the DynamoDB documentation.
+ * Errors do not stop the remaining batches, they are reported instead.
+ */
+export const batchWriteItems = async (
+  dynamoDbClient: ServiceClient<'dynamodb'>,
+  tableName: string,
+  items: Record<string, AttributeValue>[],
+): Promise<BatchWriteResult> => {
+  const result: BatchWriteResult = { written: 0, failed: 0, errors: [] };
+
+  for (let index = 0; index < items.length; index += maxBatchSize) {
+    let writeRequests: WriteRequest[] = items
+      .slice(index, index + maxBatchSize)
+      .map(item => ({ PutRequest: { Item: item } }));
+    const batchSize = writeRequests.length;
+    try {
+      for (
+        let attempt = 0;
+        attempt < maxAttempts && writeRequests.length > 0;
+        attempt++
+      ) {
+        if (attempt > 0) {
+          await new Promise(resolve => setTimeout(resolve, 50 * 2 ** attempt));
+        }
+        const { UnprocessedItems } = await dynamoDbClient.send(
+          new BatchWriteItemCommand({
+            RequestItems: { [tableName]: writeRequests },
+          }),
+        );
+        writeRequests = UnprocessedItems?.[tableName] ?? [];
+      }
+      result.written += batchSize - writeRequests.length;
+      result.failed += writeRequests.length;
+    } catch (error) {
+      result.failed += batchSize;
+      result.errors.push((error as Error).message);
+    }
+  }
+
+  return result;
+};
+
+const tableStatusPollingInterval = 1000;
+const maxTableStatusAttempts = 60;
+
+/**
+ * Waits for the table and its global secondary indexes to be active,
+ * since DynamoDB rejects any `UpdateTable` request while they are updating.
+ * Returns whether they became active before the attempts ran out.
+ */
+export const waitForActiveTable = async (
+  dynamoDbClient: ServiceClient<'dynamodb'>,
+  tableName: string,
+  maxAttempts = maxTableStatusAttempts,
+): Promise<boolean> => {
+  for (let attempt = 0; attempt < maxAttempts; attempt++) {
+    const { Table } = await dynamoDbClient.send(
+      new DescribeTableCommand({ TableName: tableName }),
+    );
+    if (
+      Table?.TableStatus === 'ACTIVE' &&
+      (Table.GlobalSecondaryIndexes ?? []).every(
+        ({ IndexStatus }) => IndexStatus === 'ACTIVE',
+      )
+    ) {
+      return true;
+    }
+    await new Promise(resolve =>
+      setTimeout(resolve, tableStatusPollingInterval),
+    );
+  }
+  return false;
+};
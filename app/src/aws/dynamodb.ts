@@ -0,0 +1,1076 @@
+import type {
+  AttributeDefinition,
+  AttributeValue,
+  BillingMode,
+  CreateTableCommandInput,
+  GlobalSecondaryIndex,
+  KeySchemaElement,
+  LocalSecondaryIndex,
+  Projection,
+  ProjectionType,
+  ProvisionedThroughput,
+  SSESpecification,
+  ScalarAttributeType,
+  StreamViewType,
+  TableClass,
+  TableDescription,
+  UpdateTableCommandInput,
+} from '@aws-sdk/client-dynamodb';
+import { CsvError, parse as parseCsv } from 'csv-parse/browser/esm/sync';
+import { base64UrlDecode, base64UrlEncode } from '../utils';
+
+/**
+ * A JSON-safe version of the DynamoDB `AttributeValue`, where binary values
+ * are represented as base64 strings (the same format used by the AWS CLI).
+ */
+export type SerializedAttributeValue =
+  | { S: string }
+  | { N: string }
+  | { B: string }
+  | { SS: string[] }
+  | { NS: string[] }
+  | { BS: string[] }
+  | { M: SerializedItem }
+  | { L: SerializedAttributeValue[] }
+  | { NULL: boolean }
+  | { BOOL: boolean };
+
+export type SerializedItem = Record<string, SerializedAttributeValue>;
+
+export type ItemsMode = 'scan' | 'query';
+
+export type SortKeyOperator =
+  | '='
+  | '<'
+  | '<='
+  | '>'
+  | '>='
+  | 'between'
+  | 'begins_with';
+
+export const sortKeyOperators: SortKeyOperator[] = [
+  '=',
+  '<',
+  '<=',
+  '>',
+  '>=',
+  'between',
+  'begins_with',
+];
+
+export const uint8ArrayToBase64 = (data: Uint8Array): string =>
+  btoa(Array.from(data, byte => String.fromCharCode(byte)).join(''));
+
+export const base64ToUint8Array = (data: string): Uint8Array =>
+  Uint8Array.from(atob(data), char => char.charCodeAt(0));
+
+export const serializeAttributeValue = (
+  value: AttributeValue,
+): SerializedAttributeValue => {
+  if (value.B !== undefined) {
+    return { B: uint8ArrayToBase64(value.B) };
+  }
+  if (value.BS !== undefined) {
+    return { BS: value.BS.map(uint8ArrayToBase64) };
+  }
+  if (value.M !== undefined) {
+    return { M: serializeItem(value.M) };
+  }
+  if (value.L !== undefined) {
+    return { L: value.L.map(serializeAttributeValue) };
+  }
+  return value as SerializedAttributeValue;
+};
+
+export const serializeItem = (
+  item: Record<string, AttributeValue>,
+): SerializedItem =>
+  Object.fromEntries(
+    Object.entries(item).map(([name, value]) => [
+      name,
+      serializeAttributeValue(value),
+    ]),
+  );
+
+export const deserializeAttributeValue = (
+  value: SerializedAttributeValue,
+): AttributeValue => {
+  if ('B' in value) {
+    return { B: base64ToUint8Array(value.B) };
+  }
+  if ('BS' in value) {
+    return { BS: value.BS.map(base64ToUint8Array) };
+  }
+  if ('M' in value) {
+    return { M: deserializeItem(value.M) };
+  }
+  if ('L' in value) {
+    return { L: value.L.map(deserializeAttributeValue) };
+  }
+  return value as AttributeValue;
+};
+
+export const deserializeItem = (
+  item: SerializedItem,
+): Record<string, AttributeValue> =>
+  Object.fromEntries(
+    Object.entries(item).map(([name, value]) => [
+      name,
+      deserializeAttributeValue(value),
+    ]),
+  );
+
+// Keys are passed around in URLs (e.g. the LastEvaluatedKey used for pagination),
+// so we encode them in a URL-safe format
+export const encodeItemKey = (key: SerializedItem): string =>
+  base64UrlEncode(JSON.stringify(key));
+
+export const decodeItemKey = (
+  encodedKey: string,
+): Record<string, AttributeValue> =>
+  deserializeItem(JSON.parse(base64UrlDecode(encodedKey)));
+
+export const pickItemKey = (
+  item: SerializedItem,
+  keySchema: Partial<KeySchemaElement>[],
+): SerializedItem =>
+  Object.fromEntries(
+    keySchema
+      .filter(({ AttributeName }) => !!AttributeName && AttributeName in item)
+      .map(({ AttributeName }) => [AttributeName!, item[AttributeName!]]),
+  );
+
+export const formatAttributeValue = (
+  value: SerializedAttributeValue | undefined,
+): string => {
+  if (!value) {
+    return '';
+  }
+  if ('S' in value) {
+    return value.S;
+  }
+  if ('N' in value) {
+    return value.N;
+  }
+  if ('B' in value) {
+    return value.B;
+  }
+  if ('BOOL' in value) {
+    return value.BOOL.toString();
+  }
+  if ('NULL' in value) {
+    return 'null';
+  }
+  if ('SS' in value || 'NS' in value || 'BS' in value) {
+    const [values] = Object.values(value) as string[][];
+    return `{${values.join(', ')}}`;
+  }
+  return JSON.stringify('M' in value ? value.M : value.L);
+};
+
+export type PlainValue =
+  | string
+  | number
+  | boolean
+  | null
+  | PlainValue[]
+  | { [key: string]: PlainValue };
+
+export type PlainItem = Record<string, PlainValue>;
+
+/**
+ * Converts a serialized attribute value to plain JSON, similarly to what the
+ * document client does when unmarshalling. Since JSON has no sets nor binary
+ * values, sets are converted to lists and binary values to base64 strings.
+ */
+export const toPlainValue = (value: SerializedAttributeValue): PlainValue => {
+  if ('S' in value) {
+    return value.S;
+  }
+  if ('N' in value) {
+    return Number(value.N);
+  }
+  if ('B' in value) {
+    return value.B;
+  }
+  if ('BOOL' in value) {
+    return value.BOOL;
+  }
+  if ('NULL' in value) {
+    return null;
+  }
+  if ('SS' in value) {
+    return value.SS;
+  }
+  if ('NS' in value) {
+    return value.NS.map(Number);
+  }
+  if ('BS' in value) {
+    return value.BS;
+  }
+  if ('M' in value) {
+    return toPlainItem(value.M);
+  }
+  return value.L.map(toPlainValue);
+};
+
+export const toPlainItem = (item: SerializedItem): PlainItem =>
+  Object.fromEntries(
+    Object.entries(item).map(([name, value]) => [name, toPlainValue(value)]),
+  );
+
+export const fromPlainValue = (value: PlainValue): SerializedAttributeValue => {
+  if (value === null) {
+    return { NULL: true };
+  }
+  if (Array.isArray(value)) {
+    return { L: value.map(fromPlainValue) };
+  }
+  switch (typeof value) {
+    case 'string':
+      return { S: value };
+    case 'number':
+      return { N: value.toString() };
+    case 'boolean':
+      return { BOOL: value };
+    default:
+      return { M: fromPlainItem(value) };
+  }
+};
+
+export const fromPlainItem = (item: PlainItem): SerializedItem =>
+  Object.fromEntries(
+    Object.entries(item).map(([name, value]) => [name, fromPlainValue(value)]),
+  );
+
+// Doubles only preserve up to 15 significant decimal digits
+const maxSafeSignificantDigits = 15;
+
+const isSafeNumber = (value: string) =>
+  value
+    .replace(/^[-+]/, '')
+    .replace(/e.*$/i, '')
+    .replace('.', '')
+    .replace(/^0+/, '')
+    .replace(/0+$/, '').length <= maxSafeSignificantDigits;
+
+/**
+ * Whether the value can be converted to plain JSON and back without changing
+ * its type or losing precision, which is not the case for sets, binary values
+ * and numbers with too many significant digits.
+ */
+export const isPlainConvertibleValue = (
+  value: SerializedAttributeValue,
+): boolean => {
+  if ('SS' in value || 'NS' in value || 'BS' in value || 'B' in value) {
+    return false;
+  }
+  if ('N' in value) {
+    return isSafeNumber(value.N);
+  }
+  if ('M' in value) {
+    return isPlainConvertibleItem(value.M);
+  }
+  if ('L' in value) {
+    return value.L.every(isPlainConvertibleValue);
+  }
+  return true;
+};
+
+export const isPlainConvertibleItem = (item: SerializedItem): boolean =>
+  Object.values(item).every(isPlainConvertibleValue);
+
+const isStringArray = (value: unknown) =>
+  Array.isArray(value) && value.every(element => typeof element === 'string');
+
+/**
+ * Whether the value has the shape of a DynamoDB JSON attribute value, i.e.
+ * an object with a single type key, such as `{ "S": "..." }`.
+ */
+const isSerializedAttributeValue = (
+  value: unknown,
+): value is SerializedAttributeValue => {
+  if (typeof value !== 'object' || value === null) {
+    return false;
+  }
+  const entries = Object.entries(value);
+  if (entries.length !== 1) {
+    return false;
+  }
+  const [[type, content]] = entries;
+  switch (type) {
+    case 'S':
+    case 'N':
+    case 'B':
+      return typeof content === 'string';
+    case 'BOOL':
+    case 'NULL':
+      return typeof content === 'boolean';
+    case 'SS':
+    case 'NS':
+    case 'BS':
+      return isStringArray(content);
+    case 'L':
+      return (
+        Array.isArray(content) && content.every(isSerializedAttributeValue)
+      );
+    case 'M':
+      return isSerializedItem(content);
+    default:
+      return false;
+  }
+};
+
+export const isSerializedItem = (item: unknown): item is SerializedItem =>
+  typeof item === 'object' &&
+  item !== null &&
+  !Array.isArray(item) &&
+  Object.values(item).every(isSerializedAttributeValue);
+
+export type ItemFormat = 'plain' | 'raw';
+
+const isValidKeyValue = (
+  value: unknown,
+  type: string,
+  format: ItemFormat,
+): boolean => {
+  if (format === 'plain') {
+    // The document client marshalls strings to S and numbers to N,
+    // while there is no way to represent binary values in plain JSON
+    return type === 'N'
+      ? typeof value === 'number'
+      : type === 'S' && typeof value === 'string' && value !== '';
+  }
+  if (!value || typeof value !== 'object' || !(type in value)) {
+    return false;
+  }
+  return (value as Record<string, unknown>)[type] !== '';
+};
+
+/**
+ * Checks the key attributes of the given item against the table key schema,
+ * returning the key attributes that are either missing or of the wrong type.
+ */
+export const findInvalidKeyAttributes = (
+  item: Record<string, unknown>,
+  table: TableDescription | undefined,
+  format: ItemFormat,
+): { name: string; type: string }[] =>
+  (table?.KeySchema ?? [])
+    .map(({ AttributeName = '' }) => ({
+      name: AttributeName,
+      type: getAttributeType(table?.AttributeDefinitions, AttributeName),
+    }))
+    .filter(({ name, type }) => !isValidKeyValue(item[name], type, format));
+
+/**
+ * Builds an update expression that sets all the given attributes
+ * and removes the provided ones.
+ */
+export const buildUpdateExpression = <T>(
+  attributesToSet: Record<string, T>,
+  attributesToRemove: string[],
+):
+  | {
+      UpdateExpression: string;
+      ExpressionAttributeNames: Record<string, string>;
+      ExpressionAttributeValues?: Record<string, T>;
+    }
+  | undefined => {
+  const setEntries = Object.entries(attributesToSet);
+  if (setEntries.length < 1 && attributesToRemove.length < 1) {
+    return;
+  }
+  const setClause = setEntries
+    .map((_, index) => `#set${index} = :set${index}`)
+    .join(', ');
+  const removeClause = attributesToRemove
+    .map((_, index) => `#remove${index}`)
+    .join(', ');
+
+  return {
+    UpdateExpression: [
+      ...(setClause ? [`SET ${setClause}`] : []),
+      ...(removeClause ? [`REMOVE ${removeClause}`] : []),
+    ].join(' '),
+    ExpressionAttributeNames: {
+      ...Object.fromEntries(
+        setEntries.map(([name], index) => [`#set${index}`, name]),
+      ),
+      ...Object.fromEntries(
+        attributesToRemove.map((name, index) => [`#remove${index}`, name]),
+      ),
+    },
+    ...(setEntries.length > 0 && {
+      ExpressionAttributeValues: Object.fromEntries(
+        setEntries.map(([, value], index) => [`:set${index}`, value]),
+      ),
+    }),
+  };
+};
+
+/**
+ * Returns the key schema to use for the given index, falling back to
+ * the table key schema if no index is provided.
+ */
+export const getKeySchema = (
+  table: TableDescription | undefined,
+  indexName?: string | null,
+): KeySchemaElement[] => {
+  if (!indexName) {
+    return table?.KeySchema ?? [];
+  }
+  const index = [
+    ...(table?.GlobalSecondaryIndexes ?? []),
+    ...(table?.LocalSecondaryIndexes ?? []),
+  ].find(index => index.IndexName === indexName);
+  return index?.KeySchema ?? [];
+};
+
+export const getKeyAttributes = (
+  keySchema: Partial<KeySchemaElement>[],
+): { partitionKey?: string; sortKey?: string } => ({
+  partitionKey: keySchema.find(({ KeyType }) => KeyType === 'HASH')
+    ?.AttributeName,
+  sortKey: keySchema.find(({ KeyType }) => KeyType === 'RANGE')?.AttributeName,
+});
+
+export const getAttributeType = (
+  attributeDefinitions: AttributeDefinition[] | undefined,
+  attributeName: string | undefined,
+) =>
+  attributeDefinitions?.find(
+    ({ AttributeName }) => AttributeName === attributeName,
+  )?.AttributeType ?? 'S';
+
+export const toKeyAttributeValue = (
+  type: string,
+  value: string,
+): AttributeValue => {
+  switch (type) {
+    case 'N':
+      return { N: value };
+    case 'B':
+      return { B: base64ToUint8Array(value) };
+    default:
+      return { S: value };
+  }
+};
+
+export interface ItemsFilter {
+  mode: ItemsMode;
+  indexName?: string;
+  partitionKeyValue?: string;
+  sortKeyOperator?: SortKeyOperator;
+  sortKeyValue?: string;
+  sortKeyEndValue?: string;
+  limit: number;
+}
+
+const defaultItemsLimit = 50;
+
+const isSortKeyOperator = (value: string | null): value is SortKeyOperator =>
+  sortKeyOperators.includes(value as SortKeyOperator);
+
+export const parseItemsFilter = (
+  searchParams: URLSearchParams,
+): ItemsFilter => {
+  const sortKeyOperator = searchParams.get('sortKeyOperator');
+  const limit = Number(searchParams.get('limit'));
+  return {
+    mode: searchParams.get('mode') === 'query' ? 'query' : 'scan',
+    indexName: searchParams.get('index') || undefined,
+    partitionKeyValue: searchParams.get('partitionKey') ?? undefined,
+    // The URL can be edited by hand, so unknown values fall back to defaults
+    sortKeyOperator: isSortKeyOperator(sortKeyOperator) ? sortKeyOperator : '=',
+    sortKeyValue: searchParams.get('sortKey') || undefined,
+    sortKeyEndValue: searchParams.get('sortKeyEnd') || undefined,
+    limit: Number.isInteger(limit) && limit > 0 ? limit : defaultItemsLimit,
+  };
+};
+
+const sortKeyConditionBuilders: Record<SortKeyOperator, string> = {
+  '=': '#sk = :sk',
+  '<': '#sk < :sk',
+  '<=': '#sk <= :sk',
+  '>': '#sk > :sk',
+  '>=': '#sk >= :sk',
+  between: '#sk BETWEEN :sk AND :skEnd',
+  begins_with: 'begins_with(#sk, :sk)',
+};
+
+/**
+ * Builds the key condition expression (and its names and values) needed to
+ * query the given table (or index) with the provided filter.
+ * Returns `undefined` if the filter cannot be used to run a query,
+ * in which case the table should be scanned instead.
+ */
+export const buildKeyCondition = (
+  table: TableDescription | undefined,
+  filter: ItemsFilter,
+):
+  | {
+      KeyConditionExpression: string;
+      ExpressionAttributeNames: Record<string, string>;
+      ExpressionAttributeValues: Record<string, AttributeValue>;
+    }
+  | undefined => {
+  if (filter.mode !== 'query' || !filter.partitionKeyValue) {
+    return;
+  }
+  const { partitionKey, sortKey } = getKeyAttributes(
+    getKeySchema(table, filter.indexName),
+  );
+  if (!partitionKey) {
+    return;
+  }
+  const toValue = (attributeName: string, value: string) =>
+    toKeyAttributeValue(
+      getAttributeType(table?.AttributeDefinitions, attributeName),
+      value,
+    );
+  const withSortKey =
+    !!sortKey &&
+    !!filter.sortKeyValue &&
+    (filter.sortKeyOperator !== 'between' || !!filter.sortKeyEndValue);
+  const sortKeyOperator = filter.sortKeyOperator ?? '=';
+
+  return {
+    KeyConditionExpression: [
+      '#pk = :pk',
+      ...(withSortKey ? [sortKeyConditionBuilders[sortKeyOperator]] : []),
+    ].join(' AND '),
+    ExpressionAttributeNames: {
+      '#pk': partitionKey,
+      ...(withSortKey && { '#sk': sortKey }),
+    },
+    ExpressionAttributeValues: {
+      ':pk': toValue(partitionKey, filter.partitionKeyValue),
+      ...(withSortKey && {
+        ':sk': toValue(sortKey, filter.sortKeyValue!),
+        ...(sortKeyOperator === 'between' && {
+          ':skEnd': toValue(sortKey, filter.sortKeyEndValue!),
+        }),
+      }),
+    },
+  };
+};
+
+/**
+ * Splits a PartiQL script into its statements, using semicolons
+ * as separators unless they are part of a string or an identifier.
+ */
+export const splitStatements = (script: string): string[] => {
+  const statements: string[] = [];
+  let currentStatement = '';
+  let openQuote: string | undefined;
+  for (const char of script) {
+    if (openQuote) {
+      // Escaped quotes ('' or "") simply close and reopen the quoted
+      // section, so we don't need to handle them explicitly
+      if (char === openQuote) {
+        openQuote = undefined;
+      }
+    } else if (char === "'" || char === '"') {
+      openQuote = char;
+    } else if (char === ';') {
+      statements.push(currentStatement);
+      currentStatement = '';
+      continue;
+    }
+    currentStatement += char;
+  }
+  statements.push(currentStatement);
+  return statements.map(statement => statement.trim()).filter(Boolean);
+};
+
+export type SecondaryIndexType = 'global' | 'local';
+
+export interface KeyAttributeDefinition {
+  name: string;
+  type: ScalarAttributeType;
+}
+
+export interface SecondaryIndexDefinition {
+  type: SecondaryIndexType;
+  name: string;
+  partitionKey?: KeyAttributeDefinition;
+  sortKey?: KeyAttributeDefinition;
+  projectionType: ProjectionType;
+  nonKeyAttributes: string[];
+}
+
+/**
+ * Parses the secondary indexes defined using the `SecondaryIndexFields`
+ * component. Each field is repeated once per index, so we can simply
+ * group them by their position.
+ */
+export const parseSecondaryIndexes = (
+  formData: FormData,
+): SecondaryIndexDefinition[] => {
+  const getAll = (name: string) =>
+    formData.getAll(name).map(value => value.toString().trim());
+  const types = getAll('indexType');
+  const names = getAll('indexName');
+  const partitionKeyNames = getAll('indexPartitionKeyName');
+  const partitionKeyTypes = getAll('indexPartitionKeyType');
+  const sortKeyNames = getAll('indexSortKeyName');
+  const sortKeyTypes = getAll('indexSortKeyType');
+  const projectionTypes = getAll('indexProjectionType');
+  const nonKeyAttributes = getAll('indexNonKeyAttributes');
+
+  return names
+    .map((name, index) => ({
+      type: types[index] === 'local' ? 'local' : 'global',
+      name,
+      partitionKey: partitionKeyNames[index]
+        ? {
+            name: partitionKeyNames[index],
+            type: (partitionKeyTypes[index] || 'S') as ScalarAttributeType,
+          }
+        : undefined,
+      sortKey: sortKeyNames[index]
+        ? {
+            name: sortKeyNames[index],
+            type: (sortKeyTypes[index] || 'S') as ScalarAttributeType,
+          }
+        : undefined,
+      projectionType: (projectionTypes[index] || 'ALL') as ProjectionType,
+      nonKeyAttributes:
+        nonKeyAttributes[index]
+          ?.split(',')
+          .map(attribute => attribute.trim())
+          .filter(Boolean) ?? [],
+    }))
+    .filter(({ name }) => !!name) as SecondaryIndexDefinition[];
+};
+
+export const mergeAttributeDefinitions = (
+  ...attributeDefinitions: (KeyAttributeDefinition | undefined)[]
+): AttributeDefinition[] =>
+  Array.from(
+    new Map(
+      attributeDefinitions
+        .filter((definition): definition is KeyAttributeDefinition =>
+          Boolean(definition?.name),
+        )
+        .map(({ name, type }) => [
+          name,
+          { AttributeName: name, AttributeType: type },
+        ]),
+    ).values(),
+  );
+
+export const buildProjection = ({
+  projectionType,
+  nonKeyAttributes,
+}: SecondaryIndexDefinition): Projection => ({
+  ProjectionType: projectionType,
+  ...(projectionType === 'INCLUDE' && {
+    NonKeyAttributes: nonKeyAttributes,
+  }),
+});
+
+export const buildGlobalSecondaryIndex = (
+  index: SecondaryIndexDefinition,
+  provisionedThroughput?: ProvisionedThroughput,
+): GlobalSecondaryIndex => ({
+  IndexName: index.name,
+  KeySchema: [
+    { AttributeName: index.partitionKey?.name, KeyType: 'HASH' },
+    ...(index.sortKey
+      ? [{ AttributeName: index.sortKey.name, KeyType: 'RANGE' as const }]
+      : []),
+  ],
+  Projection: buildProjection(index),
+  ...(provisionedThroughput && {
+    ProvisionedThroughput: provisionedThroughput,
+  }),
+});
+
+export const buildLocalSecondaryIndex = (
+  index: SecondaryIndexDefinition,
+  tablePartitionKeyName: string,
+): LocalSecondaryIndex => ({
+  IndexName: index.name,
+  // Local secondary indexes always share the partition key of the table
+  KeySchema: [
+    { AttributeName: tablePartitionKeyName, KeyType: 'HASH' },
+    { AttributeName: index.sortKey?.name, KeyType: 'RANGE' },
+  ],
+  Projection: buildProjection(index),
+});
+
+export interface TableSettings {
+  billingMode: BillingMode;
+  readCapacityUnits: number;
+  writeCapacityUnits: number;
+  // An empty view type means that the stream is disabled
+  streamViewType: StreamViewType | '';
+  tableClass: TableClass;
+  deletionProtectionEnabled: boolean;
+  // Tables are always encrypted, by default with a key owned by AWS
+  sseType: 'DEFAULT' | 'KMS';
+  kmsMasterKeyId: string;
+}
+
+export const defaultTableSettings: TableSettings = {
+  billingMode: 'PROVISIONED',
+  readCapacityUnits: 1,
+  writeCapacityUnits: 1,
+  streamViewType: '',
+  tableClass: 'STANDARD',
+  deletionProtectionEnabled: false,
+  sseType: 'DEFAULT',
+  kmsMasterKeyId: '',
+};
+
+/**
+ * Parses the settings defined using the `TableSettingsFields` component.
+ */
+export const parseTableSettings = (formData: FormData): TableSettings => ({
+  billingMode:
+    formData.get('billingMode') === 'PAY_PER_REQUEST'
+      ? 'PAY_PER_REQUEST'
+      : 'PROVISIONED',
+  readCapacityUnits:
+    Number(formData.get('readCapacityUnits')?.toString()) ||
+    defaultTableSettings.readCapacityUnits,
+  writeCapacityUnits:
+    Number(formData.get('writeCapacityUnits')?.toString()) ||
+    defaultTableSettings.writeCapacityUnits,
+  streamViewType: (formData.get('streamViewType')?.toString() ??
+    '') as TableSettings['streamViewType'],
+  tableClass: (formData.get('tableClass')?.toString() ||
+    defaultTableSettings.tableClass) as TableClass,
+  deletionProtectionEnabled: formData.has('deletionProtectionEnabled'),
+  sseType: formData.get('sseType') === 'KMS' ? 'KMS' : 'DEFAULT',
+  kmsMasterKeyId: formData.get('kmsMasterKeyId')?.toString().trim() ?? '',
+});
+
+export const getTableSettings = (
+  table: TableDescription | undefined,
+): TableSettings => ({
+  billingMode:
+    table?.BillingModeSummary?.BillingMode ?? defaultTableSettings.billingMode,
+  readCapacityUnits:
+    table?.ProvisionedThroughput?.ReadCapacityUnits ||
+    defaultTableSettings.readCapacityUnits,
+  writeCapacityUnits:
+    table?.ProvisionedThroughput?.WriteCapacityUnits ||
+    defaultTableSettings.writeCapacityUnits,
+  streamViewType: table?.StreamSpecification?.StreamEnabled
+    ? table.StreamSpecification.StreamViewType ?? ''
+    : '',
+  tableClass:
+    table?.TableClassSummary?.TableClass ?? defaultTableSettings.tableClass,
+  deletionProtectionEnabled: !!table?.DeletionProtectionEnabled,
+  sseType:
+    table?.SSEDescription?.SSEType === 'KMS' &&
+    table.SSEDescription.Status !== 'DISABLED'
+      ? 'KMS'
+      : 'DEFAULT',
+  kmsMasterKeyId: table?.SSEDescription?.KMSMasterKeyArn ?? '',
+});
+
+export const buildProvisionedThroughput = (
+  settings: TableSettings,
+): ProvisionedThroughput | undefined =>
+  settings.billingMode === 'PROVISIONED'
+    ? {
+        ReadCapacityUnits: settings.readCapacityUnits,
+        WriteCapacityUnits: settings.writeCapacityUnits,
+      }
+    : undefined;
+
+const buildSseSpecification = (settings: TableSettings): SSESpecification =>
+  settings.sseType === 'KMS'
+    ? {
+        Enabled: true,
+        SSEType: 'KMS',
+        // Without a key, the one managed by AWS for DynamoDB is used
+        KMSMasterKeyId: settings.kmsMasterKeyId || undefined,
+      }
+    : { Enabled: false };
+
+export const buildCreateTableSettings = (
+  settings: TableSettings,
+): Partial<CreateTableCommandInput> => ({
+  BillingMode: settings.billingMode,
+  ProvisionedThroughput: buildProvisionedThroughput(settings),
+  StreamSpecification: settings.streamViewType
+    ? { StreamEnabled: true, StreamViewType: settings.streamViewType }
+    : undefined,
+  TableClass: settings.tableClass,
+  DeletionProtectionEnabled: settings.deletionProtectionEnabled,
+  SSESpecification: buildSseSpecification(settings),
+});
+
+/**
+ * Computes the `UpdateTable` requests needed to go from the current settings
+ * to the new ones. Since DynamoDB only allows a few kinds of changes in the
+ * same request, every kind of change is sent as a separate request.
+ */
+export const buildTableSettingsUpdates = (
+  currentSettings: TableSettings,
+  newSettings: TableSettings,
+): Partial<UpdateTableCommandInput>[] => {
+  const updates: Partial<UpdateTableCommandInput>[] = [];
+
+  if (
+    newSettings.billingMode !== currentSettings.billingMode ||
+    (newSettings.billingMode === 'PROVISIONED' &&
+      (newSettings.readCapacityUnits !== currentSettings.readCapacityUnits ||
+        newSettings.writeCapacityUnits !== currentSettings.writeCapacityUnits))
+  ) {
+    updates.push({
+      BillingMode: newSettings.billingMode,
+      ProvisionedThroughput: buildProvisionedThroughput(newSettings),
+    });
+  }
+  if (newSettings.streamViewType !== currentSettings.streamViewType) {
+    // The view type of an enabled stream cannot be changed directly,
+    // the stream must be disabled first
+    if (currentSettings.streamViewType) {
+      updates.push({ StreamSpecification: { StreamEnabled: false } });
+    }
+    if (newSettings.streamViewType) {
+      updates.push({
+        StreamSpecification: {
+          StreamEnabled: true,
+          StreamViewType: newSettings.streamViewType,
+        },
+      });
+    }
+  }
+  if (newSettings.tableClass !== currentSettings.tableClass) {
+    updates.push({ TableClass: newSettings.tableClass });
+  }
+  if (
+    newSettings.deletionProtectionEnabled !==
+    currentSettings.deletionProtectionEnabled
+  ) {
+    updates.push({
+      DeletionProtectionEnabled: newSettings.deletionProtectionEnabled,
+    });
+  }
+  if (
+    newSettings.sseType !== currentSettings.sseType ||
+    (newSettings.sseType === 'KMS' &&
+      newSettings.kmsMasterKeyId !== currentSettings.kmsMasterKeyId)
+  ) {
+    updates.push({ SSESpecification: buildSseSpecification(newSettings) });
+  }
+
+  return updates;
+};
+
+/**
+ * The formats used to export and import items:
+ * - `json`: one plain JSON item per line
+ * - `dynamodb`: one DynamoDB JSON item per line, wrapped in an `Item` object
+ *   like in the exports to S3 made by DynamoDB
+ * - `csv`: one item per row, with a column for each attribute and type
+ */
+export type ExportFormat = 'json' | 'dynamodb' | 'csv';
+
+export const exportFormatToFileExtensionMap: Record<ExportFormat, string> = {
+  json: 'jsonl',
+  dynamodb: 'json',
+  csv: 'csv',
+};
+
+export const parseExportFormat = (format: string | null): ExportFormat =>
+  format === 'dynamodb' || format === 'csv' ? format : 'json';
+
+export const formatItemAsJsonLine = (
+  item: SerializedItem,
+  format: Exclude<ExportFormat, 'csv'>,
+) =>
+  `${JSON.stringify(format === 'dynamodb' ? { Item: item } : toPlainItem(item))}\n`;
+
+const escapeCsvValue = (value: string) =>
+  /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+export const formatCsvRow = (values: string[]) =>
+  `${values.map(escapeCsvValue).join(',')}\r\n`;
+
+/**
+ * CSV columns are named after the attribute and its type, e.g. `id (S)`, like
+ * in the exports made by the DynamoDB console, so that values keep their type
+ * when imported. An attribute with several types gets a column for each type.
+ */
+const formatCsvColumn = (name: string, type: string) => `${name} (${type})`;
+
+const csvColumnRegExp = /^(.*) \((S|N|B|SS|NS|BS|M|L|NULL|BOOL)\)$/;
+
+/**
+ * Returns the CSV columns of the given item, along with their values.
+ * Strings, numbers and binary values are written as they are, any other
+ * value as DynamoDB JSON, so that nested values keep their type too.
+ */
+export const toCsvCells = (item: SerializedItem): Record<string, string> =>
+  Object.fromEntries(
+    Object.entries(item).map(([name, value]) => {
+      const [[type, content]] = Object.entries(value);
+      return [
+        formatCsvColumn(name, type),
+        typeof content === 'string' ? content : JSON.stringify(content),
+      ];
+    }),
+  );
+
+export const getKeyCsvColumns = (table: TableDescription | undefined) =>
+  getKeySchema(table).map(({ AttributeName = '' }) =>
+    formatCsvColumn(
+      AttributeName,
+      getAttributeType(table?.AttributeDefinitions, AttributeName),
+    ),
+  );
+
+const fromCsvValue = (value: string, type: string) => {
+  const attributeValue =
+    type === 'S' || type === 'N' || type === 'B'
+      ? { [type]: value }
+      : { [type]: JSON.parse(value) };
+  if (!isSerializedAttributeValue(attributeValue)) {
+    throw new Error(`Invalid ${type} value: ${value}`);
+  }
+  return attributeValue;
+};
+
+/**
+ * Parses the content of an exported file, collecting the lines that do not
+ * contain a valid item instead of failing, so that they can be reported.
+ */
+export const parseImportedItems = (
+  content: string,
+  format: ExportFormat,
+  table: TableDescription | undefined,
+): { items: SerializedItem[]; invalidLines: number[] } => {
+  if (format === 'csv') {
+    return parseImportedCsvItems(content, table);
+  }
+
+  const items: SerializedItem[] = [];
+  const invalidLines: number[] = [];
+  content.split(/\r?\n/).forEach((line, index) => {
+    if (!line.trim()) {
+      return;
+    }
+    try {
+      const value = JSON.parse(line);
+      if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+        invalidLines.push(index + 1);
+        return;
+      }
+      // Items exported by DynamoDB to S3 are wrapped in an `Item` object
+      const item = format === 'dynamodb' ? value.Item ?? value : value;
+      if (format === 'dynamodb' && !isSerializedItem(item)) {
+        invalidLines.push(index + 1);
+        return;
+      }
+      items.push(format === 'dynamodb' ? item : fromPlainItem(item));
+    } catch {
+      invalidLines.push(index + 1);
+    }
+  });
+  return { items, invalidLines };
+};
+
+const parseImportedCsvItems = (
+  content: string,
+  table: TableDescription | undefined,
+): { items: SerializedItem[]; invalidLines: number[] } => {
+  let records: { record: string[]; info: { lines: number } }[];
+  try {
+    records = parseCsv(content, {
+      info: true,
+      relax_column_count: true,
+      skip_empty_lines: true,
+    });
+  } catch (error) {
+    return { items: [], invalidLines: [(error as CsvError).lines] };
+  }
+  const [header, ...rows] = records;
+  // Columns without a type, e.g. in files not exported from here, are read
+  // as strings, unless they are key attributes
+  const columns = (header?.record ?? []).map(column => {
+    const [, name, type] = csvColumnRegExp.exec(column) ?? [
+      column,
+      column,
+      getAttributeType(table?.AttributeDefinitions, column),
+    ];
+    return { name, type };
+  });
+
+  const items: SerializedItem[] = [];
+  const invalidLines: number[] = [];
+  rows.forEach(({ record, info }) => {
+    try {
+      items.push(
+        Object.fromEntries(
+          columns
+            .map(({ name, type }, index) => ({
+              name,
+              type,
+              value: record[index],
+            }))
+            // Empty cells represent missing attributes
+            .filter(({ name, value }) => name && value)
+            .map(({ name, type, value }) => [name, fromCsvValue(value, type)]),
+        ),
+      );
+    } catch {
+      invalidLines.push(info.lines);
+    }
+  });
+  return { items, invalidLines };
+};
+
+/**
+ * Computes the input needed to create a copy of the given table, including
+ * its key schema, indexes and settings.
+ * Encryption is left to the default, since the KMS key used by the table
+ * might not be available where the copy is created.
+ */
+export const buildCreateTableInput = (
+  table: TableDescription,
+  tableName: string,
+): CreateTableCommandInput => {
+  const settings = getTableSettings(table);
+  const provisionedThroughput = buildProvisionedThroughput(settings);
+  const globalIndexes = table.GlobalSecondaryIndexes ?? [];
+  const localIndexes = table.LocalSecondaryIndexes ?? [];
+
+  return {
+    TableName: tableName,
+    AttributeDefinitions: table.AttributeDefinitions,
+    KeySchema: table.KeySchema,
+    ...(globalIndexes.length > 0 && {
+      GlobalSecondaryIndexes: globalIndexes.map(index => ({
+        IndexName: index.IndexName,
+        KeySchema: index.KeySchema,
+        Projection: index.Projection,
+        ...(provisionedThroughput && {
+          ProvisionedThroughput: {
+            ReadCapacityUnits:
+              index.ProvisionedThroughput?.ReadCapacityUnits ||
+              provisionedThroughput.ReadCapacityUnits,
+            WriteCapacityUnits:
+              index.ProvisionedThroughput?.WriteCapacityUnits ||
+              provisionedThroughput.WriteCapacityUnits,
+          },
+        }),
+      })),
+    }),
+    ...(localIndexes.length > 0 && {
+      LocalSecondaryIndexes: localIndexes.map(index => ({
+        IndexName: index.IndexName,
+        KeySchema: index.KeySchema,
+        Projection: index.Projection,
+      })),
+    }),
+    ...buildCreateTableSettings({ ...settings, sseType: 'DEFAULT' }),
+  };
+};
@@ -0,0 +1,312 @@
+import {
+  CommonPrefix,
+  CopyObjectCommand,
+  DeleteObjectsCommand,
+  ListObjectVersionsCommand,
+  ListObjectsV2Command,
+  ObjectIdentifier,
+  ObjectStorageClass,
+  ObjectVersion,
+  _Object,
+} from '@aws-sdk/client-s3';
+import type { ServiceClient } from './server';
+import { base64UrlDecode, base64UrlEncode } from '~/src/utils';
+
+export type BatchOperationResult = {
+  succeeded: number;
+  failed: number;
+  errors: { key: string; message: string }[];
+};
+
+// The maximum number of keys returned by S3 in a single request
+const maxKeysPerRequest = 1000;
+// DeleteObjects accepts at most 1000 keys per request
+const maxDeleteBatchSize = 1000;
+// The number of objects copied at the same time
+const maxConcurrentCopies = 50;
+
+export const emptyBatchOperationResult = (): BatchOperationResult => ({
+  succeeded: 0,
+  failed: 0,
+  errors: [],
+});
+
+export const mergeBatchOperationResults = (
+  ...results: BatchOperationResult[]
+): BatchOperationResult =>
+  results.reduce(
+    (merged, result) => ({
+      succeeded: merged.succeeded + result.succeeded,
+      failed: merged.failed + result.failed,
+      errors: [...merged.errors, ...result.errors],
+    }),
+    emptyBatchOperationResult(),
+  );
+
+/**
+ * Pages through every object under the given prefix.
+ */
+export async function* listAllObjects(
+  s3Client: ServiceClient<'s3'>,
+  bucket: string,
+  prefix?: string,
+): AsyncGenerator<_Object[]> {
+  let continuationToken: string | undefined;
+  do {
+    const { Contents, NextContinuationToken } = await s3Client.send(
+      new ListObjectsV2Command({
+        Bucket: bucket,
+        Prefix: prefix,
+        ContinuationToken: continuationToken,
+      }),
+    );
+    yield Contents ?? [];
+    continuationToken = NextContinuationToken;
+  } while (continuationToken);
+}
+
+export interface ListedObjectVersion
+  extends Pick<
+    ObjectVersion,
+    'Key' | 'VersionId' | 'IsLatest' | 'LastModified' | 'Size'
+  > {
+  // The storage classes of the versions are a subset of the ones of the objects
+  StorageClass?: ObjectStorageClass;
+  IsDeleteMarker: boolean;
+}
+
+export type ObjectVersionsPage = {
+  CommonPrefixes: CommonPrefix[];
+  Versions: ListedObjectVersion[];
+  // Both the key and the version markers are needed to get the next page,
+  // so they are encoded in a single token
+  NextContinuationToken?: string;
+};
+
+/**
+ * Lists a page of the versions and delete markers in a "folder",
+ * the newest versions of each key first.
+ */
+export const listObjectVersionsPage = async (
+  s3Client: ServiceClient<'s3'>,
+  bucket: string,
+  prefix: string | undefined,
+  maxKeys: number,
+  continuationToken?: string,
+): Promise<ObjectVersionsPage> => {
+  const [keyMarker, versionIdMarker]: (string | undefined)[] = continuationToken
+    ? JSON.parse(base64UrlDecode(continuationToken))
+    : [];
+  const {
+    CommonPrefixes,
+    Versions,
+    DeleteMarkers,
+    IsTruncated,
+    NextKeyMarker,
+    NextVersionIdMarker,
+  } = await s3Client.send(
+    new ListObjectVersionsCommand({
+      Bucket: bucket,
+      Prefix: prefix,
+      Delimiter: '/',
+      MaxKeys: maxKeys,
+      KeyMarker: keyMarker,
+      VersionIdMarker: versionIdMarker,
+    }),
+  );
+
+  return {
+    CommonPrefixes: CommonPrefixes ?? [],
+    Versions: [
+      ...(Versions ?? []).map(version => ({
+        ...version,
+        StorageClass: version.StorageClass as ObjectStorageClass | undefined,
+        IsDeleteMarker: false,
+      })),
+      ...(DeleteMarkers ?? []).map(marker => ({
+        ...marker,
+        IsDeleteMarker: true,
+      })),
+    ].sort(
+      (a, b) =>
+        (a.Key ?? '').localeCompare(b.Key ?? '') ||
+        (b.LastModified?.getTime() ?? 0) - (a.LastModified?.getTime() ?? 0),
+    ),
+    NextContinuationToken: IsTruncated
+      ? base64UrlEncode(JSON.stringify([NextKeyMarker, NextVersionIdMarker]))
+      : undefined,
+  };
+};
+
+/**
+ * Lists every version and delete marker of a single key.
+ */
+export const listKeyVersions = async (
+  s3Client: ServiceClient<'s3'>,
+  bucket: string,
+  key: string,
+): Promise<ListedObjectVersion[]> => {
+  const versions: ListedObjectVersion[] = [];
+  let continuationToken: string | undefined;
+  do {
+    const page = await listObjectVersionsPage(
+      s3Client,
+      bucket,
+      key,
+      maxKeysPerRequest,
+      continuationToken,
+    );
+    const keyVersions = page.Versions.filter(version => version.Key === key);
+    versions.push(...keyVersions);
+    // Other keys starting with the same name come after the requested one
+    continuationToken =
+      keyVersions.length === page.Versions.length
+        ? page.NextContinuationToken
+        : undefined;
+  } while (continuationToken);
+  return versions;
+};
+
+/**
+ * Pages through every version and delete marker under the given prefix,
+ * which must all be deleted to really remove an object from a versioned bucket.
+ */
+export async function* listAllObjectVersions(
+  s3Client: ServiceClient<'s3'>,
+  bucket: string,
+  prefix?: string,
+): AsyncGenerator<ObjectIdentifier[]> {
+  let keyMarker: string | undefined;
+  let versionIdMarker: string | undefined;
+  do {
+    const {
+      Versions,
+      DeleteMarkers,
+      IsTruncated,
+      NextKeyMarker,
+      NextVersionIdMarker,
+    } = await s3Client.send(
+      new ListObjectVersionsCommand({
+        Bucket: bucket,
+        Prefix: prefix,
+        KeyMarker: keyMarker,
+        VersionIdMarker: versionIdMarker,
+      }),
+    );
+    yield [...(Versions ?? []), ...(DeleteMarkers ?? [])]
+      .filter(version => !!version.Key)
+      .map(({ Key, VersionId }) => ({ Key: Key!, VersionId }));
+    keyMarker = IsTruncated ? NextKeyMarker : undefined;
+    versionIdMarker = IsTruncated ? NextVersionIdMarker : undefined;
+  } while (keyMarker);
+}
+
+/**
+ * Deletes the given objects (or versions) in batches, reporting the objects
+ * that could not be deleted instead of stopping at the first failure.
+ */
+export const deleteObjects = async (
+  s3Client: ServiceClient<'s3'>,
+  bucket: string,
+  objects: ObjectIdentifier[],
+): Promise<BatchOperationResult> => {
+  const result = emptyBatchOperationResult();
+
+  for (let index = 0; index < objects.length; index += maxDeleteBatchSize) {
+    const batch = objects.slice(index, index + maxDeleteBatchSize);
+    try {
+      const { Errors } = await s3Client.send(
+        new DeleteObjectsCommand({
+          Bucket: bucket,
+          Delete: { Objects: batch, Quiet: true },
+        }),
+      );
+      result.succeeded += batch.length - (Errors?.length ?? 0);
+      result.failed += Errors?.length ?? 0;
+      result.errors.push(
+        ...(Errors ?? []).map(error => ({
+          key: error.Key ?? '',
+          message: error.Message ?? error.Code ?? '',
+        })),
+      );
+    } catch (error) {
+      result.failed += batch.length;
+      result.errors.push(
+        ...batch.map(({ Key }) => ({
+          key: Key ?? '',
+          message: (error as Error).message,
+        })),
+      );
+    }
+  }
+
+  return result;
+};
+
+/**
+ * Deletes every version of the objects under the given prefix
+ * (or of the whole bucket), one page at a time.
+ */
+export const deleteAllObjectVersions = async (
+  s3Client: ServiceClient<'s3'>,
+  bucket: string,
+  prefix?: string,
+  // Only delete the versions matching the predicate, if provided
+  filter: (key: string) => boolean = () => true,
+): Promise<BatchOperationResult> => {
+  const results: BatchOperationResult[] = [];
+  for await (const versions of listAllObjectVersions(
+    s3Client,
+    bucket,
+    prefix,
+  )) {
+    results.push(
+      await deleteObjects(
+        s3Client,
+        bucket,
+        versions.filter(({ Key }) => filter(Key ?? '')),
+      ),
+    );
+  }
+  return mergeBatchOperationResults(...results);
+};
+
+/**
+ * Copies the given objects to their new keys, a few at a time,
+ * reporting the objects that could not be copied.
+ */
+export const copyObjects = async (
+  s3Client: ServiceClient<'s3'>,
+  bucket: string,
+  copies: { sourceKey: string; targetKey: string }[],
+): Promise<BatchOperationResult> => {
+  const result = emptyBatchOperationResult();
+
+  for (let index = 0; index < copies.length; index += maxConcurrentCopies) {
+    const batch = copies.slice(index, index + maxConcurrentCopies);
+    const outcomes = await Promise.allSettled(
+      batch.map(({ sourceKey, targetKey }) =>
+        s3Client.send(
+          new CopyObjectCommand({
+            Bucket: bucket,
+            CopySource: `${bucket}/${encodeURIComponent(sourceKey)}`,
+            Key: targetKey,
+          }),
+        ),
+      ),
+    );
+    outcomes.forEach((outcome, outcomeIndex) => {
+      if (outcome.status === 'fulfilled') {
+        result.succeeded++;
+        return;
+      }
+      result.failed++;
+      result.errors.push({
+        key: batch[outcomeIndex].sourceKey,
+        message: (outcome.reason as Error).message,
+      });
+    });
+  }
+
+  return result;
+};
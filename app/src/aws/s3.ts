@@ -0,0 +1,141 @@
+import type { CopyObjectCommandInput, Tag } from '@aws-sdk/client-s3';
+
+/**
+ * The system-defined headers of an object that can be changed by the user.
+ */
+export const editableObjectHeaders = [
+  'ContentType',
+  'CacheControl',
+  'ContentEncoding',
+  'ContentDisposition',
+  'ContentLanguage',
+] as const;
+
+export type EditableObjectHeader = (typeof editableObjectHeaders)[number];
+
+export type ObjectMetadata = Pick<
+  CopyObjectCommandInput,
+  EditableObjectHeader | 'Metadata'
+>;
+
+/**
+ * Parses the headers and the user-defined metadata defined using the
+ * `EditObjectMetadataDialog` component.
+ */
+export const parseObjectMetadata = (formData: FormData): ObjectMetadata => {
+  const metadataKeys = formData.getAll('metadataKey');
+  const metadataValues = formData.getAll('metadataValue');
+  const metadata: Record<string, string> = {};
+  metadataKeys.forEach((metadataKey, index) => {
+    const name = metadataKey.toString().trim().toLowerCase();
+    if (name) {
+      metadata[name] = metadataValues[index]?.toString() ?? '';
+    }
+  });
+  return {
+    ...Object.fromEntries(
+      editableObjectHeaders.map(header => [
+        header,
+        formData.get(header)?.toString().trim() || undefined,
+      ]),
+    ),
+    Metadata: metadata,
+  };
+};
+
+// The maximum number of tags allowed by S3
+export const maxObjectTags = 10;
+export const maxBucketTags = 50;
+
+/**
+ * Parses the tags defined using the `TagsFields` component.
+ */
+export const parseTags = (formData: FormData): Tag[] => {
+  const tagValues = formData.getAll('tagValue');
+  return formData
+    .getAll('tagKey')
+    .map((tagKey, index) => ({
+      Key: tagKey.toString().trim(),
+      Value: tagValues[index]?.toString() ?? '',
+    }))
+    .filter(({ Key }) => Key);
+};
+
+export type PresignedRequestMethod = 'GET' | 'PUT' | 'POST';
+
+export type PresignedRequest = {
+  method: PresignedRequestMethod;
+  key: string;
+  url: string;
+  // The form fields to send along with the file, only used by POST requests
+  fields?: Record<string, string>;
+};
+
+// The expirations (in seconds) that can be chosen for a presigned URL
+// t('fifteenMinutes') t('oneHour') t('twelveHours') t('oneDay') t('sevenDays')
+export const presignedUrlExpirations = {
+  900: 'fifteenMinutes',
+  3600: 'oneHour',
+  43200: 'twelveHours',
+  86400: 'oneDay',
+  604800: 'sevenDays',
+};
+
+export const defaultPresignedUrlExpiration = 3600;
+// Signature Version 4 does not allow presigned URLs lasting more than a week
+export const maxPresignedUrlExpiration = 604800;
+
+const quoteShellArgument = (value: string) =>
+  `'${value.replace(/'/g, `'\\''`)}'`;
+
+/**
+ * Builds a curl command that performs the given presigned request.
+ */
+export const buildCurlCommand = ({
+  method,
+  key,
+  url,
+  fields,
+}: PresignedRequest): string => {
+  const fileName = key.slice(key.lastIndexOf('/') + 1) || 'file';
+  switch (method) {
+    case 'PUT':
+      return `curl -X PUT -T ${quoteShellArgument(fileName)} ${quoteShellArgument(url)}`;
+    case 'POST':
+      return [
+        'curl',
+        ...Object.entries(fields ?? {}).map(
+          ([name, value]) => `-F ${quoteShellArgument(`${name}=${value}`)}`,
+        ),
+        // S3 ignores every field sent after the file
+        `-F ${quoteShellArgument(`file=@${fileName}`)}`,
+        quoteShellArgument(url),
+      ].join(' \\\n  ');
+    default:
+      return `curl -o ${quoteShellArgument(fileName)} ${quoteShellArgument(url)}`;
+  }
+};
+
+// t('pending') t('uploading') t('uploaded') t('failed') t('cancelled')
+export type UploadStatus =
+  | 'pending'
+  | 'uploading'
+  | 'uploaded'
+  | 'failed'
+  | 'cancelled';
+
+export type UploadProgress = {
+  // The path of the file, relative to the uploaded folders
+  file: string;
+  key?: string;
+  loaded: number;
+  status: UploadStatus;
+  error?: string;
+};
+
+/**
+ * Identifies a file selected for upload in the same way the upload action
+ * does, so that the progress reported by the server can be matched to it.
+ */
+export const getUploadedFilePath = (file: File & { path?: string }) =>
+  (file.path ?? file.name).replace(/^\/+/, '');
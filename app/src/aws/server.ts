@@ -1,6 +1,7 @@
 import { S3Client } from '@aws-sdk/client-s3';
 import { DynamoDBClient, DynamoDBClientConfig } from '@aws-sdk/client-dynamodb';
 import { DynamoDBDocumentClient } from '@aws-sdk/lib-dynamodb';
+import { DynamoDBStreamsClient } from '@aws-sdk/client-dynamodb-streams';
 import { SQSClient } from '@aws-sdk/client-sqs';
 import type { RegionInputConfig } from '@smithy/config-resolver';
 import type { EndpointInputConfig } from '@smithy/middleware-endpoint';
@@ -26,9 +27,17 @@ type AwsClient = Client<
 type AwsClientConstructor = new (config: AwsClientConfig) => AwsClient;
 
 export class WrappedDynamoDBClient extends DynamoDBDocumentClient {
+  // DynamoDB Streams has its own API, but it is served by the same endpoint
+  readonly streams: DynamoDBStreamsClient;
+
   constructor(config: DynamoDBClientConfig) {
     const client = new DynamoDBClient(config);
     super(client);
+    this.streams = new DynamoDBStreamsClient({
+      endpoint: config.endpoint,
+      region: config.region,
+      credentials: config.credentials,
+    });
   }
 }
 
@@ -188,3 +197,18 @@ export const getAwsClient = <T extends SupportedService>(
     : // Otherwise, return the first client in the group
       group.values().next().value;
 };
+
+/**
+ * Returns the client of a service served by the same endpoint used by
+ * another service, e.g. to reach the SQS queues of the LocalStack instance
+ * that also serves a given S3 bucket.
+ */
+export const getSiblingAwsClient = <T extends SupportedService>(
+  service: T,
+  siblingService: SupportedService,
+  siblingEndpoint?: string | null,
+): ServiceClient<T> | undefined => {
+  const endpoint =
+    siblingEndpoint ?? getAwsClientsGroup(siblingService)?.keys().next().value;
+  return endpoint ? getAwsClientsGroup(service)?.get(endpoint) : undefined;
+};
@@ -0,0 +1,330 @@
+import { randomUUID } from 'node:crypto';
+import {
+  CancelMessageMoveTaskCommand,
+  DeleteMessageCommand,
+  GetQueueAttributesCommand,
+  GetQueueUrlCommand,
+  ListMessageMoveTasksCommand,
+  ListMessageMoveTasksResultEntry,
+  ListQueuesCommand,
+  QueueAttributeName,
+  ReceiveMessageCommand,
+  SendMessageCommand,
+  SetQueueAttributesCommand,
+  StartMessageMoveTaskCommand,
+} from '@aws-sdk/client-sqs';
+import type { TFunction } from 'i18next';
+import type { ServiceClient } from './server';
+
+export type QueueWithArn = {
+  QueueName: string;
+  QueueUrl: string;
+  QueueArn: string;
+};
+
+type PolicyStatement = { Sid?: string } & Record<string, unknown>;
+
+export type MessageMoveTask = ListMessageMoveTasksResultEntry & {
+  // Whether the task is run by this server instead of by SQS
+  IsLocal?: boolean;
+};
+
+// Emulators that do not implement the message move tasks fail in different ways
+const unsupportedOperationErrors = [
+  'UnsupportedOperation',
+  'InvalidAction',
+  'UnknownOperationException',
+  'NotImplemented',
+];
+
+const localMessageMoveTasks = new Map<string, MessageMoveTask>();
+const cancelledLocalMessageMoveTasks = new Set<string>();
+
+const getQueueUrlFromArn = async (
+  sqsClient: ServiceClient<'sqs'>,
+  queueArn: string,
+) => {
+  const { QueueUrl } = await sqsClient.send(
+    new GetQueueUrlCommand({
+      QueueName: queueArn.slice(queueArn.lastIndexOf(':') + 1),
+    }),
+  );
+  return QueueUrl;
+};
+
+/**
+ * Lists every queue along with its ARN, which is what other services
+ * use to reference it.
+ */
+export const listQueuesWithArns = async (
+  sqsClient: ServiceClient<'sqs'>,
+): Promise<QueueWithArn[]> => {
+  const { QueueUrls = [] } = await sqsClient.send(new ListQueuesCommand({}));
+  return Promise.all(
+    QueueUrls.map(async QueueUrl => {
+      const { Attributes } = await sqsClient.send(
+        new GetQueueAttributesCommand({
+          QueueUrl,
+          AttributeNames: ['QueueArn'],
+        }),
+      );
+      return {
+        QueueName: QueueUrl.slice(QueueUrl.lastIndexOf('/') + 1),
+        QueueUrl,
+        QueueArn: Attributes?.QueueArn ?? '',
+      };
+    }),
+  );
+};
+
+/**
+ * Adds a statement to the policy of the queue that allows the given bucket
+ * to send its event notifications to it, unless it is already there.
+ */
+export const allowBucketNotifications = async (
+  sqsClient: ServiceClient<'sqs'>,
+  queueArn: string,
+  bucket: string,
+) => {
+  const QueueUrl = await getQueueUrlFromArn(sqsClient, queueArn);
+  const { Attributes } = await sqsClient.send(
+    new GetQueueAttributesCommand({ QueueUrl, AttributeNames: ['Policy'] }),
+  );
+  const policy = Attributes?.Policy
+    ? JSON.parse(Attributes.Policy)
+    : { Version: '2012-10-17' };
+  // A policy with a single statement might not wrap it in an array
+  const statements: PolicyStatement[] = [policy.Statement ?? []].flat();
+  const sid = `AllowS3Notifications-${bucket}`;
+  if (statements.some(statement => statement.Sid === sid)) {
+    return;
+  }
+
+  await sqsClient.send(
+    new SetQueueAttributesCommand({
+      QueueUrl,
+      Attributes: {
+        Policy: JSON.stringify({
+          ...policy,
+          Statement: [
+            ...statements,
+            {
+              Sid: sid,
+              Effect: 'Allow',
+              Principal: { Service: 's3.amazonaws.com' },
+              Action: 'sqs:SendMessage',
+              Resource: queueArn,
+              Condition: {
+                ArnLike: { 'aws:SourceArn': `arn:aws:s3:*:*:${bucket}` },
+              },
+            },
+          ],
+        }),
+      },
+    }),
+  );
+};
+
+/**
+ * Receives a batch of messages along with their system and custom attributes.
+ * Peeked messages are made visible again right away, so that looking at them
+ * does not hide them from the consumers of the queue.
+ */
+export const receiveMessages = async (
+  sqsClient: ServiceClient<'sqs'>,
+  queueUrl: string | undefined,
+  { peek = false }: { peek?: boolean } = {},
+) => {
+  const { Messages = [] } = await sqsClient.send(
+    new ReceiveMessageCommand({
+      QueueUrl: queueUrl,
+      MaxNumberOfMessages: 10,
+      WaitTimeSeconds: 3,
+      AttributeNames: [QueueAttributeName.All],
+      MessageAttributeNames: ['All'],
+      ...(peek && { VisibilityTimeout: 0 }),
+    }),
+  );
+  return Messages;
+};
+
+/**
+ * Moves the messages of a dead-letter queue one at a time, for the emulators
+ * that do not implement the message move tasks. The messages are sent back
+ * to the queue they came from, unless a destination is given.
+ */
+const runLocalMessageMoveTask = async (
+  sqsClient: ServiceClient<'sqs'>,
+  task: MessageMoveTask,
+  sourceUrl: string,
+  t: TFunction,
+  // Used when the messages do not tell which queue they came from
+  defaultDestinationArn?: string,
+) => {
+  const destinationUrls = new Map<string, string | undefined>();
+  const isCancelled = () =>
+    cancelledLocalMessageMoveTasks.has(task.TaskHandle ?? '');
+  try {
+    while (!isCancelled()) {
+      const { Messages = [] } = await sqsClient.send(
+        new ReceiveMessageCommand({
+          QueueUrl: sourceUrl,
+          MaxNumberOfMessages: 10,
+          WaitTimeSeconds: 1,
+          AttributeNames: [QueueAttributeName.All],
+          MessageAttributeNames: ['All'],
+        }),
+      );
+      if (Messages.length < 1) {
+        break;
+      }
+      for (const message of Messages) {
+        const destinationArn =
+          task.DestinationArn ??
+          message.Attributes?.DeadLetterQueueSourceArn ??
+          defaultDestinationArn;
+        if (!destinationArn) {
+          throw new Error(t('unknownMessagesSourceQueue'));
+        }
+        if (!destinationUrls.has(destinationArn)) {
+          destinationUrls.set(
+            destinationArn,
+            await getQueueUrlFromArn(sqsClient, destinationArn),
+          );
+        }
+        await sqsClient.send(
+          new SendMessageCommand({
+            QueueUrl: destinationUrls.get(destinationArn),
+            MessageBody: message.Body,
+            MessageAttributes: message.MessageAttributes,
+            MessageGroupId: message.Attributes?.MessageGroupId,
+            MessageDeduplicationId: message.Attributes?.MessageDeduplicationId,
+          }),
+        );
+        await sqsClient.send(
+          new DeleteMessageCommand({
+            QueueUrl: sourceUrl,
+            ReceiptHandle: message.ReceiptHandle,
+          }),
+        );
+        task.ApproximateNumberOfMessagesMoved =
+          (task.ApproximateNumberOfMessagesMoved ?? 0) + 1;
+      }
+    }
+    task.Status = isCancelled() ? 'CANCELLED' : 'COMPLETED';
+  } catch (error) {
+    task.Status = 'FAILED';
+    task.FailureReason = (error as Error).message;
+  }
+};
+
+/**
+ * Starts moving the messages of a dead-letter queue back to their source
+ * queue, or to the given destination. SQS does it on its own when possible,
+ * otherwise the messages are moved by this server.
+ */
+export const startMessageMoveTask = async (
+  sqsClient: ServiceClient<'sqs'>,
+  {
+    sourceUrl,
+    sourceArn,
+    destinationArn,
+    deadLetterSourceArns,
+  }: {
+    sourceUrl: string;
+    sourceArn: string;
+    destinationArn?: string;
+    deadLetterSourceArns: string[];
+  },
+  t: TFunction,
+) => {
+  try {
+    const { TaskHandle } = await sqsClient.send(
+      new StartMessageMoveTaskCommand({
+        SourceArn: sourceArn,
+        DestinationArn: destinationArn,
+      }),
+    );
+    return TaskHandle;
+  } catch (error) {
+    if (!unsupportedOperationErrors.includes((error as Error).name)) {
+      throw error;
+    }
+  }
+
+  // Like SQS, only one task at a time can move the messages of a queue
+  if (
+    [...localMessageMoveTasks.values()].some(
+      task => task.SourceArn === sourceArn && task.Status === 'RUNNING',
+    )
+  ) {
+    throw new Error(t('messageMoveTaskRunning'));
+  }
+  const { Attributes } = await sqsClient.send(
+    new GetQueueAttributesCommand({
+      QueueUrl: sourceUrl,
+      AttributeNames: ['ApproximateNumberOfMessages'],
+    }),
+  );
+  const task: MessageMoveTask = {
+    TaskHandle: randomUUID(),
+    Status: 'RUNNING',
+    SourceArn: sourceArn,
+    DestinationArn: destinationArn,
+    ApproximateNumberOfMessagesMoved: 0,
+    ApproximateNumberOfMessagesToMove: Number(
+      Attributes?.ApproximateNumberOfMessages ?? 0,
+    ),
+    StartedTimestamp: Date.now(),
+    IsLocal: true,
+  };
+  localMessageMoveTasks.set(task.TaskHandle!, task);
+  // The task keeps running after the request, its progress is listed instead
+  void runLocalMessageMoveTask(
+    sqsClient,
+    task,
+    sourceUrl,
+    t,
+    // Without a destination, the only source queue is the obvious one
+    deadLetterSourceArns.length === 1 ? deadLetterSourceArns[0] : undefined,
+  );
+  return task.TaskHandle;
+};
+
+/**
+ * Lists the message move tasks of a queue, including the ones run locally,
+ * the most recent first.
+ */
+export const listMessageMoveTasks = async (
+  sqsClient: ServiceClient<'sqs'>,
+  sourceArn: string,
+): Promise<MessageMoveTask[]> => {
+  const remoteTasks = await sqsClient
+    .send(new ListMessageMoveTasksCommand({ SourceArn: sourceArn }))
+    .then(({ Results = [] }) => Results)
+    .catch(error => {
+      if (unsupportedOperationErrors.includes((error as Error).name)) {
+        return [];
+      }
+      throw error;
+    });
+  const localTasks = [...localMessageMoveTasks.values()].filter(
+    task => task.SourceArn === sourceArn,
+  );
+  return [...remoteTasks, ...localTasks].sort(
+    (a, b) => (b.StartedTimestamp ?? 0) - (a.StartedTimestamp ?? 0),
+  );
+};
+
+export const cancelMessageMoveTask = async (
+  sqsClient: ServiceClient<'sqs'>,
+  taskHandle: string,
+) => {
+  if (localMessageMoveTasks.has(taskHandle)) {
+    cancelledLocalMessageMoveTasks.add(taskHandle);
+    return;
+  }
+  await sqsClient.send(
+    new CancelMessageMoveTaskCommand({ TaskHandle: taskHandle }),
+  );
+};
@@ -0,0 +1,61 @@
+import type { QueueAttributeName } from '@aws-sdk/client-sqs';
+
+type EditableQueueAttribute = {
+  name: QueueAttributeName;
+  label: string;
+};
+
+// t('visibilityTimeoutSeconds') t('messageRetentionPeriodSeconds')
+// t('maximumMessageSizeBytes') t('delaySeconds')
+// t('receiveMessageWaitTimeSeconds')
+/**
+ * The numeric attributes of a queue that can be changed after its creation,
+ * along with the range of values accepted by SQS.
+ */
+export const numericQueueAttributes: (EditableQueueAttribute & {
+  min: number;
+  max: number;
+})[] = [
+  {
+    name: 'VisibilityTimeout',
+    label: 'visibilityTimeoutSeconds',
+    min: 0,
+    max: 43200,
+  },
+  {
+    name: 'MessageRetentionPeriod',
+    label: 'messageRetentionPeriodSeconds',
+    min: 60,
+    max: 1209600,
+  },
+  {
+    name: 'MaximumMessageSize',
+    label: 'maximumMessageSizeBytes',
+    min: 1024,
+    max: 1048576,
+  },
+  { name: 'DelaySeconds', label: 'delaySeconds', min: 0, max: 900 },
+  {
+    name: 'ReceiveMessageWaitTimeSeconds',
+    label: 'receiveMessageWaitTimeSeconds',
+    min: 0,
+    max: 20,
+  },
+];
+
+// t('redrivePolicy') t('redriveAllowPolicy') t('accessPolicy')
+/**
+ * The attributes of a queue that are JSON documents, which are removed
+ * when left empty.
+ */
+export const jsonQueueAttributes: EditableQueueAttribute[] = [
+  { name: 'RedrivePolicy', label: 'redrivePolicy' },
+  { name: 'RedriveAllowPolicy', label: 'redriveAllowPolicy' },
+  { name: 'Policy', label: 'accessPolicy' },
+];
+
+/**
+ * The maximum number of messages sent at once, either as copies of the same
+ * message or as the elements of a JSON array.
+ */
+export const maxSentMessages = 1000;
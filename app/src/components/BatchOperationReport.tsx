@@ -0,0 +1,43 @@
+import { FunctionComponent } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Alert } from '@mui/material';
+import type { BatchOperationResult } from '~/src/aws/s3.server';
+
+// Only show the first errors, since there might be thousands of them
+const maxReportedErrors = 10;
+
+export interface BatchOperationReportProps {
+  result: BatchOperationResult;
+}
+
+/**
+ * Lists the objects that could not be processed by a batch operation.
+ */
+const BatchOperationReport: FunctionComponent<BatchOperationReportProps> = ({
+  result,
+}) => {
+  const { t } = useTranslation();
+
+  return (
+    <Alert severity="error">
+      {t('batchOperationFailed', {
+        count: result.failed,
+        succeeded: result.succeeded,
+      })}
+      {result.errors.slice(0, maxReportedErrors).map((error, index) => (
+        <div key={index}>
+          <strong>{error.key}</strong>: {error.message}
+        </div>
+      ))}
+      {result.errors.length > maxReportedErrors && (
+        <div>
+          {t('andMoreErrors', {
+            count: result.errors.length - maxReportedErrors,
+          })}
+        </div>
+      )}
+    </Alert>
+  );
+};
+
+export default BatchOperationReport;
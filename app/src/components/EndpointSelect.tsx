@@ -0,0 +1,50 @@
+import { FunctionComponent, useId } from 'react';
+import { useTranslation } from 'react-i18next';
+import {
+  FormControl,
+  FormControlProps,
+  InputLabel,
+  MenuItem,
+  Select,
+} from '@mui/material';
+
+export interface EndpointSelectProps
+  extends Omit<FormControlProps, 'onChange'> {
+  endpoints: string[];
+  value: string;
+  onChange: (endpoint: string) => void;
+}
+
+/**
+ * Select the endpoint to use among the configured ones for a service.
+ */
+const EndpointSelect: FunctionComponent<EndpointSelectProps> = ({
+  endpoints,
+  value,
+  onChange,
+  ...props
+}) => {
+  const { t } = useTranslation();
+  const labelId = useId();
+
+  return (
+    <FormControl {...props}>
+      <InputLabel id={labelId}>{t('endpoint')}</InputLabel>
+      <Select
+        labelId={labelId}
+        size="small"
+        label={t('endpoint')}
+        value={value}
+        onChange={event => onChange(event.target.value)}
+      >
+        {endpoints.map(endpoint => (
+          <MenuItem key={endpoint} value={endpoint}>
+            {endpoint}
+          </MenuItem>
+        ))}
+      </Select>
+    </FormControl>
+  );
+};
+
+export default EndpointSelect;
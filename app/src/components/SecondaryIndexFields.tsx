@@ -0,0 +1,151 @@
+import { FunctionComponent, useId, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import {
+  FormControl,
+  IconButton,
+  InputLabel,
+  MenuItem,
+  Select,
+  Stack,
+  TextField,
+  Typography,
+} from '@mui/material';
+import { Delete as DeleteIcon } from '@mui/icons-material';
+import type { SecondaryIndexType } from '~/src/aws/dynamodb';
+
+export interface SecondaryIndexFieldsProps {
+  // Local secondary indexes can only be defined when creating a table
+  allowLocal?: boolean;
+  onRemove?: () => void;
+}
+
+const KeyTypeSelect: FunctionComponent<{ name: string }> = ({ name }) => {
+  const { t } = useTranslation();
+  const labelId = useId();
+
+  return (
+    <FormControl sx={{ width: 160, flexShrink: 0 }}>
+      <InputLabel id={labelId}>{t('type')}</InputLabel>
+      <Select
+        labelId={labelId}
+        size="small"
+        label={t('type')}
+        name={name}
+        defaultValue="S"
+      >
+        <MenuItem value="S">{t('string')}</MenuItem>
+        <MenuItem value="N">{t('number')}</MenuItem>
+        <MenuItem value="B">{t('binary')}</MenuItem>
+      </Select>
+    </FormControl>
+  );
+};
+
+/**
+ * The fields needed to define a secondary index.
+ * Every field is repeated once per index, so that multiple indexes can be
+ * defined in the same form and then parsed with `parseSecondaryIndexes`.
+ */
+const SecondaryIndexFields: FunctionComponent<SecondaryIndexFieldsProps> = ({
+  allowLocal,
+  onRemove,
+}) => {
+  const { t } = useTranslation();
+  const [type, setType] = useState<SecondaryIndexType>('global');
+  const [projectionType, setProjectionType] = useState('ALL');
+  const typeLabelId = useId();
+  const projectionTypeLabelId = useId();
+
+  return (
+    <Stack spacing={2}>
+      <Stack direction="row" spacing={1} alignItems="center">
+        <TextField fullWidth required label={t('indexName')} name="indexName" />
+        {allowLocal ? (
+          <FormControl sx={{ width: 160, flexShrink: 0 }}>
+            <InputLabel id={typeLabelId}>{t('type')}</InputLabel>
+            <Select
+              labelId={typeLabelId}
+              size="small"
+              label={t('type')}
+              name="indexType"
+              value={type}
+              onChange={event =>
+                setType(event.target.value as SecondaryIndexType)
+              }
+            >
+              <MenuItem value="global">{t('globalIndex')}</MenuItem>
+              <MenuItem value="local">{t('localIndex')}</MenuItem>
+            </Select>
+          </FormControl>
+        ) : (
+          <input type="hidden" name="indexType" value="global" />
+        )}
+        {onRemove && (
+          <IconButton aria-label={t('removeIndex')} onClick={onRemove}>
+            <DeleteIcon />
+          </IconButton>
+        )}
+      </Stack>
+      {type === 'global' ? (
+        <Stack direction="row" spacing={1}>
+          <TextField
+            fullWidth
+            required
+            label={t('partitionKey')}
+            name="indexPartitionKeyName"
+          />
+          <KeyTypeSelect name="indexPartitionKeyType" />
+        </Stack>
+      ) : (
+        <>
+          {/* Local indexes share the partition key of the table, but we
+              still need the fields to keep the indexes aligned */}
+          <input type="hidden" name="indexPartitionKeyName" value="" />
+          <input type="hidden" name="indexPartitionKeyType" value="" />
+          <Typography variant="body2" color="text.secondary">
+            {t('localIndexHint')}
+          </Typography>
+        </>
+      )}
+      <Stack direction="row" spacing={1}>
+        <TextField
+          fullWidth
+          required={type === 'local'}
+          label={t('sortKey')}
+          name="indexSortKeyName"
+        />
+        <KeyTypeSelect name="indexSortKeyType" />
+      </Stack>
+      <Stack direction="row" spacing={1}>
+        <FormControl sx={{ width: 160, flexShrink: 0 }}>
+          <InputLabel id={projectionTypeLabelId}>{t('projection')}</InputLabel>
+          <Select
+            labelId={projectionTypeLabelId}
+            size="small"
+            label={t('projection')}
+            name="indexProjectionType"
+            value={projectionType}
+            onChange={event => setProjectionType(event.target.value)}
+          >
+            <MenuItem value="ALL">{t('allAttributes')}</MenuItem>
+            <MenuItem value="KEYS_ONLY">{t('keysOnly')}</MenuItem>
+            <MenuItem value="INCLUDE">{t('includedAttributes')}</MenuItem>
+          </Select>
+        </FormControl>
+        {projectionType === 'INCLUDE' ? (
+          <TextField
+            fullWidth
+            required
+            label={t('nonKeyAttributes')}
+            helperText={t('nonKeyAttributesHint')}
+            name="indexNonKeyAttributes"
+          />
+        ) : (
+          <input type="hidden" name="indexNonKeyAttributes" value="" />
+        )}
+      </Stack>
+    </Stack>
+  );
+};
+
+export default SecondaryIndexFields;
@@ -0,0 +1,147 @@
+import { FunctionComponent, useId, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import {
+  FormControl,
+  FormControlLabel,
+  InputLabel,
+  MenuItem,
+  Select,
+  Stack,
+  Switch,
+  TextField,
+} from '@mui/material';
+import { TableSettings, defaultTableSettings } from '~/src/aws/dynamodb';
+
+export interface TableSettingsFieldsProps {
+  defaultSettings?: TableSettings;
+}
+
+/**
+ * The fields needed to define the settings of a table, which can be parsed
+ * with `parseTableSettings`.
+ */
+const TableSettingsFields: FunctionComponent<TableSettingsFieldsProps> = ({
+  defaultSettings = defaultTableSettings,
+}) => {
+  const { t } = useTranslation();
+  const [billingMode, setBillingMode] = useState(defaultSettings.billingMode);
+  const [sseType, setSseType] = useState(defaultSettings.sseType);
+  const billingModeLabelId = useId();
+  const streamViewTypeLabelId = useId();
+  const tableClassLabelId = useId();
+  const sseTypeLabelId = useId();
+
+  return (
+    <Stack spacing={2}>
+      <FormControl fullWidth>
+        <InputLabel id={billingModeLabelId}>{t('billingMode')}</InputLabel>
+        <Select
+          labelId={billingModeLabelId}
+          size="small"
+          label={t('billingMode')}
+          name="billingMode"
+          value={billingMode}
+          onChange={event =>
+            setBillingMode(event.target.value as TableSettings['billingMode'])
+          }
+        >
+          <MenuItem value="PROVISIONED">{t('provisioned')}</MenuItem>
+          <MenuItem value="PAY_PER_REQUEST">{t('onDemand')}</MenuItem>
+        </Select>
+      </FormControl>
+      {billingMode === 'PROVISIONED' && (
+        <Stack direction="row" spacing={1}>
+          <TextField
+            fullWidth
+            required
+            type="number"
+            inputProps={{ min: 1 }}
+            label={t('readCapacityUnits')}
+            name="readCapacityUnits"
+            defaultValue={defaultSettings.readCapacityUnits}
+          />
+          <TextField
+            fullWidth
+            required
+            type="number"
+            inputProps={{ min: 1 }}
+            label={t('writeCapacityUnits')}
+            name="writeCapacityUnits"
+            defaultValue={defaultSettings.writeCapacityUnits}
+          />
+        </Stack>
+      )}
+      <FormControl fullWidth>
+        <InputLabel id={streamViewTypeLabelId} shrink>
+          {t('stream')}
+        </InputLabel>
+        <Select
+          labelId={streamViewTypeLabelId}
+          size="small"
+          label={t('stream')}
+          name="streamViewType"
+          defaultValue={defaultSettings.streamViewType}
+          displayEmpty
+          notched
+        >
+          <MenuItem value="">{t('disabled')}</MenuItem>
+          <MenuItem value="KEYS_ONLY">{t('keysOnly')}</MenuItem>
+          <MenuItem value="NEW_IMAGE">{t('newImage')}</MenuItem>
+          <MenuItem value="OLD_IMAGE">{t('oldImage')}</MenuItem>
+          <MenuItem value="NEW_AND_OLD_IMAGES">{t('newAndOldImages')}</MenuItem>
+        </Select>
+      </FormControl>
+      <FormControl fullWidth>
+        <InputLabel id={tableClassLabelId}>{t('tableClass')}</InputLabel>
+        <Select
+          labelId={tableClassLabelId}
+          size="small"
+          label={t('tableClass')}
+          name="tableClass"
+          defaultValue={defaultSettings.tableClass}
+        >
+          <MenuItem value="STANDARD">{t('standard')}</MenuItem>
+          <MenuItem value="STANDARD_INFREQUENT_ACCESS">
+            {t('standardInfrequentAccess')}
+          </MenuItem>
+        </Select>
+      </FormControl>
+      <FormControl fullWidth>
+        <InputLabel id={sseTypeLabelId}>{t('encryption')}</InputLabel>
+        <Select
+          labelId={sseTypeLabelId}
+          size="small"
+          label={t('encryption')}
+          name="sseType"
+          value={sseType}
+          onChange={event =>
+            setSseType(event.target.value as TableSettings['sseType'])
+          }
+        >
+          <MenuItem value="DEFAULT">{t('awsOwnedKey')}</MenuItem>
+          <MenuItem value="KMS">{t('kmsKey')}</MenuItem>
+        </Select>
+      </FormControl>
+      {sseType === 'KMS' && (
+        <TextField
+          fullWidth
+          label={t('kmsKeyId')}
+          helperText={t('kmsKeyIdHint')}
+          name="kmsMasterKeyId"
+          defaultValue={defaultSettings.kmsMasterKeyId}
+        />
+      )}
+      <FormControlLabel
+        control={
+          <Switch
+            name="deletionProtectionEnabled"
+            defaultChecked={defaultSettings.deletionProtectionEnabled}
+          />
+        }
+        label={t('deletionProtection')}
+      />
+    </Stack>
+  );
+};
+
+export default TableSettingsFields;
@@ -0,0 +1,88 @@
+import { FunctionComponent, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import {
+  Button,
+  IconButton,
+  Stack,
+  TextField,
+  Typography,
+} from '@mui/material';
+import { Add as AddIcon, Delete as DeleteIcon } from '@mui/icons-material';
+import type { Tag } from '@aws-sdk/client-s3';
+
+export interface TagsFieldsProps {
+  defaultTags?: Partial<Tag>[];
+  maxTags?: number;
+}
+
+/**
+ * The fields needed to define a set of tags.
+ * The key and value fields are repeated once per tag, so that the tags can
+ * then be parsed with `parseTags`.
+ */
+const TagsFields: FunctionComponent<TagsFieldsProps> = ({
+  defaultTags = [],
+  maxTags,
+}) => {
+  const { t } = useTranslation();
+  // Incremental ids used as keys, so that removing a tag does not reset
+  // the fields of the following ones
+  const [tags, setTags] = useState(() =>
+    defaultTags.map((tag, index) => ({ ...tag, id: index })),
+  );
+
+  return (
+    <Stack spacing={2}>
+      <Stack direction="row" justifyContent="space-between" alignItems="center">
+        <Typography variant="subtitle1" component="h3">
+          {t('tags')}
+        </Typography>
+        <Button
+          startIcon={<AddIcon />}
+          disabled={maxTags !== undefined && tags.length >= maxTags}
+          onClick={() =>
+            setTags(previousTags => [
+              ...previousTags,
+              {
+                id: Math.max(0, ...previousTags.map(({ id }) => id)) + 1,
+                Key: '',
+                Value: '',
+              },
+            ])
+          }
+        >
+          {t('addTag')}
+        </Button>
+      </Stack>
+      {tags.map(tag => (
+        <Stack key={tag.id} direction="row" spacing={1}>
+          <TextField
+            fullWidth
+            required
+            label={t('key')}
+            name="tagKey"
+            defaultValue={tag.Key}
+          />
+          <TextField
+            fullWidth
+            label={t('value')}
+            name="tagValue"
+            defaultValue={tag.Value}
+          />
+          <IconButton
+            aria-label={t('delete')}
+            onClick={() =>
+              setTags(previousTags =>
+                previousTags.filter(({ id }) => id !== tag.id),
+              )
+            }
+          >
+            <DeleteIcon />
+          </IconButton>
+        </Stack>
+      ))}
+    </Stack>
+  );
+};
+
+export default TagsFields;
@@ -0,0 +1,42 @@
+import { useCallback, useEffect, useState } from 'react';
+
+/**
+ * This hook behaves like `useState`, but it also persists the state in the
+ * local storage of the browser using the given key.
+ * Since the local storage is not available during SSR, the stored value
+ * is only loaded after the component has been mounted.
+ */
+const useLocalStorageState = <T>(
+  key: string,
+  defaultValue: T,
+): [T, (valueSetter: T | ((prev: T) => T)) => void] => {
+  const [value, setValue] = useState<T>(defaultValue);
+
+  useEffect(() => {
+    try {
+      const storedValue = localStorage.getItem(key);
+      if (storedValue !== null) {
+        setValue(JSON.parse(storedValue));
+      }
+    } catch {
+      // Ignore corrupted values, they will be overwritten on the next update
+    }
+  }, [key]);
+
+  const setStoredValue = useCallback(
+    (valueSetter: T | ((prev: T) => T)) =>
+      setValue(previousValue => {
+        const newValue =
+          typeof valueSetter === 'function'
+            ? (valueSetter as (prev: T) => T)(previousValue)
+            : valueSetter;
+        localStorage.setItem(key, JSON.stringify(newValue));
+        return newValue;
+      }),
+    [key],
+  );
+
+  return [value, setStoredValue];
+};
+
+export default useLocalStorageState;